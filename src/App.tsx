@@ -1,44 +1,124 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, Outlet, useLocation, useNavigate } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { LoginForm } from './components/auth/LoginForm';
 import { RegisterForm } from './components/auth/RegisterForm';
+import { ForgotPasswordForm } from './components/auth/ForgotPasswordForm';
+import { ResetPasswordForm } from './components/auth/ResetPasswordForm';
+import { AccountSettings } from './components/account/AccountSettings';
 import { Header } from './components/layout/Header';
 import { Dashboard } from './components/dashboard/Dashboard';
+import { LeadDetail } from './components/leads/LeadDetail';
+import { LeadEditRoute } from './components/leads/LeadEditRoute';
+import { CatalogAdmin } from './components/catalog/CatalogAdmin';
+import { TeamAdmin } from './components/team/TeamAdmin';
+import { FollowUps } from './components/followups/FollowUps';
+import { ScoringRules } from './components/scoring/ScoringRules';
+import { Territories } from './components/territories/Territories';
+import { Analytics } from './components/analytics/Analytics';
+import { Forecast } from './components/forecast/Forecast';
+import { Rentals } from './components/rentals/Rentals';
+import { startOfflineSync } from './lib/offline';
 
-const AuthWrapper: React.FC = () => {
-  const { user, loading } = useAuth();
-  const [isLogin, setIsLogin] = useState(true);
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
-        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-      </div>
-    );
-  }
+const LoadingScreen: React.FC = () => (
+  <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+    <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+  </div>
+);
 
-  if (!user) {
-    return isLogin ? (
-      <LoginForm onToggleMode={() => setIsLogin(false)} />
-    ) : (
-      <RegisterForm onToggleMode={() => setIsLogin(true)} />
-    );
-  }
+// Signed-in pages; remembers where the user was headed so login can send them back
+const ProtectedLayout: React.FC = () => {
+  const { user, loading, passwordRecovery } = useAuth();
+  const location = useLocation();
+  const userId = user?.id;
+
+  // Queued offline changes are pushed once signed in, and again whenever the connection returns
+  useEffect(() => {
+    if (userId) return startOfflineSync(userId);
+  }, [userId]);
+
+  if (loading) return <LoadingScreen />;
+  if (!user) return <Navigate to="/login" replace state={{ from: location }} />;
+  if (passwordRecovery) return <Navigate to="/reset-password" replace />;
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
-      <Dashboard />
+      <Outlet />
     </div>
   );
 };
 
+const PublicRoute: React.FC<{ mode: 'login' | 'register' | 'forgot' }> = ({ mode }) => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  if (loading) return <LoadingScreen />;
+  if (user) {
+    const from = (location.state as { from?: Location } | null)?.from;
+    return <Navigate to={from ? `${from.pathname}${from.search}` : '/leads'} replace />;
+  }
+
+  if (mode === 'forgot') {
+    return <ForgotPasswordForm onBackToLogin={() => navigate('/login', { state: location.state })} />;
+  }
+
+  return mode === 'login' ? (
+    <LoginForm
+      onToggleMode={() => navigate('/register', { state: location.state })}
+      onForgotPassword={() => navigate('/forgot-password', { state: location.state })}
+    />
+  ) : (
+    <RegisterForm onToggleMode={() => navigate('/login', { state: location.state })} />
+  );
+};
+
+// Reset links sign the user in with a recovery session, so this page sits outside the other guards
+const ResetPasswordRoute: React.FC = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  if (loading) return <LoadingScreen />;
+  // An expired link carries its error in the fragment, which the forgot password form shows
+  if (!user) return <Navigate to={{ pathname: '/forgot-password', hash: location.hash }} replace />;
+
+  return <ResetPasswordForm onDone={() => navigate('/leads', { replace: true })} />;
+};
+
 function App() {
   return (
     <AuthProvider>
-      <AuthWrapper />
+      <BrowserRouter>
+        <Routes>
+          <Route path="/login" element={<PublicRoute mode="login" />} />
+          <Route path="/register" element={<PublicRoute mode="register" />} />
+          <Route path="/forgot-password" element={<PublicRoute mode="forgot" />} />
+          <Route path="/reset-password" element={<ResetPasswordRoute />} />
+
+          <Route element={<ProtectedLayout />}>
+            <Route path="/leads" element={<Dashboard />}>
+              <Route path=":id/edit" element={<LeadEditRoute />} />
+            </Route>
+            <Route path="/leads/:id" element={<LeadDetail />} />
+            <Route path="/follow-ups" element={<FollowUps />} />
+            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/forecast" element={<Forecast />} />
+            <Route path="/rentals" element={<Rentals />} />
+            <Route path="/catalog" element={<CatalogAdmin />} />
+            <Route path="/scoring" element={<ScoringRules />} />
+            <Route path="/territories" element={<Territories />} />
+            <Route path="/team" element={<TeamAdmin />} />
+            <Route path="/account" element={<AccountSettings />} />
+          </Route>
+
+          <Route path="*" element={<Navigate to="/leads" replace />} />
+        </Routes>
+      </BrowserRouter>
     </AuthProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
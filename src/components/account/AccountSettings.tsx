@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { USER_ROLES } from '../../lib/constants';
+import { clearAuthLinkError, readAuthLinkError } from '../../lib/authLinks';
+import { Save, Lock } from 'lucide-react';
+
+export const AccountSettings: React.FC = () => {
+  const { user, profile, updateAccount, updatePassword } = useAuth();
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [savingAccount, setSavingAccount] = useState(false);
+  // Email change confirmations come back here, failed ones with the reason in the URL
+  const [accountError, setAccountError] = useState(readAuthLinkError);
+  const [accountNotice, setAccountNotice] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordNotice, setPasswordNotice] = useState('');
+
+  useEffect(() => {
+    clearAuthLinkError();
+  }, []);
+
+  useEffect(() => {
+    setFullName(profile?.full_name || '');
+  }, [profile?.full_name]);
+
+  useEffect(() => {
+    setEmail(user?.email || '');
+  }, [user?.email]);
+
+  const handleAccountSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingAccount(true);
+    setAccountError('');
+    setAccountNotice('');
+
+    try {
+      const { emailPending } = await updateAccount({ fullName, email });
+      setAccountNotice(emailPending
+        ? `Saved. We've sent a confirmation link to ${email.trim()}; your email changes once you open it.`
+        : 'Saved.');
+    } catch (error) {
+      console.error('Error updating account:', error);
+      setAccountError(error instanceof Error ? error.message : 'Could not update your account. Please try again.');
+    } finally {
+      setSavingAccount(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+    setPasswordNotice('');
+    if (password !== confirmPassword) {
+      setPasswordError('The passwords do not match.');
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      await updatePassword(password);
+      setPassword('');
+      setConfirmPassword('');
+      setPasswordNotice('Your password has been changed.');
+    } catch (error) {
+      console.error('Error updating password:', error);
+      setPasswordError(error instanceof Error ? error.message : 'Could not update your password. Please try again.');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const roleLabel = USER_ROLES.find(role => role.value === profile?.role)?.label;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      {/* Profile */}
+      <form onSubmit={handleAccountSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Account</h3>
+          {roleLabel && <p className="text-sm text-gray-500 mt-1">Role: {roleLabel}</p>}
+        </div>
+
+        {accountError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {accountError}
+          </div>
+        )}
+        {accountNotice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+            {accountNotice}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
+            Full Name
+          </label>
+          <input
+            id="fullName"
+            type="text"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+            Email Address
+          </label>
+          <input
+            id="email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          {user?.new_email && (
+            <p className="text-sm text-amber-700 mt-1">Waiting for {user.new_email} to be confirmed.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={savingAccount}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Save className="w-5 h-5" />
+            <span>{savingAccount ? 'Saving...' : 'Save Changes'}</span>
+          </button>
+        </div>
+      </form>
+
+      {/* Password */}
+      <form onSubmit={handlePasswordSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+        <h3 className="text-lg font-semibold text-gray-900">Change Password</h3>
+
+        {passwordError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {passwordError}
+          </div>
+        )}
+        {passwordNotice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+            {passwordNotice}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+              New Password
+            </label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+              minLength={6}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+              Confirm Password
+            </label>
+            <input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+              minLength={6}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={savingPassword}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Lock className="w-5 h-5" />
+            <span>{savingPassword ? 'Saving...' : 'Change Password'}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Lead } from '../../lib/supabase';
+import { X } from 'lucide-react';
+import { LeadTimeline } from './LeadTimeline';
+
+interface LeadHistoryModalProps {
+  lead: Lead;
+  onClose: () => void;
+}
+
+export const LeadHistoryModal: React.FC<LeadHistoryModalProps> = ({ lead, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Activity</h2>
+            <p className="text-sm text-gray-500 mt-1">{lead.full_name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <LeadTimeline leadId={lead.id} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, LeadActivity, ManualActivityType } from '../../lib/supabase';
+import { LEAD_FIELD_LABELS, MANUAL_ACTIVITY_TYPES } from '../../lib/constants';
+import { formatCurrency } from '../../lib/format';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { useTerritories, getTerritoryName } from '../../hooks/useTerritories';
+import { Phone, MapPin, Mail, Users, StickyNote, PlusCircle, Edit, Package, Wrench, GitMerge, FileText } from 'lucide-react';
+
+interface LeadTimelineProps {
+  leadId: string;
+}
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const getActivityIcon = (type: LeadActivity['activity_type']) => {
+  switch (type) {
+    case 'call': return Phone;
+    case 'visit': return MapPin;
+    case 'email': return Mail;
+    case 'meeting': return Users;
+    case 'note': return StickyNote;
+    case 'created': return PlusCircle;
+    case 'merged': return GitMerge;
+    case 'quoted': return FileText;
+    case 'product_added':
+    case 'product_updated':
+    case 'product_removed': return Package;
+    case 'service_added':
+    case 'service_updated':
+    case 'service_removed': return Wrench;
+    default: return Edit;
+  }
+};
+
+const getActivityTitle = (activity: LeadActivity) => {
+  const manual = MANUAL_ACTIVITY_TYPES.find(t => t.value === activity.activity_type);
+  if (manual) return manual.label;
+
+  switch (activity.activity_type) {
+    case 'created': return 'Lead created';
+    case 'updated': return 'Lead updated';
+    case 'merged': return `Merged duplicate ${activity.description}`;
+    case 'quoted': return `Issued quotation ${activity.description}`;
+    case 'product_added': return `Added product ${activity.description}`;
+    case 'product_updated': return `Changed product ${activity.description}`;
+    case 'product_removed': return `Removed product ${activity.description}`;
+    case 'service_added': return `Added service ${activity.description}`;
+    case 'service_updated': return `Changed service ${activity.description}`;
+    case 'service_removed': return `Removed service ${activity.description}`;
+    default: return activity.activity_type;
+  }
+};
+
+export const LeadTimeline: React.FC<LeadTimelineProps> = ({ leadId }) => {
+  const { user } = useAuth();
+  const members = useTeamMembers();
+  const territories = useTerritories();
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [entry, setEntry] = useState({
+    activity_type: 'call' as ManualActivityType,
+    description: '',
+    occurred_at: '',
+  });
+
+  const fetchActivities = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_activities')
+        .select('*')
+        .eq('lead_id', leadId)
+        .order('occurred_at', { ascending: false });
+
+      if (error) throw error;
+      setActivities(data || []);
+    } catch (error) {
+      console.error('Error fetching lead activities:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    fetchActivities();
+  }, [fetchActivities]);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    if (field === 'potential_amount') return formatCurrency(Number(value));
+    if (field === 'assigned_to' || field === 'user_id') return getMemberName(members, String(value));
+    if (field === 'territory_id') return getTerritoryName(territories, String(value));
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !entry.description.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('lead_activities')
+        .insert([{
+          lead_id: leadId,
+          actor_id: user.id,
+          activity_type: entry.activity_type,
+          description: entry.description.trim(),
+          ...(entry.occurred_at ? { occurred_at: new Date(entry.occurred_at).toISOString() } : {}),
+        }]);
+
+      if (error) throw error;
+      setEntry(prev => ({ ...prev, description: '', occurred_at: '' }));
+      fetchActivities();
+    } catch (error) {
+      console.error('Error logging activity:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Manual entry */}
+      <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <select
+            value={entry.activity_type}
+            onChange={(e) => setEntry(prev => ({ ...prev, activity_type: e.target.value as ManualActivityType }))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {MANUAL_ACTIVITY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            type="datetime-local"
+            value={entry.occurred_at}
+            onChange={(e) => setEntry(prev => ({ ...prev, occurred_at: e.target.value }))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="When it happened (defaults to now)"
+          />
+        </div>
+        <textarea
+          value={entry.description}
+          onChange={(e) => setEntry(prev => ({ ...prev, description: e.target.value }))}
+          rows={2}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="What happened?"
+        />
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving || !entry.description.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? 'Saving...' : 'Log Activity'}
+          </button>
+        </div>
+      </form>
+
+      {/* Timeline */}
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : activities.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No activity recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+          {activities.map(activity => {
+            const Icon = getActivityIcon(activity.activity_type);
+            const isManual = MANUAL_ACTIVITY_TYPES.some(t => t.value === activity.activity_type);
+
+            return (
+              <li key={activity.id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${
+                  isManual ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'
+                }`}>
+                  <Icon className="w-3 h-3" />
+                </span>
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900">{getActivityTitle(activity)}</p>
+                  <time className="text-xs text-gray-500">{formatTimestamp(activity.occurred_at)}</time>
+                </div>
+                <p className="text-xs text-gray-500">by {getMemberName(members, activity.actor_id)}</p>
+
+                {isManual && activity.description && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{activity.description}</p>
+                )}
+
+                {activity.changes && (
+                  <ul className="mt-1 space-y-0.5">
+                    {Object.entries(activity.changes).map(([field, change]) => (
+                      <li key={field} className="text-xs text-gray-600">
+                        <span className="font-medium">{LEAD_FIELD_LABELS[field] || field}:</span>{' '}
+                        <span className="line-through text-gray-400">{formatValue(field, change.from)}</span>
+                        {' → '}
+                        <span>{formatValue(field, change.to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTeamMembers } from '../../hooks/useTeamMembers';
+import { AnalyticsFilters, AnalyticsPeriod, LeadAnalytics, fetchLeadAnalytics, percentOf } from '../../lib/analytics';
+import { TerritoryReportRow, fetchTerritoryReport } from '../../lib/territories';
+import { LEAD_TYPES, MODEL_TYPES } from '../../lib/constants';
+import { formatCurrency } from '../../lib/format';
+import { addDays, todayISO } from '../../lib/dates';
+import { FunnelChart } from './FunnelChart';
+import { SegmentChart } from './SegmentChart';
+import { TrendChart } from './TrendChart';
+import { TopItemsTable } from './TopItemsTable';
+import { TerritoryTable } from './TerritoryTable';
+
+const DEFAULT_RANGE_DAYS = 90;
+
+const RANGE_PRESETS: { label: string; days: number }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '12 months', days: 365 },
+];
+
+export const Analytics: React.FC = () => {
+  const { user } = useAuth();
+  const members = useTeamMembers();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [analytics, setAnalytics] = useState<LeadAnalytics | null>(null);
+  const [territoryReport, setTerritoryReport] = useState<TerritoryReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const latestRequest = useRef(0);
+
+  const today = todayISO();
+  const from = searchParams.get('from') || addDays(today, -(DEFAULT_RANGE_DAYS - 1));
+  const to = searchParams.get('to') || today;
+  const owner = searchParams.get('owner') || '';
+  const period: AnalyticsPeriod = searchParams.get('period') === 'month' ? 'month' : 'week';
+
+  const updateParams = useCallback((changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const filters = React.useMemo<AnalyticsFilters>(() => ({
+    from,
+    to,
+    ownerId: owner === 'me' ? user?.id || '' : owner,
+    period,
+  }), [from, to, owner, period, user]);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!user) return;
+    if (filters.from > filters.to) {
+      setError('The start date must be on or before the end date.');
+      setLoading(false);
+      return;
+    }
+
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    setError('');
+    try {
+      const [data, report] = await Promise.all([fetchLeadAnalytics(filters), fetchTerritoryReport(filters)]);
+      if (requestId !== latestRequest.current) return;
+      setAnalytics(data);
+      setTerritoryReport(report);
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      if (requestId === latestRequest.current) setError('Could not load analytics. Please try again.');
+    } finally {
+      if (requestId === latestRequest.current) setLoading(false);
+    }
+  }, [user, filters]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const segmentsFor = (dimension: 'lead_type' | 'model_type') => {
+    const options = dimension === 'lead_type' ? LEAD_TYPES : MODEL_TYPES;
+    return options.map(option => {
+      const segment = analytics?.segments.find(s => s.dimension === dimension && s.value === option.value);
+      return {
+        label: option.label,
+        leadCount: segment?.lead_count ?? 0,
+        pipelineValue: segment?.pipeline_value ?? 0,
+        closedValue: segment?.closed_value ?? 0,
+      };
+    });
+  };
+
+  const funnel = analytics?.funnel;
+  const totalClosedValue = analytics?.segments
+    .filter(s => s.dimension === 'lead_type')
+    .reduce((sum, s) => sum + s.closed_value, 0) ?? 0;
+  const totalPipelineValue = analytics?.segments
+    .filter(s => s.dimension === 'lead_type')
+    .reduce((sum, s) => sum + s.pipeline_value, 0) ?? 0;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Analytics</h2>
+        <p className="text-gray-600 mt-1">Leads created between the selected dates, for leads you can access.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+          <div className="flex items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => updateParams({ from: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => updateParams({ to: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg self-start lg:self-end">
+            {RANGE_PRESETS.map(preset => (
+              <button
+                key={preset.days}
+                onClick={() => updateParams({ from: addDays(today, -(preset.days - 1)), to: '' })}
+                className="px-3 py-2 text-sm font-medium rounded-md text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          {members.length > 1 && (
+            <select
+              value={owner}
+              onChange={(e) => updateParams({ owner: e.target.value })}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All Owners</option>
+              <option value="me">My Leads</option>
+              {members
+                .filter(member => member.user_id !== user?.id)
+                .map(member => (
+                  <option key={member.user_id} value={member.user_id}>
+                    {member.full_name || member.email}
+                  </option>
+                ))}
+            </select>
+          )}
+
+          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg self-start lg:self-end lg:ml-auto">
+            {(['week', 'month'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => updateParams({ period: option === 'week' ? '' : option })}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  period === option ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option === 'week' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading && !analytics ? (
+        <div className="flex items-center justify-center py-24">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : analytics && funnel && (
+        <div className={`space-y-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {[
+              { label: 'Leads Created', value: funnel.total.toString() },
+              { label: 'Close Rate', value: `${percentOf(funnel.closed, funnel.total)}%` },
+              { label: 'Open Pipeline', value: formatCurrency(totalPipelineValue) },
+              { label: 'Closed Value', value: formatCurrency(totalClosedValue) },
+            ].map(stat => (
+              <div key={stat.label} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+                <p className="text-3xl font-bold text-gray-900 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Conversion Funnel</h3>
+              <FunnelChart funnel={funnel} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Created vs Closed {period === 'week' ? 'per Week' : 'per Month'}
+              </h3>
+              <TrendChart points={analytics.trends} period={period} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Value by Lead Type</h3>
+              <SegmentChart segments={segmentsFor('lead_type')} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Value by Model Type</h3>
+              <SegmentChart segments={segmentsFor('model_type')} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Top Products</h3>
+              <TopItemsTable items={analytics.top_items.filter(item => item.kind === 'Product')} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Top Services</h3>
+              <TopItemsTable items={analytics.top_items.filter(item => item.kind === 'Service')} />
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Territories</h3>
+            <TerritoryTable rows={territoryReport} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { FunnelCounts, percentOf } from '../../lib/analytics';
+
+interface FunnelChartProps {
+  funnel: FunnelCounts;
+}
+
+// Statuses only move forward, so a closed lead has also been in progress
+export const FunnelChart: React.FC<FunnelChartProps> = ({ funnel }) => {
+  const stages = [
+    { label: 'New', count: funnel.total, color: 'bg-blue-500' },
+    { label: 'In-Progress', count: funnel.in_progress + funnel.closed, color: 'bg-yellow-500' },
+    { label: 'Closed', count: funnel.closed, color: 'bg-green-500' },
+  ];
+
+  if (funnel.total === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">No leads were created in this range.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {stages.map((stage, index) => (
+        <div key={stage.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-700">{stage.label}</span>
+            <span className="text-gray-600">
+              {stage.count}
+              {index > 0 && (
+                <span className="text-gray-400">
+                  {' '}· {percentOf(stage.count, stages[index - 1].count)}% of {stages[index - 1].label}
+                </span>
+              )}
+            </span>
+          </div>
+          <div className="h-6 bg-gray-100 rounded-md overflow-hidden">
+            <div
+              className={`h-full ${stage.color} rounded-md`}
+              style={{ width: `${percentOf(stage.count, funnel.total)}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
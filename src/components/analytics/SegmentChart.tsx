@@ -0,0 +1,56 @@
+import React from 'react';
+import { percentOf } from '../../lib/analytics';
+import { formatCurrency } from '../../lib/format';
+
+interface Segment {
+  label: string;
+  leadCount: number;
+  pipelineValue: number;
+  closedValue: number;
+}
+
+interface SegmentChartProps {
+  segments: Segment[];
+}
+
+export const SegmentChart: React.FC<SegmentChartProps> = ({ segments }) => {
+  const maxValue = Math.max(...segments.map(s => s.pipelineValue + s.closedValue), 0);
+
+  return (
+    <div className="space-y-4">
+      {segments.map(segment => (
+        <div key={segment.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-700">
+              {segment.label} <span className="text-gray-400 font-normal">({segment.leadCount})</span>
+            </span>
+            <span className="text-gray-600">{formatCurrency(segment.pipelineValue + segment.closedValue)}</span>
+          </div>
+          <div className="flex h-4 bg-gray-100 rounded-md overflow-hidden">
+            <div
+              className="h-full bg-green-500"
+              style={{ width: `${percentOf(segment.closedValue, maxValue)}%` }}
+              title={`Closed: ${formatCurrency(segment.closedValue)}`}
+            />
+            <div
+              className="h-full bg-blue-400"
+              style={{ width: `${percentOf(segment.pipelineValue, maxValue)}%` }}
+              title={`Pipeline: ${formatCurrency(segment.pipelineValue)}`}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-4 text-xs text-gray-500 pt-2">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-green-500"></span>
+          <span>Closed</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-blue-400"></span>
+          <span>Open pipeline</span>
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { percentOf } from '../../lib/analytics';
+import { TerritoryReportRow } from '../../lib/territories';
+import { formatCurrency } from '../../lib/format';
+import { useTerritories, getTerritoryName } from '../../hooks/useTerritories';
+
+interface TerritoryTableProps {
+  rows: TerritoryReportRow[];
+}
+
+export const TerritoryTable: React.FC<TerritoryTableProps> = ({ rows }) => {
+  const territories = useTerritories();
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">No leads created in this range.</p>;
+  }
+
+  // Largest territories first, leads outside every territory last
+  const sorted = [...rows].sort((a, b) =>
+    Number(a.territory_id === null) - Number(b.territory_id === null) || b.lead_count - a.lead_count
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+          <tr>
+            <th className="py-2 text-left">Territory</th>
+            <th className="py-2 text-right">Leads</th>
+            <th className="py-2 text-right">Open</th>
+            <th className="py-2 text-right">Closed</th>
+            <th className="py-2 text-right">Sealed</th>
+            <th className="py-2 text-right">Close Rate</th>
+            <th className="py-2 text-right">Pipeline</th>
+            <th className="py-2 text-right">Closed Value</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {sorted.map(row => (
+            <tr key={row.territory_id ?? 'none'}>
+              <td className={`py-2 ${row.territory_id ? 'text-gray-900' : 'text-gray-500 italic'}`}>
+                {getTerritoryName(territories, row.territory_id)}
+              </td>
+              <td className="py-2 text-right text-gray-700">{row.lead_count}</td>
+              <td className="py-2 text-right text-gray-700">{row.open_leads}</td>
+              <td className="py-2 text-right text-gray-700">{row.closed_leads}</td>
+              <td className="py-2 text-right text-gray-700">{row.sealed_leads}</td>
+              <td className="py-2 text-right text-gray-700">{percentOf(row.closed_leads, row.lead_count)}%</td>
+              <td className="py-2 text-right text-gray-700">{formatCurrency(row.pipeline_value)}</td>
+              <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(row.closed_value)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { TopItem } from '../../lib/analytics';
+import { formatCurrency } from '../../lib/format';
+
+interface TopItemsTableProps {
+  items: TopItem[];
+}
+
+export const TopItemsTable: React.FC<TopItemsTableProps> = ({ items }) => {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">None on leads created in this range.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+        <tr>
+          <th className="py-2 text-left">Name</th>
+          <th className="py-2 text-right">Leads</th>
+          <th className="py-2 text-right">Qty</th>
+          <th className="py-2 text-right">Value</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {items.map(item => (
+          <tr key={item.name}>
+            <td className="py-2 text-gray-900">{item.name}</td>
+            <td className="py-2 text-right text-gray-700">{item.lead_count}</td>
+            <td className="py-2 text-right text-gray-700">{item.quantity}</td>
+            <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(item.value)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { AnalyticsPeriod, TrendPoint, percentOf } from '../../lib/analytics';
+import { parseISODate } from '../../lib/dates';
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  period: AnalyticsPeriod;
+}
+
+const formatPeriod = (periodStart: string, period: AnalyticsPeriod) =>
+  parseISODate(periodStart).toLocaleDateString('en-US', period === 'week'
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', year: '2-digit' });
+
+export const TrendChart: React.FC<TrendChartProps> = ({ points, period }) => {
+  const maxCount = Math.max(...points.map(p => Math.max(p.created, p.closed)), 0);
+
+  if (maxCount === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">No leads were created or closed in this range.</p>;
+  }
+
+  // Label every bar when there are few, otherwise thin the axis out
+  const labelEvery = Math.ceil(points.length / 12);
+
+  return (
+    <div>
+      <div className="flex items-end h-48 gap-1 border-b border-gray-200">
+        {points.map(point => (
+          <div
+            key={point.period_start}
+            className="flex-1 flex items-end justify-center gap-px h-full"
+            title={`${formatPeriod(point.period_start, period)}: ${point.created} created, ${point.closed} closed`}
+          >
+            <div className="w-1/2 bg-blue-500 rounded-t-sm" style={{ height: `${percentOf(point.created, maxCount)}%` }} />
+            <div className="w-1/2 bg-green-500 rounded-t-sm" style={{ height: `${percentOf(point.closed, maxCount)}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {points.map((point, index) => (
+          <span key={point.period_start} className="flex-1 text-center text-xs text-gray-500 truncate">
+            {index % labelEvery === 0 ? formatPeriod(point.period_start, period) : ''}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-500 pt-4">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-blue-500"></span>
+          <span>Created</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-green-500"></span>
+          <span>Closed</span>
+        </span>
+        <span className="ml-auto">Peak {maxCount}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { clearAuthLinkError, readAuthLinkError } from '../../lib/authLinks';
+import { KeyRound, Mail, Send } from 'lucide-react';
+
+interface ForgotPasswordFormProps {
+  onBackToLogin: () => void;
+}
+
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBackToLogin }) => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(readAuthLinkError);
+  const [sent, setSent] = useState(false);
+  const { sendPasswordReset } = useAuth();
+
+  useEffect(() => {
+    clearAuthLinkError();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      await sendPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      console.error('Error sending password reset:', err);
+      setError(err instanceof Error ? err.message : 'Could not send the reset email. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="bg-blue-600 p-3 rounded-full">
+              <KeyRound className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">Reset Password</h2>
+          <p className="mt-2 text-gray-600">We'll email you a link to choose a new one</p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div className="bg-white p-8 rounded-xl shadow-lg space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            {sent ? (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+                If an account exists for {email}, a password reset link is on its way.
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                    Email Address
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+                    <input
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Enter your email"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 transition-colors"
+                >
+                  {loading ? (
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  ) : (
+                    <>
+                      <Send className="w-5 h-5" />
+                      <span>Send Reset Link</span>
+                    </>
+                  )}
+                </button>
+              </>
+            )}
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={onBackToLogin}
+                className="text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
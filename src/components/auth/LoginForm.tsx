@@ -1,27 +1,66 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { isAuthError } from '@supabase/supabase-js';
 import { useAuth } from '../../contexts/AuthContext';
-import { LogIn, User, Lock, Mail } from 'lucide-react';
+import { clearAuthLinkError, readAuthLinkError } from '../../lib/authLinks';
+import { LogIn, User, Lock, Mail, Send } from 'lucide-react';
 
 interface LoginFormProps {
   onToggleMode: () => void;
+  onForgotPassword: () => void;
 }
 
-export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
+export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, onForgotPassword }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const { signIn } = useAuth();
+  const [error, setError] = useState(readAuthLinkError);
+  const [notice, setNotice] = useState('');
+  const [unverified, setUnverified] = useState(false);
+  const { signIn, sendMagicLink, resendVerification } = useAuth();
+
+  // The error has been read into state by now
+  useEffect(() => {
+    clearAuthLinkError();
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
+    setNotice('');
+    setUnverified(false);
 
     try {
       await signIn(email, password);
     } catch (err) {
-      setError('Invalid email or password');
+      if (isAuthError(err) && err.code === 'email_not_confirmed') {
+        setUnverified(true);
+        setError('Please verify your email address before signing in.');
+      } else {
+        setError('Invalid email or password');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Each sends an email; the result is reported in place of the form error
+  const sendEmail = async (send: (email: string) => Promise<void>, sentMessage: string) => {
+    if (!email) {
+      setError('Enter your email address first.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setNotice('');
+    try {
+      await send(email);
+      setNotice(sentMessage);
+      setUnverified(false);
+    } catch (err) {
+      console.error('Error sending sign-in email:', err);
+      setError(err instanceof Error ? err.message : 'Could not send the email. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -45,6 +84,21 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
                 {error}
+                {unverified && (
+                  <button
+                    type="button"
+                    onClick={() => sendEmail(resendVerification, `We've sent a new verification link to ${email}.`)}
+                    className="block mt-1 font-medium underline"
+                  >
+                    Resend verification email
+                  </button>
+                )}
+              </div>
+            )}
+
+            {notice && (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+                {notice}
               </div>
             )}
 
@@ -67,9 +121,18 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <button
+                  type="button"
+                  onClick={onForgotPassword}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  Forgot password?
+                </button>
+              </div>
               <div className="relative">
                 <Lock className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
                 <input
@@ -99,6 +162,16 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
               )}
             </button>
 
+            <button
+              type="button"
+              disabled={loading}
+              onClick={() => sendEmail(sendMagicLink, `Check ${email} for a link to sign in.`)}
+              className="w-full border border-gray-300 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 transition-colors"
+            >
+              <Send className="w-5 h-5" />
+              <span>Email Me a Sign-in Link</span>
+            </button>
+
             <div className="text-center">
               <p className="text-gray-600">
                 Don't have an account?{' '}
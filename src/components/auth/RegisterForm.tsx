@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { UserPlus, User, Lock, Mail } from 'lucide-react';
+import { UserPlus, User, Lock, Mail, MailCheck } from 'lucide-react';
 
 interface RegisterFormProps {
   onToggleMode: () => void;
@@ -12,7 +12,10 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({ onToggleMode }) => {
   const [fullName, setFullName] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const { signUp } = useAuth();
+  // Sign-up succeeded but the account has to be verified from the emailed link first
+  const [verifying, setVerifying] = useState(false);
+  const [resent, setResent] = useState(false);
+  const { signUp, resendVerification } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,14 +23,71 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({ onToggleMode }) => {
     setError('');
 
     try {
-      await signUp(email, password, fullName);
-    } catch (err: any) {
-      setError(err.message || 'An error occurred during registration');
+      setVerifying(await signUp(email, password, fullName));
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'An error occurred during registration');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleResend = async () => {
+    setError('');
+    try {
+      await resendVerification(email);
+      setResent(true);
+    } catch (err) {
+      console.error('Error resending verification email:', err);
+      setError(err instanceof Error ? err.message : 'Could not resend the email. Please try again.');
+    }
+  };
+
+  if (verifying) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white p-8 rounded-xl shadow-lg space-y-6 text-center">
+          <div className="flex justify-center">
+            <div className="bg-blue-600 p-3 rounded-full">
+              <MailCheck className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Check Your Email</h2>
+          <p className="text-gray-600">
+            We've sent a verification link to <span className="font-medium text-gray-900">{email}</span>. Open it to
+            activate your account.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-left">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={handleResend}
+              disabled={resent}
+              className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400"
+            >
+              {resent ? 'Verification email sent again' : 'Resend verification email'}
+            </button>
+            <p className="text-gray-600">
+              Already verified?{' '}
+              <button
+                type="button"
+                onClick={onToggleMode}
+                className="text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Sign in
+              </button>
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
       <div className="max-w-md w-full space-y-8">
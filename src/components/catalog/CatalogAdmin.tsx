@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, Product, Service } from '../../lib/supabase';
+import { formatCurrency } from '../../lib/format';
+import { Plus, Edit, ArrowUp, ArrowDown, Eye, EyeOff, Package } from 'lucide-react';
+import { CatalogItemForm } from './CatalogItemForm';
+import { QuotationSettingsForm } from '../quotations/QuotationSettingsForm';
+
+type CatalogTable = 'products' | 'services';
+
+export const CatalogAdmin: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [activeTab, setActiveTab] = useState<CatalogTable>('products');
+  const [items, setItems] = useState<(Product | Service)[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingItem, setEditingItem] = useState<Product | Service | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from(activeTab)
+        .select('*')
+        .order('sort_order')
+        .order('name');
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error(`Error fetching ${activeTab}:`, error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchItems();
+  }, [fetchItems]);
+
+  const handleToggleActive = async (item: Product | Service) => {
+    try {
+      const { error } = await supabase
+        .from(activeTab)
+        .update({ is_active: !item.is_active })
+        .eq('id', item.id);
+
+      if (error) throw error;
+      fetchItems();
+    } catch (error) {
+      console.error(`Error updating ${activeTab}:`, error);
+    }
+  };
+
+  // Swap positions with the neighbour, renumbering so duplicate sort orders don't stall the move
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
+
+    try {
+      const updates = reordered
+        .map((item, position) => ({ item, sort_order: position + 1 }))
+        .filter(({ item, sort_order }) => item.sort_order !== sort_order);
+
+      for (const { item, sort_order } of updates) {
+        const { error } = await supabase
+          .from(activeTab)
+          .update({ sort_order })
+          .eq('id', item.id);
+
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error(`Error reordering ${activeTab}:`, error);
+    } finally {
+      fetchItems();
+    }
+  };
+
+  const handleSaved = () => {
+    setShowForm(false);
+    setEditingItem(null);
+    fetchItems();
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Admins only</h3>
+          <p className="text-gray-500">You don't have permission to manage the catalog.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const label = activeTab === 'products' ? 'Product' : 'Service';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          <button
+            type="button"
+            onClick={() => setActiveTab('products')}
+            className={`py-2 px-6 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'products'
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Products
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('services')}
+            className={`py-2 px-6 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'services'
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Services
+          </button>
+        </div>
+
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add {label}</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <div className="text-gray-400 mb-4">
+            <Package className="w-12 h-12 mx-auto" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No {activeTab} yet</h3>
+          <p className="text-gray-500">Add the first {label.toLowerCase()} to the catalog.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="divide-y divide-gray-200">
+            {items.map((item, index) => (
+              <div
+                key={item.id}
+                className={`px-4 py-4 md:px-8 flex items-center gap-4 ${item.is_active ? '' : 'bg-gray-50'}`}
+              >
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === items.length - 1}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className={`font-medium ${item.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {item.name}
+                    {!item.is_active && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-600">Inactive</span>
+                    )}
+                  </p>
+                  {item.description && (
+                    <p className="text-sm text-gray-500 truncate">{item.description}</p>
+                  )}
+                </div>
+
+                <p className="text-sm font-medium text-gray-900 w-28 text-right">{formatCurrency(item.price)}</p>
+
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleToggleActive(item)}
+                    title={item.is_active ? 'Deactivate' : 'Activate'}
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    {item.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => setEditingItem(item)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8">
+        <QuotationSettingsForm />
+      </div>
+
+      {(showForm || editingItem) && (
+        <CatalogItemForm
+          table={activeTab}
+          item={editingItem || undefined}
+          nextSortOrder={items.reduce((max, item) => Math.max(max, item.sort_order), 0) + 1}
+          onClose={() => {
+            setShowForm(false);
+            setEditingItem(null);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { supabase, Product, Service } from '../../lib/supabase';
+import { X } from 'lucide-react';
+
+interface CatalogItemFormProps {
+  table: 'products' | 'services';
+  item?: Product | Service;
+  nextSortOrder: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const CatalogItemForm: React.FC<CatalogItemFormProps> = ({ table, item, nextSortOrder, onClose, onSaved }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    name: item?.name || '',
+    description: item?.description || '',
+    price: item?.price || 0,
+    is_active: item?.is_active ?? true,
+  });
+
+  const label = table === 'products' ? 'Product' : 'Service';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const payload = {
+        ...formData,
+        description: formData.description || null,
+      };
+
+      const { error } = item
+        ? await supabase.from(table).update(payload).eq('id', item.id)
+        : await supabase.from(table).insert([{ ...payload, sort_order: nextSortOrder }]);
+
+      if (error) throw error;
+      onSaved();
+    } catch (err) {
+      console.error(`Error saving ${table}:`, err);
+      setError(err instanceof Error ? err.message : `Could not save ${label.toLowerCase()}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">
+            {item ? `Edit ${label}` : `Add ${label}`}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Name
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={`Enter ${label.toLowerCase()} name`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              rows={3}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Enter description"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Price (INR)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              required
+              value={formData.price}
+              onChange={(e) => setFormData(prev => ({ ...prev, price: parseFloat(e.target.value) || 0 }))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {item && (
+              <p className="text-xs text-gray-500 mt-1">
+                Price changes apply to new quotes only. Existing leads keep the price they were quoted.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="is_active"
+              checked={formData.is_active}
+              onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label htmlFor="is_active" className="ml-2 block text-sm font-medium text-gray-700">
+              Active (available in the lead form)
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Saving...' : (item ? `Update ${label}` : `Create ${label}`)}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { BulkAction } from './BulkActionModal';
+import { CircleDot, Calendar, UserCheck, Tag, Download, Trash2 } from 'lucide-react';
+
+interface BulkActionBarProps {
+  count: number;
+  // Every lead matching the filters is selected, not just the ones ticked
+  allMatching: boolean;
+  matchingCount: number;
+  canSelectAllMatching: boolean;
+  canReassign: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onAction: (action: BulkAction) => void;
+  onExport: () => void;
+}
+
+const buttonClass =
+  'px-3 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-1';
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  allMatching,
+  matchingCount,
+  canSelectAllMatching,
+  canReassign,
+  onSelectAllMatching,
+  onClear,
+  onAction,
+  onExport,
+}) => (
+  <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 mb-4 flex flex-col lg:flex-row lg:items-center gap-3">
+    <div className="flex-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-blue-900">
+      <span className="font-medium">
+        {allMatching ? `All ${count} leads matching the filters are selected` : `${count} selected`}
+      </span>
+      {!allMatching && canSelectAllMatching && (
+        <button onClick={onSelectAllMatching} className="text-blue-700 hover:text-blue-900 underline">
+          Select all {matchingCount} matching leads
+        </button>
+      )}
+      <button onClick={onClear} className="text-blue-700 hover:text-blue-900 underline">
+        Clear selection
+      </button>
+    </div>
+
+    <div className="flex flex-wrap gap-2">
+      <button onClick={() => onAction('status')} className={buttonClass}>
+        <CircleDot className="w-4 h-4" />
+        <span>Status</span>
+      </button>
+      <button onClick={() => onAction('follow_up')} className={buttonClass}>
+        <Calendar className="w-4 h-4" />
+        <span>Follow-up</span>
+      </button>
+      {canReassign && (
+        <button onClick={() => onAction('reassign')} className={buttonClass}>
+          <UserCheck className="w-4 h-4" />
+          <span>Reassign</span>
+        </button>
+      )}
+      <button onClick={() => onAction('tags')} className={buttonClass}>
+        <Tag className="w-4 h-4" />
+        <span>Add Tags</span>
+      </button>
+      <button onClick={onExport} className={buttonClass}>
+        <Download className="w-4 h-4" />
+        <span>Export</span>
+      </button>
+      <button
+        onClick={() => onAction('delete')}
+        className="px-3 py-2 text-sm bg-white border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors flex items-center space-x-1"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>Delete</span>
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { supabase, Lead, Profile } from '../../lib/supabase';
+import { BulkResult, bulkAddTags, bulkDeleteLeads, bulkUpdateLeads } from '../../lib/bulkActions';
+import { LEAD_STATUSES } from '../../lib/constants';
+import { parseTags } from '../../lib/normalize';
+import { todayISO } from '../../lib/dates';
+import { X, CheckCircle, AlertCircle } from 'lucide-react';
+
+export type BulkAction = 'status' | 'follow_up' | 'reassign' | 'tags' | 'delete';
+
+interface BulkActionModalProps {
+  action: BulkAction;
+  count: number;
+  members: Profile[];
+  // Resolved when the action runs, so "all matching" picks up leads added since selecting
+  getLeadIds: () => Promise<string[]>;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+const TITLES: Record<BulkAction, string> = {
+  status: 'Change Status',
+  follow_up: 'Set Follow-up',
+  reassign: 'Reassign Owner',
+  tags: 'Add Tags',
+  delete: 'Delete Leads',
+};
+
+const VERBS: Record<BulkAction, string> = {
+  status: 'updated',
+  follow_up: 'updated',
+  reassign: 'reassigned',
+  tags: 'tagged',
+  delete: 'deleted',
+};
+
+interface FailedLead {
+  name: string;
+  reason: string;
+}
+
+export const BulkActionModal: React.FC<BulkActionModalProps> = ({ action, count, members, getLeadIds, onClose, onDone }) => {
+  const [status, setStatus] = useState<Lead['status']>('In-Progress');
+  const [followUpMode, setFollowUpMode] = useState<'set' | 'clear'>('set');
+  const [followUpDate, setFollowUpDate] = useState(todayISO());
+  const [assignee, setAssignee] = useState(members[0]?.user_id || '');
+  const [tagsText, setTagsText] = useState('');
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BulkResult | null>(null);
+  const [failedLeads, setFailedLeads] = useState<FailedLead[]>([]);
+  const [error, setError] = useState('');
+
+  const tags = parseTags(tagsText);
+  const ready = action === 'tags' ? tags.length > 0
+    : action === 'follow_up' ? followUpMode === 'clear' || !!followUpDate
+    : action === 'reassign' ? !!assignee
+    : true;
+
+  const run = (ids: string[]) => {
+    switch (action) {
+      case 'status':
+        return bulkUpdateLeads(ids, { status });
+      case 'follow_up':
+        return bulkUpdateLeads(ids, followUpMode === 'set'
+          ? { follow_up: true, follow_up_date: followUpDate }
+          : { follow_up: false, follow_up_date: null, follow_up_notes: null });
+      case 'reassign':
+        return bulkUpdateLeads(ids, { assigned_to: assignee });
+      case 'tags':
+        return bulkAddTags(ids, tags);
+      default:
+        return bulkDeleteLeads(ids);
+    }
+  };
+
+  // Failures are listed by name; leads the user can't read fall back to their id
+  const describeFailures = async (failed: BulkResult['failed']) => {
+    const { data } = await supabase
+      .from('leads')
+      .select('id, full_name')
+      .in('id', failed.slice(0, 100).map(f => f.id));
+
+    return failed.map(f => ({
+      name: data?.find(lead => lead.id === f.id)?.full_name || f.id,
+      reason: f.reason,
+    }));
+  };
+
+  const handleConfirm = async () => {
+    setRunning(true);
+    setError('');
+    try {
+      const outcome = await run(await getLeadIds());
+      if (outcome.failed.length > 0) setFailedLeads(await describeFailures(outcome.failed));
+      setResult(outcome);
+    } catch (err) {
+      console.error('Error running bulk action:', err);
+      setError('Could not apply the change. Please try again.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (result) onDone();
+    else onClose();
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{TITLES[action]}</h2>
+            <p className="text-sm text-gray-500 mt-1">{count} selected leads</p>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={running}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {result ? (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-3">
+                <CheckCircle className="w-6 h-6 text-green-600" />
+                <p className="text-gray-900">{result.succeeded.length} leads {VERBS[action]}.</p>
+              </div>
+              {failedLeads.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-3">
+                    <AlertCircle className="w-6 h-6 text-red-600" />
+                    <p className="text-gray-900">{failedLeads.length} leads could not be {VERBS[action]}:</p>
+                  </div>
+                  <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto text-sm">
+                    {failedLeads.map((failure, index) => (
+                      <li key={index} className="px-4 py-2">
+                        <p className="font-medium text-gray-900">{failure.name}</p>
+                        <p className="text-red-600">{failure.reason}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ) : (
+            <>
+              {action === 'status' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">New status</label>
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as Lead['status'])}
+                    className={inputClass}
+                  >
+                    {LEAD_STATUSES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {action === 'follow_up' && (
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-6">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={followUpMode === 'set'}
+                        onChange={() => setFollowUpMode('set')}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <span>Set a follow-up date</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={followUpMode === 'clear'}
+                        onChange={() => setFollowUpMode('clear')}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <span>Clear follow-ups</span>
+                    </label>
+                  </div>
+                  {followUpMode === 'set' && (
+                    <input
+                      type="date"
+                      value={followUpDate}
+                      onChange={(e) => setFollowUpDate(e.target.value)}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              )}
+
+              {action === 'reassign' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">New owner</label>
+                  <select
+                    value={assignee}
+                    onChange={(e) => setAssignee(e.target.value)}
+                    className={inputClass}
+                  >
+                    {members.map(member => (
+                      <option key={member.user_id} value={member.user_id}>
+                        {member.full_name || member.email}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {action === 'tags' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Tags</label>
+                  <input
+                    type="text"
+                    value={tagsText}
+                    onChange={(e) => setTagsText(e.target.value)}
+                    placeholder="e.g. Expo 2025, Follow up in person"
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Separate tags with commas. Existing tags are kept.</p>
+                </div>
+              )}
+
+              {action === 'delete' && (
+                <p className="text-gray-700">
+                  Delete {count} leads along with their products, services, notes and history? This cannot be undone.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          {result ? (
+            <button
+              onClick={handleClose}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={running}
+                className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={!ready || running}
+                className={`px-6 py-3 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                  action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {running ? 'Working...' : action === 'delete' ? `Delete ${count} Leads` : `Apply to ${count} Leads`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
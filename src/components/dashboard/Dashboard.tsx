@@ -1,83 +1,356 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Outlet, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase, Lead } from '../../lib/supabase';
+import { Lead } from '../../lib/supabase';
+import {
+  BoardTotals,
+  DEFAULT_SORT,
+  LeadFilters,
+  LeadSort,
+  LeadSortColumn,
+  LeadStats,
+  PAGE_SIZE,
+  fetchAllLeadIds,
+  fetchBoardTotals,
+  fetchLeadPage,
+  fetchLeadStats,
+  fetchLeadsByIds,
+  filterLeadsLocally,
+} from '../../lib/leadQuery';
 import { StatCard } from './StatCard';
 import { LeadsList } from './LeadsList';
+import { LeadsBoard } from './LeadsBoard';
 import { LeadForm } from '../forms/LeadForm';
-import { Users, Plus, TrendingUp, DollarSign, Search, Filter } from 'lucide-react';
+import { ImportWizard } from '../import/ImportWizard';
+import { ExportDialog } from '../export/ExportDialog';
+import { useTeamMembers } from '../../hooks/useTeamMembers';
+import { useTerritories } from '../../hooks/useTerritories';
+import { NO_TERRITORY } from '../../lib/territories';
+import { SavedViewParams, viewParamChanges, viewParamsFrom } from '../../lib/savedViews';
+import { SavedViewTabs } from './SavedViewTabs';
+import { BulkActionBar } from './BulkActionBar';
+import { BulkAction, BulkActionModal } from './BulkActionModal';
+import { localBoardTotals, localLeadStats, queryLocalLeads, withLocalFallback } from '../../lib/offline';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { useLeadChanges } from '../../hooks/useLeadChanges';
+import { LeadChange } from '../../lib/realtime';
+import { Users, Plus, TrendingUp, DollarSign, Search, List, Columns, Upload, Download, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// The board shows every status at once, so it loads a single larger page of cards instead of paginating;
+// column counts and amounts come from the server and cover every matching lead
+const BOARD_LIMIT = 200;
+const HIGHLIGHT_DURATION = 3000;
+const REFETCH_DELAY = 1000;
+
+
+const loadBoardTotals = (filters: LeadFilters) =>
+  withLocalFallback(() => fetchBoardTotals(filters), () => localBoardTotals(filters));
+
+const SORT_COLUMNS: LeadSortColumn[] = ['lead_score', 'potential_amount', 'created_at', 'follow_up_date'];
+
+export interface DashboardOutletContext {
+  refresh: () => void;
+}
 
 export const Dashboard: React.FC = () => {
-  const { user } = useAuth();
+  const { user, canReassign } = useAuth();
+  const members = useTeamMembers();
+  const territories = useTerritories();
+  const lastSyncedAt = useSyncStatus()?.lastSyncedAt;
   const [leads, setLeads] = useState<Lead[]>([]);
+  const [leadCount, setLeadCount] = useState(0);
+  const [boardTotals, setBoardTotals] = useState<BoardTotals>({});
   const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
   const [showForm, setShowForm] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState('');
-  const [filterLeadType, setFilterLeadType] = useState('');
-  const [filterModelType, setFilterModelType] = useState('');
-  const [stats, setStats] = useState({
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [exportIds, setExportIds] = useState<string[] | null>(null);
+  // Rows a realtime change just touched, highlighted briefly
+  const [changedIds, setChangedIds] = useState<Set<string>>(new Set());
+  // Bumped when a remote change can't be patched in place and the page has to be refetched
+  const [remoteVersion, setRemoteVersion] = useState(0);
+  const refetchTimer = useRef<ReturnType<typeof setTimeout>>();
+  const statsTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('q') || '');
+  const latestRequest = useRef(0);
+  const [stats, setStats] = useState<LeadStats>({
     total: 0,
     new: 0,
-    contacted: 0,
+    inProgress: 0,
     closed: 0,
   });
 
+  // Filters, sort, page and view live in the query string so the list can be linked and restored
+  const search = searchParams.get('q') || '';
+  const filterStatus = searchParams.get('status') || '';
+  const filterLeadType = searchParams.get('type') || '';
+  const filterModelType = searchParams.get('model') || '';
+  const filterOwner = searchParams.get('owner') || '';
+  const filterTerritory = searchParams.get('territory') || '';
+  const view = searchParams.get('view') === 'board' ? 'board' : 'list';
+  const page = Math.max(parseInt(searchParams.get('page') || '1') - 1, 0) || 0;
+  const sortParam = searchParams.get('sort') as LeadSortColumn | null;
+  const sortColumn = sortParam && SORT_COLUMNS.includes(sortParam) ? sortParam : DEFAULT_SORT.column;
+  const sortDirection = searchParams.get('dir');
+  const sortAscending = sortDirection ? sortDirection === 'asc' : DEFAULT_SORT.ascending;
+
+  const sort = React.useMemo<LeadSort>(
+    () => ({ column: sortColumn, ascending: sortAscending }),
+    [sortColumn, sortAscending]
+  );
+
+  // Empty values are dropped; any change other than paging starts again from the first page
+  const updateParams = useCallback((changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const viewParams = React.useMemo(() => viewParamsFrom(searchParams), [searchParams]);
+
+  const applyView = useCallback(
+    (params: SavedViewParams) => updateParams(viewParamChanges(params)),
+    [updateParams]
+  );
+
+  const setPage = (nextPage: number) => updateParams({ page: nextPage > 0 ? String(nextPage + 1) : '' });
+
+  const setSort = (nextSort: LeadSort) => updateParams({
+    sort: nextSort.column === DEFAULT_SORT.column ? '' : nextSort.column,
+    dir: nextSort.ascending === DEFAULT_SORT.ascending ? '' : (nextSort.ascending ? 'asc' : 'desc'),
+  });
+
+  // Only query once typing pauses
   useEffect(() => {
-    fetchLeads();
-  }, [user]);
+    if (searchTerm === search) return;
+    const timer = setTimeout(() => updateParams({ q: searchTerm }), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, search, updateParams]);
+
+  // Back/forward navigation changes the query string under the input
+  useEffect(() => {
+    setSearchTerm(search);
+  }, [search]);
+
+  const filters = React.useMemo<LeadFilters>(() => ({
+    search,
+    status: filterStatus,
+    leadType: filterLeadType,
+    modelType: filterModelType,
+    ownerId: filterOwner === 'me' ? user?.id || '' : filterOwner,
+    territoryId: filterTerritory,
+  }), [search, filterStatus, filterLeadType, filterModelType, filterOwner, filterTerritory, user]);
 
-  const fetchLeads = async () => {
+  // A selection only makes sense for the filters it was made under
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  }, [filters]);
+
+  const fetchLeads = useCallback(async () => {
     if (!user) return;
 
+    const requestId = ++latestRequest.current;
+    setFetching(true);
     try {
-      const { data, error } = await supabase
-        .from('leads')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('lead_score', { ascending: false });
-
-      if (error) throw error;
-
-      setLeads(data || []);
-      
-      // Calculate stats
-      const total = data?.length || 0;
-      const newLeads = data?.filter(lead => lead.status === 'New').length || 0;
-      const inProgress = data?.filter(lead => lead.status === 'In-Progress').length || 0;
-      const closed = data?.filter(lead => lead.status === 'Closed').length || 0;
-
-      setStats({ total, new: newLeads, contacted: inProgress, closed });
+      const [pageIndex, pageSize] = view === 'board' ? [0, BOARD_LIMIT] : [page, PAGE_SIZE];
+      // Loaded together so the board's totals and cards always agree
+      const [{ leads, count }, totals] = await Promise.all([
+        withLocalFallback(
+          () => fetchLeadPage(filters, sort, pageIndex, pageSize),
+          () => queryLocalLeads(filters, sort, pageIndex, pageSize)
+        ),
+        view === 'board' ? loadBoardTotals(filters) : null,
+      ]);
+
+      // A newer query was started while this one was in flight
+      if (requestId !== latestRequest.current) return;
+      setLeads(leads);
+      setLeadCount(count);
+      if (totals) setBoardTotals(totals);
     } catch (error) {
       console.error('Error fetching leads:', error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setFetching(false);
+        setLoading(false);
+      }
+    }
+  }, [user, filters, sort, page, view]);
+
+  const fetchStats = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setStats(await withLocalFallback(fetchLeadStats, localLeadStats));
+    } catch (error) {
+      console.error('Error fetching lead stats:', error);
     }
+  }, [user]);
+
+  // Remote changes patched into the board still move its totals
+  const refreshBoardTotals = useCallback(async () => {
+    if (!user || view !== 'board') return;
+
+    try {
+      setBoardTotals(await loadBoardTotals(filters));
+    } catch (error) {
+      console.error('Error fetching board totals:', error);
+    }
+  }, [user, filters, view]);
+
+  // Refetched after each sync so changes made offline show their saved state
+  useEffect(() => {
+    fetchLeads();
+  }, [fetchLeads, lastSyncedAt, remoteVersion]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats, lastSyncedAt, remoteVersion]);
+
+  useEffect(() => () => {
+    clearTimeout(refetchTimer.current);
+    clearTimeout(statsTimer.current);
+  }, []);
+
+  // Bursts of changes, such as an import, collapse into a single refetch
+  const refetchSoon = () => {
+    clearTimeout(refetchTimer.current);
+    refetchTimer.current = setTimeout(() => setRemoteVersion(version => version + 1), REFETCH_DELAY);
+  };
+
+  // Counts are cheap to fetch and would drift if patched alongside our own refreshes
+  const refetchStatsSoon = () => {
+    clearTimeout(statsTimer.current);
+    statsTimer.current = setTimeout(() => {
+      fetchStats();
+      refreshBoardTotals();
+    }, REFETCH_DELAY);
+  };
+
+  const highlight = (id: string) => {
+    setChangedIds(prev => new Set(prev).add(id));
+    setTimeout(() => setChangedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    }), HIGHLIGHT_DURATION);
+  };
+
+  /*
+    Changes from teammates, imports and bulk actions are patched into the page when the rows they touch are
+    already showing. Anything else could move rows between pages or change counts we can't work out
+    locally, so the page is refetched instead.
+  */
+  const handleRemoteChange = async (change: LeadChange) => {
+    const pageSize = view === 'board' ? BOARD_LIMIT : PAGE_SIZE;
+    const changedId = 'lead' in change ? change.lead.id : change.leadId;
+    const previous = leads.find(lead => lead.id === changedId);
+
+    if (change.table !== 'leads') {
+      // A removed line item we can't place may belong to any lead on the page
+      if (!change.leadId) {
+        refetchSoon();
+        return;
+      }
+      if (!previous) return;
+      try {
+        const [lead] = await fetchLeadsByIds([previous.id], sort);
+        if (lead) setLeads(prev => prev.map(existing => (existing.id === lead.id ? lead : existing)));
+        highlight(previous.id);
+      } catch (error) {
+        console.error('Error fetching changed lead:', error);
+      }
+      return;
+    }
+
+    refetchStatsSoon();
+
+    if (change.type === 'DELETE') {
+      if (!previous) {
+        refetchSoon();
+        return;
+      }
+      setLeads(prev => prev.filter(lead => lead.id !== change.leadId));
+      setLeadCount(count => count - 1);
+      return;
+    }
+
+    const { lead } = change;
+    const matches = filterLeadsLocally([lead], filters, sort).length > 0;
+
+    if (previous) {
+      if (matches) {
+        setLeads(prev => filterLeadsLocally(prev.map(existing => (existing.id === lead.id ? lead : existing)), filters, sort));
+      } else {
+        setLeads(prev => prev.filter(existing => existing.id !== lead.id));
+        setLeadCount(count => count - 1);
+      }
+    } else if (matches && change.type === 'INSERT' && (view === 'board' || page === 0)) {
+      // Falls off the end when it sorts after a full page
+      setLeads(prev => filterLeadsLocally([...prev, lead], filters, sort).slice(0, pageSize));
+      setLeadCount(count => count + 1);
+    } else if (matches) {
+      refetchSoon();
+    }
+
+    if (matches) highlight(lead.id);
+  };
+
+  useLeadChanges(handleRemoteChange, () => setRemoteVersion(version => version + 1));
+
+  const refresh = () => {
+    fetchLeads();
+    fetchStats();
   };
 
   const handleLeadCreated = () => {
     setShowForm(false);
-    fetchLeads();
+    refresh();
   };
 
   const handleLeadUpdated = () => {
-    fetchLeads();
+    refresh();
   };
 
   const handleLeadDeleted = () => {
-    fetchLeads();
+    refresh();
+  };
+
+  const handleSelectionChange = (ids: Set<string>) => {
+    setSelectedIds(ids);
+    setAllMatching(false);
   };
 
-  const filteredLeads = leads.filter(lead => {
-    const matchesSearch = lead.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (lead.company && lead.company.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    const matchesStatus = !filterStatus || lead.status === filterStatus;
-    const matchesLeadType = !filterLeadType || lead.lead_type === filterLeadType;
-    const matchesModelType = !filterModelType || lead.model_type === filterModelType;
+  const clearSelection = () => handleSelectionChange(new Set());
 
-    return matchesSearch && matchesStatus && matchesLeadType && matchesModelType;
-  });
+  const selectedCount = allMatching ? leadCount : selectedIds.size;
+
+  const getSelectedLeadIds = () => (allMatching ? fetchAllLeadIds(filters) : Promise.resolve([...selectedIds]));
+
+  const handleBulkExport = () => {
+    if (allMatching) setShowExport(true);
+    else setExportIds([...selectedIds]);
+  };
+
+  const handleBulkDone = () => {
+    setBulkAction(null);
+    clearSelection();
+    refresh();
+  };
+
+  const pageCount = Math.max(Math.ceil(leadCount / PAGE_SIZE), 1);
 
   if (loading) {
     return (
@@ -105,7 +378,7 @@ export const Dashboard: React.FC = () => {
         />
         <StatCard
           title="In Progress"
-          value={stats.contacted}
+          value={stats.inProgress}
           icon={TrendingUp}
           color="bg-green-500"
         />
@@ -131,10 +404,10 @@ export const Dashboard: React.FC = () => {
             />
           </div>
           
-          <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
             <select
               value={filterStatus}
-              onChange={(e) => setFilterStatus(e.target.value)}
+              onChange={(e) => updateParams({ status: e.target.value })}
               className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">All Status</option>
@@ -145,7 +418,7 @@ export const Dashboard: React.FC = () => {
 
             <select
               value={filterLeadType}
-              onChange={(e) => setFilterLeadType(e.target.value)}
+              onChange={(e) => updateParams({ type: e.target.value })}
               className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">All Lead Types</option>
@@ -157,7 +430,7 @@ export const Dashboard: React.FC = () => {
 
             <select
               value={filterModelType}
-              onChange={(e) => setFilterModelType(e.target.value)}
+              onChange={(e) => updateParams({ model: e.target.value })}
               className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">All Model Types</option>
@@ -166,6 +439,78 @@ export const Dashboard: React.FC = () => {
               <option value="Individual Home-kit">Individual Home-kit</option>
             </select>
 
+            {members.length > 1 && (
+              <select
+                value={filterOwner}
+                onChange={(e) => updateParams({ owner: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Owners</option>
+                <option value="me">My Leads</option>
+                {members
+                  .filter(member => member.user_id !== user?.id)
+                  .map(member => (
+                    <option key={member.user_id} value={member.user_id}>
+                      {member.full_name || member.email}
+                    </option>
+                  ))}
+              </select>
+            )}
+
+            {territories.length > 0 && (
+              <select
+                value={filterTerritory}
+                onChange={(e) => updateParams({ territory: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Territories</option>
+                {territories.map(territory => (
+                  <option key={territory.id} value={territory.id}>{territory.name}</option>
+                ))}
+                <option value={NO_TERRITORY}>No Territory</option>
+              </select>
+            )}
+
+            <div className="flex bg-gray-100 p-1 rounded-lg">
+              <button
+                type="button"
+                onClick={() => updateParams({ view: '' })}
+                title="List view"
+                className={`px-3 rounded-md transition-colors ${
+                  view === 'list' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <List className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => updateParams({ view: 'board' })}
+                title="Board view"
+                className={`px-3 rounded-md transition-colors ${
+                  view === 'board' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <Columns className="w-5 h-5" />
+              </button>
+            </div>
+
+            <button
+              onClick={() => setShowImport(true)}
+              className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <Upload className="w-5 h-5" />
+              <span>Import</span>
+            </button>
+
+            <button
+              onClick={() => setShowExport(true)}
+              disabled={leadCount === 0}
+              className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <Download className="w-5 h-5" />
+              <span>Export</span>
+            </button>
+
             <button
               onClick={() => setShowForm(true)}
               className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
@@ -177,13 +522,90 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
-      {/* Leads List */}
-      <LeadsList
-        leads={filteredLeads}
-        onLeadUpdated={handleLeadUpdated}
-        onLeadDeleted={handleLeadDeleted}
+      {/* Saved Views */}
+      <SavedViewTabs
+        params={viewParams}
+        members={members}
+        territories={territories}
+        onApply={applyView}
       />
 
+      {/* Leads List / Pipeline Board */}
+      <div className={fetching ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+        {view === 'board' ? (
+          <>
+            {leadCount > leads.length && (
+              <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-4 text-sm">
+                Showing cards for the first {leads.length} of {leadCount} leads; column totals include them all. Narrow the
+                filters to see the rest on the board.
+              </div>
+            )}
+            <LeadsBoard
+              leads={leads}
+              totals={boardTotals}
+              members={members}
+              changedIds={changedIds}
+              onLeadUpdated={handleLeadUpdated}
+            />
+          </>
+        ) : (
+          <>
+            {selectedCount > 0 && (
+              <BulkActionBar
+                count={selectedCount}
+                allMatching={allMatching}
+                matchingCount={leadCount}
+                canSelectAllMatching={leadCount > selectedIds.size && leads.every(lead => selectedIds.has(lead.id))}
+                canReassign={canReassign}
+                onSelectAllMatching={() => setAllMatching(true)}
+                onClear={clearSelection}
+                onAction={setBulkAction}
+                onExport={handleBulkExport}
+              />
+            )}
+
+            <LeadsList
+              leads={leads}
+              members={members}
+              sort={sort}
+              onSortChange={setSort}
+              selectedIds={selectedIds}
+              changedIds={changedIds}
+              onSelectionChange={handleSelectionChange}
+              onLeadUpdated={handleLeadUpdated}
+              onLeadDeleted={handleLeadDeleted}
+            />
+
+            {leadCount > PAGE_SIZE && (
+              <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                <p>
+                  Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, leadCount)} of {leadCount}
+                </p>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0 || fetching}
+                    className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-1"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    <span>Previous</span>
+                  </button>
+                  <span>Page {page + 1} of {pageCount}</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount || fetching}
+                    className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-1"
+                  >
+                    <span>Next</span>
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Lead Form Modal */}
       {showForm && (
         <LeadForm
@@ -191,6 +613,53 @@ export const Dashboard: React.FC = () => {
           onLeadCreated={handleLeadCreated}
         />
       )}
+
+      {/* Import Wizard Modal */}
+      {showImport && (
+        <ImportWizard
+          onClose={() => setShowImport(false)}
+          onImported={refresh}
+        />
+      )}
+
+      {/* Export Dialog */}
+      {showExport && (
+        <ExportDialog
+          filters={filters}
+          sort={sort}
+          count={leadCount}
+          members={members}
+          territories={territories}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {exportIds && (
+        <ExportDialog
+          filters={filters}
+          sort={sort}
+          count={exportIds.length}
+          leadIds={exportIds}
+          members={members}
+          territories={territories}
+          onClose={() => setExportIds(null)}
+        />
+      )}
+
+      {/* Bulk Action Modal */}
+      {bulkAction && (
+        <BulkActionModal
+          action={bulkAction}
+          count={selectedCount}
+          members={members}
+          getLeadIds={getSelectedLeadIds}
+          onClose={() => setBulkAction(null)}
+          onDone={handleBulkDone}
+        />
+      )}
+
+      {/* Routed modals such as /leads/:id/edit */}
+      <Outlet context={{ refresh } satisfies DashboardOutletContext} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Lead, Profile } from '../../lib/supabase';
+import { BoardTotals } from '../../lib/leadQuery';
+import { useAuth } from '../../contexts/AuthContext';
+import { LEAD_STATUSES } from '../../lib/constants';
+import { formatCurrency } from '../../lib/format';
+import { scoreTooltip } from '../../lib/scoring';
+import { updateLeadOrQueue } from '../../lib/offline';
+import { Star, Edit, X } from 'lucide-react';
+import { getMemberName } from '../../hooks/useTeamMembers';
+
+interface LeadsBoardProps {
+  // The cards shown; at most the first page of matching leads
+  leads: Lead[];
+  // Count and amount per status across every matching lead
+  totals: BoardTotals;
+  members: Profile[];
+  // Recently changed by someone else; highlighted for a moment
+  changedIds: Set<string>;
+  onLeadUpdated: () => void;
+}
+
+export const LeadsBoard: React.FC<LeadsBoardProps> = ({ leads, totals, members, changedIds, onLeadUpdated }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<Lead['status'] | null>(null);
+  // Status changes shown immediately and kept until the refreshed leads catch up
+  const [pendingStatus, setPendingStatus] = useState<Record<string, Lead['status']>>({});
+  const [error, setError] = useState('');
+
+  const statusOf = (lead: Lead) => pendingStatus[lead.id] ?? lead.status;
+
+  // Server totals, with moves that haven't reached the server yet shifted across
+  const columnTotals = (status: Lead['status']) => {
+    let { count, amount } = totals[status] || { count: 0, amount: 0 };
+    for (const lead of leads) {
+      const pending = pendingStatus[lead.id];
+      if (!pending || pending === lead.status) continue;
+      const sign = pending === status ? 1 : lead.status === status ? -1 : 0;
+      count += sign;
+      amount += sign * (lead.potential_amount || 0);
+    }
+    return { count, amount };
+  };
+
+  const clearPending = (id: string) => {
+    setPendingStatus(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    setPendingStatus(prev => {
+      const landed = Object.keys(prev).filter(id => {
+        const lead = leads.find(l => l.id === id);
+        return !lead || lead.status === prev[id];
+      });
+      if (landed.length === 0) return prev;
+
+      const next = { ...prev };
+      landed.forEach(id => delete next[id]);
+      return next;
+    });
+  }, [leads]);
+
+  // Queued when offline, like edits from the follow-up queue
+  const handleStatusChange = async (lead: Lead, newStatus: Lead['status']) => {
+    if (!user) return;
+
+    setPendingStatus(prev => ({ ...prev, [lead.id]: newStatus }));
+    setError('');
+    try {
+      await updateLeadOrQueue(lead, { status: newStatus });
+      onLeadUpdated();
+    } catch (error) {
+      console.error('Error updating lead status:', error);
+      setError(`Couldn't move ${lead.full_name}. Please try again.`);
+      clearPending(lead.id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: Lead['status']) => {
+    e.preventDefault();
+    setDropTarget(null);
+    setDraggingId(null);
+
+    const id = e.dataTransfer.getData('text/plain');
+    const lead = leads.find(l => l.id === id);
+    if (lead && statusOf(lead) !== status) {
+      handleStatusChange(lead, status);
+    }
+  };
+
+  const getColumnColor = (status: string) => {
+    switch (status) {
+      case 'New': return 'border-blue-500';
+      case 'In-Progress': return 'border-yellow-500';
+      case 'Closed': return 'border-green-500';
+      default: return 'border-gray-500';
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={() => setError('')} className="text-red-500 hover:text-red-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {LEAD_STATUSES.map(({ value: status, label }) => {
+          const columnLeads = leads.filter(lead => statusOf(lead) === status);
+          const { count, amount } = columnTotals(status);
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`bg-gray-100 rounded-xl border-t-4 ${getColumnColor(status)} flex flex-col min-h-[16rem] transition-colors ${
+                dropTarget === status ? 'ring-2 ring-blue-400 bg-blue-50' : ''
+              }`}
+            >
+              {/* Column header */}
+              <div className="px-4 py-3 flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <h3 className="font-semibold text-gray-900">{label}</h3>
+                  <span className="text-xs font-medium bg-white text-gray-600 px-2 py-0.5 rounded-full">
+                    {count}
+                  </span>
+                </div>
+                <span className="text-sm font-medium text-gray-600">{formatCurrency(amount)}</span>
+              </div>
+
+              {/* Cards */}
+              <div className="flex-1 px-3 pb-3 space-y-3">
+                {columnLeads.map((lead) => (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', lead.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    className={`rounded-lg shadow-sm border p-4 cursor-grab active:cursor-grabbing hover:shadow-md transition-all duration-700 ${
+                      changedIds.has(lead.id) ? 'bg-yellow-50 border-yellow-300' : 'bg-white border-gray-200'
+                    } ${draggingId === lead.id ? 'opacity-50' : ''} ${pendingStatus[lead.id] ? 'animate-pulse' : ''}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <Link to={`/leads/${lead.id}`} className="font-medium text-gray-900 hover:text-blue-700">{lead.full_name}</Link>
+                      <Link
+                        to={`/leads/${lead.id}/edit${location.search}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Link>
+                    </div>
+                    {lead.company && (
+                      <p className="text-xs text-gray-500 mt-0.5">{lead.company}</p>
+                    )}
+                    {members.length > 1 && (
+                      <p className="text-xs text-gray-400 mt-0.5">{getMemberName(members, lead.assigned_to)}</p>
+                    )}
+                    <div className="flex items-center justify-between mt-3">
+                      <span className="text-sm font-medium text-gray-900">
+                        {formatCurrency(lead.potential_amount)}
+                      </span>
+                      <span className="flex items-center space-x-1 text-xs text-gray-500" title={scoreTooltip(lead)}>
+                        <Star className={`w-3 h-3 ${lead.lead_score_override ? 'text-amber-500' : ''}`} />
+                        <span>{lead.lead_score}</span>
+                      </span>
+                    </div>
+                  </div>
+                ))}
+
+                {columnLeads.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-6">Drop leads here</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
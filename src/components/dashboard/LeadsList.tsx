@@ -1,18 +1,43 @@
 import React, { useState } from 'react';
-import { Lead, supabase } from '../../lib/supabase';
+import { Link, useLocation } from 'react-router-dom';
+import { Lead, Profile, supabase } from '../../lib/supabase';
+import { LeadSort, LeadSortColumn } from '../../lib/leadQuery';
 import { useAuth } from '../../contexts/AuthContext';
-import { Trash2, Edit, Mail, Phone, Building } from 'lucide-react';
-import { LeadForm } from '../forms/LeadForm';
+import { LEAD_STATUS_COLORS } from '../../lib/constants';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { scoreTooltip } from '../../lib/scoring';
+import { updateLeadOrQueue } from '../../lib/offline';
+import { Trash2, Edit, Mail, Phone, History, ArrowUp, ArrowDown } from 'lucide-react';
+import { getMemberName } from '../../hooks/useTeamMembers';
+import { LeadHistoryModal } from '../activity/LeadHistoryModal';
 
 interface LeadsListProps {
   leads: Lead[];
+  members: Profile[];
+  sort: LeadSort;
+  onSortChange: (sort: LeadSort) => void;
+  selectedIds: Set<string>;
+  // Recently changed by someone else; highlighted for a moment
+  changedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
   onLeadUpdated: () => void;
   onLeadDeleted: () => void;
 }
 
-export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLeadDeleted }) => {
-  const { user } = useAuth();
-  const [editingLead, setEditingLead] = useState<Lead | null>(null);
+export const LeadsList: React.FC<LeadsListProps> = ({
+  leads,
+  members,
+  sort,
+  onSortChange,
+  selectedIds,
+  changedIds,
+  onSelectionChange,
+  onLeadUpdated,
+  onLeadDeleted,
+}) => {
+  const { user, canReassign } = useAuth();
+  const location = useLocation();
+  const [historyLead, setHistoryLead] = useState<Lead | null>(null);
 
   const handleDelete = async (id: string) => {
     if (!user || !confirm('Are you sure you want to delete this lead?')) return;
@@ -21,8 +46,7 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
       const { error } = await supabase
         .from('leads')
         .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
+        .eq('id', id);
 
       if (error) throw error;
       onLeadDeleted();
@@ -31,46 +55,65 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
     }
   };
 
-  const handleStatusChange = async (id: string, newStatus: string) => {
+  // Both queue the change when offline, like edits from the follow-up queue
+  const handleStatusChange = async (lead: Lead, newStatus: Lead['status']) => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('leads')
-        .update({ status: newStatus })
-        .eq('id', id)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await updateLeadOrQueue(lead, { status: newStatus });
       onLeadUpdated();
     } catch (error) {
       console.error('Error updating lead status:', error);
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    });
+  const handleReassign = async (lead: Lead, assigneeId: string) => {
+    if (!user) return;
+
+    try {
+      await updateLeadOrQueue(lead, { assigned_to: assigneeId || null });
+      onLeadUpdated();
+    } catch (error) {
+      console.error('Error reassigning lead:', error);
+    }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 0,
-    }).format(amount);
+  const pageSelected = leads.filter(lead => selectedIds.has(lead.id)).length;
+
+  const toggleLead = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    onSelectionChange(next);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'New': return 'bg-blue-100 text-blue-800';
-      case 'In-Progress': return 'bg-yellow-100 text-yellow-800';
-      case 'Closed': return 'bg-green-100 text-green-800';
-      default: return 'bg-gray-100 text-gray-800';
+  // Ticks or clears every lead on this page, leaving selections on other pages alone
+  const togglePage = () => {
+    const next = new Set(selectedIds);
+    for (const lead of leads) {
+      if (pageSelected === leads.length) next.delete(lead.id);
+      else next.add(lead.id);
     }
+    onSelectionChange(next);
+  };
+
+  // Clicking the active column flips direction; follow-ups start soonest first, everything else highest first
+  const renderSortButton = (column: LeadSortColumn, label: string) => {
+    const active = sort.column === column;
+    const Arrow = active && sort.ascending ? ArrowUp : ArrowDown;
+
+    return (
+      <button
+        type="button"
+        onClick={() => onSortChange({ column, ascending: active ? !sort.ascending : column === 'follow_up_date' })}
+        className={`inline-flex items-center space-x-1 uppercase tracking-wider hover:text-gray-900 ${
+          active ? 'text-gray-900' : ''
+        }`}
+      >
+        <span>{label}</span>
+        <Arrow className={`w-3 h-3 ${active ? '' : 'opacity-30'}`} />
+      </button>
+    );
   };
 
   if (leads.length === 0) {
@@ -80,7 +123,7 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
           <Mail className="w-12 h-12 mx-auto" />
         </div>
         <h3 className="text-lg font-medium text-gray-900 mb-2">No leads found</h3>
-        <p className="text-gray-500">Get started by adding your first lead.</p>
+        <p className="text-gray-500">Try different filters, or add a new lead.</p>
       </div>
     );
   }
@@ -91,12 +134,27 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
         {/* Header row: hidden on small screens */}
         <div className="px-4 md:px-8 py-3 border-b border-gray-200 hidden md:block">
           <div className="grid grid-cols-12 gap-x-8 gap-y-4 text-xs font-medium text-gray-500 uppercase tracking-wider">
-            <div className="col-span-3">Lead Info</div>
+            <div className="col-span-3 flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={pageSelected === leads.length}
+                ref={(input) => {
+                  if (input) input.indeterminate = pageSelected > 0 && pageSelected < leads.length;
+                }}
+                onChange={togglePage}
+                title="Select all on this page"
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span>Lead Info</span>
+              {renderSortButton('lead_score', 'Score')}
+              {renderSortButton('created_at', 'Added')}
+            </div>
             <div className="col-span-2">Contact</div>
             <div className="col-span-1">Type & Model</div>
-            <div className="col-span-1">Potential Amount</div>
-            <div className="col-span-1">Follow-up</div>
+            <div className="col-span-1">{renderSortButton('potential_amount', 'Potential Amount')}</div>
+            <div className="col-span-1">{renderSortButton('follow_up_date', 'Follow-up')}</div>
             <div className="col-span-1">Status</div>
+            <div className="col-span-2">Owner</div>
             <div className="col-span-1">Actions</div>
           </div>
         </div>
@@ -105,7 +163,9 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
           {leads.map((lead) => (
             <div
               key={lead.id}
-              className="px-4 py-4 md:px-8 md:py-5 hover:bg-gray-50 transition-colors flex flex-col md:block"
+              className={`px-4 py-4 md:px-8 md:py-5 transition-colors duration-700 flex flex-col md:block ${
+                selectedIds.has(lead.id) ? 'bg-blue-50' : changedIds.has(lead.id) ? 'bg-yellow-50' : 'hover:bg-gray-50'
+              }`}
             >
               {/* Responsive grid: 1 col on mobile, 12 cols on md+ */}
               <div className="grid grid-cols-1 md:grid-cols-12 gap-y-4 md:gap-x-8 items-start md:items-center">
@@ -113,11 +173,29 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
                 <div className="md:col-span-3 flex flex-col">
                   <span className="md:hidden text-xs text-gray-400 mb-1">Lead Info</span>
                   <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(lead.id)}
+                      onChange={() => toggleLead(lead.id)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
                     <div>
-                      <p className="font-medium text-gray-900">{lead.full_name}</p>
+                      <Link to={`/leads/${lead.id}`} className="font-medium text-gray-900 hover:text-blue-700">{lead.full_name}</Link>
                       <p className="text-sm text-gray-500">
-                        Score: {lead.lead_score} {lead.lead_sealed && <span className="text-green-600">• Sealed</span>}
+                        <span title={scoreTooltip(lead)}>
+                          Score: {lead.lead_score}
+                          {lead.lead_score_override && <span className="text-amber-600"> (manual)</span>}
+                        </span>{' '}
+                        {lead.lead_sealed && <span className="text-green-600">• Sealed</span>}
                       </p>
+                      <p className="text-xs text-gray-400">Added {formatDate(lead.created_at)}</p>
+                      {lead.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {lead.tags.map(tag => (
+                            <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{tag}</span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -172,8 +250,8 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
                   <span className="md:hidden text-xs text-gray-400 mb-1">Status</span>
                   <select
                     value={lead.status}
-                    onChange={(e) => handleStatusChange(lead.id, e.target.value)}
-                    className={`text-xs px-2 py-1 rounded-full border-0 ${getStatusColor(lead.status)}`}
+                    onChange={(e) => handleStatusChange(lead, e.target.value as Lead['status'])}
+                    className={`text-xs px-2 py-1 rounded-full border-0 ${LEAD_STATUS_COLORS[lead.status] || 'bg-gray-100 text-gray-800'}`}
                   >
                     <option value="New">New</option>
                     <option value="In-Progress">In Progress</option>
@@ -181,14 +259,41 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
                   </select>
                 </div>
 
+                {/* Owner */}
+                <div className="md:col-span-2 flex flex-col">
+                  <span className="md:hidden text-xs text-gray-400 mb-1">Owner</span>
+                  {canReassign ? (
+                    <select
+                      value={lead.assigned_to || ''}
+                      onChange={(e) => handleReassign(lead, e.target.value)}
+                      className="text-xs px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {!lead.assigned_to && <option value="">Unassigned</option>}
+                      {members.map(member => (
+                        <option key={member.user_id} value={member.user_id}>
+                          {member.full_name || member.email}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-600">{getMemberName(members, lead.assigned_to)}</span>
+                  )}
+                </div>
+
                 {/* Actions */}
                 <div className="md:col-span-1 flex flex-row md:flex-col items-start md:items-center space-x-2 md:space-x-0 md:space-y-2 mt-2 md:mt-0">
                   <span className="md:hidden text-xs text-gray-400 mb-1">Actions</span>
-                  <button
-                    onClick={() => setEditingLead(lead)}
+                  <Link
+                    to={`/leads/${lead.id}/edit${location.search}`}
                     className="text-blue-600 hover:text-blue-800"
                   >
                     <Edit className="w-4 h-4" />
+                  </Link>
+                  <button
+                    onClick={() => setHistoryLead(lead)}
+                    className="text-gray-600 hover:text-gray-800"
+                  >
+                    <History className="w-4 h-4" />
                   </button>
                   <button
                     onClick={() => handleDelete(lead.id)}
@@ -203,11 +308,10 @@ export const LeadsList: React.FC<LeadsListProps> = ({ leads, onLeadUpdated, onLe
         </div>
       </div>
 
-      {editingLead && (
-        <LeadForm
-          lead={editingLead}
-          onClose={() => setEditingLead(null)}
-          onLeadCreated={onLeadUpdated}
+      {historyLead && (
+        <LeadHistoryModal
+          lead={historyLead}
+          onClose={() => setHistoryLead(null)}
         />
       )}
     </>
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { supabase, Profile, SavedView, Territory } from '../../lib/supabase';
+import { SavedViewParams, sameViewParams } from '../../lib/savedViews';
+import { DEFAULT_SORT, LeadSortColumn } from '../../lib/leadQuery';
+import { LEAD_STATUSES, LEAD_TYPES, MODEL_TYPES } from '../../lib/constants';
+import { NO_TERRITORY } from '../../lib/territories';
+import { getMemberName } from '../../hooks/useTeamMembers';
+import { getTerritoryName } from '../../hooks/useTerritories';
+import { X, Save } from 'lucide-react';
+
+interface SavedViewFormProps {
+  view?: SavedView;
+  // The dashboard's current filters and sort
+  params: SavedViewParams;
+  members: Profile[];
+  territories: Territory[];
+  onClose: () => void;
+  onSaved: (view: SavedView) => void;
+}
+
+const SORT_LABELS: Record<LeadSortColumn, string> = {
+  lead_score: 'Score',
+  potential_amount: 'Potential amount',
+  created_at: 'Date added',
+  follow_up_date: 'Follow-up date',
+};
+
+const labelFor = (options: { value: string; label: string }[], value: string) =>
+  options.find(option => option.value === value)?.label || value;
+
+const describeParams = (params: SavedViewParams, members: Profile[], territories: Territory[]) => {
+  const parts: string[] = [];
+  if (params.q) parts.push(`Search "${params.q}"`);
+  if (params.status) parts.push(`Status: ${labelFor(LEAD_STATUSES, params.status)}`);
+  if (params.type) parts.push(`Lead type: ${labelFor(LEAD_TYPES, params.type)}`);
+  if (params.model) parts.push(`Model: ${labelFor(MODEL_TYPES, params.model)}`);
+  if (params.owner) parts.push(`Owner: ${params.owner === 'me' ? 'Whoever opens the view' : getMemberName(members, params.owner)}`);
+  if (params.territory) {
+    parts.push(`Territory: ${params.territory === NO_TERRITORY ? 'No territory' : getTerritoryName(territories, params.territory)}`);
+  }
+
+  const column = (params.sort || DEFAULT_SORT.column) as LeadSortColumn;
+  const ascending = params.dir ? params.dir === 'asc' : DEFAULT_SORT.ascending;
+  parts.push(`Sorted by ${SORT_LABELS[column] || column}, ${ascending ? 'ascending' : 'descending'}`);
+  return parts;
+};
+
+export const SavedViewForm: React.FC<SavedViewFormProps> = ({ view, params, members, territories, onClose, onSaved }) => {
+  const [name, setName] = useState(view?.name || '');
+  const [isDefault, setIsDefault] = useState(view?.is_default || false);
+  const [shared, setShared] = useState(view?.shared || false);
+  const changed = !!view && !sameViewParams(view.params, params);
+  const [replaceFilters, setReplaceFilters] = useState(changed);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const savedParams = view && !replaceFilters ? view.params : params;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const values = { name: name.trim(), params: savedParams, is_default: isDefault, shared };
+      const { data, error } = view
+        ? await supabase.from('saved_views').update(values).eq('id', view.id).select().single()
+        : await supabase.from('saved_views').insert([values]).select().single();
+
+      if (error) throw error;
+      onSaved(data as SavedView);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      setError('Could not save the view. You already have a view with this name.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">{view ? 'Edit View' : 'Save View'}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. My open rentals"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">This view shows</p>
+              <ul className="text-sm text-gray-600 space-y-1">
+                {describeParams(savedParams, members, territories).map(part => (
+                  <li key={part}>{part}</li>
+                ))}
+              </ul>
+            </div>
+
+            {changed && (
+              <label className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={replaceFilters}
+                  onChange={(e) => setReplaceFilters(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">Replace the saved filters with the current ones</span>
+              </label>
+            )}
+
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={isDefault}
+                onChange={(e) => setIsDefault(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Open the dashboard with this view</span>
+            </label>
+
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={shared}
+                onChange={(e) => setShared(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Share with the team</span>
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim() || saving}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
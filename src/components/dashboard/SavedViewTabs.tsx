@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, Profile, SavedView, Territory } from '../../lib/supabase';
+import { SavedViewParams, fetchSavedViews, hasViewParams, sameViewParams } from '../../lib/savedViews';
+import { getMemberName } from '../../hooks/useTeamMembers';
+import { SavedViewForm } from './SavedViewForm';
+import { BookmarkPlus, Edit, Star, Trash2, Users } from 'lucide-react';
+
+interface SavedViewTabsProps {
+  // The dashboard's current filters and sort
+  params: SavedViewParams;
+  members: Profile[];
+  territories: Territory[];
+  onApply: (params: SavedViewParams) => void;
+}
+
+export const SavedViewTabs: React.FC<SavedViewTabsProps> = ({ params, members, territories, onApply }) => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingView, setEditingView] = useState<SavedView | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  // The default view only applies when the dashboard is opened without filters in the link
+  const initialParams = useRef(params);
+  const defaultChecked = useRef(false);
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setViews(await fetchSavedViews(user.id));
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    } finally {
+      setLoaded(true);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  useEffect(() => {
+    if (!loaded || defaultChecked.current) return;
+    defaultChecked.current = true;
+
+    const defaultView = views.find(view => view.user_id === user?.id && view.is_default);
+    if (defaultView && !hasViewParams(initialParams.current)) {
+      setSelectedId(defaultView.id);
+      onApply(defaultView.params);
+    }
+  }, [loaded, views, user, onApply]);
+
+  // The picked view stays highlighted while its filters are tweaked; otherwise any view matching the filters is
+  const selected = views.find(view => view.id === selectedId);
+  const activeView = selected && sameViewParams(selected.params, params)
+    ? selected
+    : views.find(view => sameViewParams(view.params, params)) || selected;
+  const modified = !!activeView && !sameViewParams(activeView.params, params);
+  const ownsActiveView = activeView?.user_id === user?.id;
+
+  const selectView = (view: SavedView | null) => {
+    setSelectedId(view?.id ?? null);
+    onApply(view?.params ?? {});
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', view.id);
+
+      if (error) throw error;
+      setSelectedId(null);
+      fetchViews();
+    } catch (error) {
+      console.error('Error deleting view:', error);
+    }
+  };
+
+  const handleSaved = (view: SavedView) => {
+    setShowForm(false);
+    setEditingView(null);
+    setSelectedId(view.id);
+    onApply(view.params);
+    fetchViews();
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 -mb-px border-b-2 text-sm font-medium whitespace-nowrap flex items-center space-x-1.5 transition-colors ${
+      active ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+    }`;
+
+  return (
+    <div className="flex items-end gap-4 border-b border-gray-200 mb-4">
+      <div className="flex-1 flex overflow-x-auto">
+        <button
+          type="button"
+          onClick={() => selectView(null)}
+          className={tabClass(!activeView && !hasViewParams(params))}
+        >
+          All Leads
+        </button>
+        {views.map(view => (
+          <button
+            key={view.id}
+            type="button"
+            onClick={() => selectView(view)}
+            title={view.user_id === user?.id ? undefined : `Shared by ${getMemberName(members, view.user_id)}`}
+            className={tabClass(view.id === activeView?.id)}
+          >
+            {view.user_id === user?.id && view.is_default && <Star className="w-3.5 h-3.5" />}
+            {view.shared && <Users className="w-3.5 h-3.5" />}
+            <span>{view.name}</span>
+            {view.id === activeView?.id && modified && <span className="text-gray-400">(edited)</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-3 pb-2">
+        {activeView && ownsActiveView && (
+          <>
+            <button
+              type="button"
+              onClick={() => setEditingView(activeView)}
+              className="text-blue-600 hover:text-blue-800"
+              title={modified ? 'Update view' : 'Edit view'}
+            >
+              <Edit className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(activeView)}
+              className="text-red-600 hover:text-red-800"
+              title="Delete view"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 whitespace-nowrap"
+        >
+          <BookmarkPlus className="w-4 h-4" />
+          <span>Save View</span>
+        </button>
+      </div>
+
+      {(showForm || editingView) && (
+        <SavedViewForm
+          view={editingView || undefined}
+          params={params}
+          members={members}
+          territories={territories}
+          onClose={() => {
+            setShowForm(false);
+            setEditingView(null);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
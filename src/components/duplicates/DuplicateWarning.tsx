@@ -0,0 +1,60 @@
+import React from 'react';
+import { DuplicateMatch, MATCH_REASON_LABELS } from '../../lib/duplicates';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+
+interface DuplicateWarningProps {
+  matches: DuplicateMatch[];
+  onMerge?: (match: DuplicateMatch) => void;
+}
+
+export const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ matches, onMerge }) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-center space-x-2 text-amber-800 mb-3">
+        <AlertTriangle className="w-5 h-5" />
+        <p className="font-medium">
+          {matches.length === 1 ? 'This may be a duplicate of an existing lead' : `This may duplicate ${matches.length} existing leads`}
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {matches.map(match => (
+          <li key={match.id} className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+            <div className="flex-1 min-w-0">
+              {match.accessible ? (
+                <>
+                  <p className="font-medium text-gray-900">
+                    {match.full_name}
+                    {match.company && <span className="font-normal text-gray-500"> · {match.company}</span>}
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    {MATCH_REASON_LABELS[match.match_reason]} · {match.status} · Owner: {match.owner_name || 'Unassigned'}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="font-medium text-gray-900">A lead owned by {match.owner_name || 'another user'}</p>
+                  <p className="text-xs text-gray-600">
+                    {MATCH_REASON_LABELS[match.match_reason]} · Ask the owner or a manager before adding this lead
+                  </p>
+                </>
+              )}
+            </div>
+            {onMerge && match.accessible && (
+              <button
+                type="button"
+                onClick={() => onMerge(match)}
+                className="px-3 py-1.5 text-xs border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-100 flex items-center space-x-1 self-start sm:self-auto"
+              >
+                <GitMerge className="w-3 h-3" />
+                <span>Merge</span>
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
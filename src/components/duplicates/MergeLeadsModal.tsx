@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Lead } from '../../lib/supabase';
+import { LEAD_FIELD_LABELS } from '../../lib/constants';
+import { MERGE_FIELDS } from '../../lib/duplicates';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { X, GitMerge, ArrowLeftRight } from 'lucide-react';
+
+interface MergeLeadsModalProps {
+  survivorId: string;
+  duplicateId: string;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+type Side = 'survivor' | 'duplicate';
+
+export const MergeLeadsModal: React.FC<MergeLeadsModalProps> = ({ survivorId, duplicateId, onClose, onMerged }) => {
+  const members = useTeamMembers();
+  const [leads, setLeads] = useState<Record<Side, Lead> | null>(null);
+  const [itemCounts, setItemCounts] = useState<Record<string, number>>({});
+  const [choices, setChoices] = useState<Partial<Record<keyof Lead, Side>>>({});
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchLeads = async () => {
+      try {
+        const [leadsResult, productsResult, servicesResult] = await Promise.all([
+          supabase.from('leads').select('*').in('id', [survivorId, duplicateId]),
+          supabase.from('lead_products').select('lead_id').in('lead_id', [survivorId, duplicateId]),
+          supabase.from('lead_services').select('lead_id').in('lead_id', [survivorId, duplicateId]),
+        ]);
+
+        if (leadsResult.error) throw leadsResult.error;
+        if (productsResult.error) throw productsResult.error;
+        if (servicesResult.error) throw servicesResult.error;
+
+        const rows: Lead[] = leadsResult.data || [];
+        const survivor = rows.find(row => row.id === survivorId);
+        const duplicate = rows.find(row => row.id === duplicateId);
+        if (!survivor || !duplicate) {
+          setError('You do not have access to both leads. Ask an admin to merge them.');
+          return;
+        }
+
+        const counts: Record<string, number> = {};
+        for (const row of [...(productsResult.data || []), ...(servicesResult.data || [])]) {
+          counts[row.lead_id] = (counts[row.lead_id] || 0) + 1;
+        }
+
+        setLeads({ survivor, duplicate });
+        setItemCounts(counts);
+      } catch (err) {
+        console.error('Error fetching leads to merge:', err);
+        setError('Could not load the leads. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLeads();
+  }, [survivorId, duplicateId]);
+
+  const formatValue = (field: keyof Lead, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'potential_amount') return formatCurrency(Number(value));
+    if (field === 'follow_up_date' || field === 'expected_close_date') return formatDate(String(value));
+    if (field === 'assigned_to') return getMemberName(members, String(value));
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  // Empty survivor values default to the duplicate's so nothing is lost by accident
+  const chosenSide = (field: keyof Lead): Side => {
+    const chosen = choices[field];
+    if (chosen) return chosen;
+    if (!leads) return 'survivor';
+    const value = leads.survivor[field];
+    return (value === null || value === '') && leads.duplicate[field] !== null && leads.duplicate[field] !== ''
+      ? 'duplicate'
+      : 'survivor';
+  };
+
+  const handleSwap = () => {
+    setLeads(prev => (prev ? { survivor: prev.duplicate, duplicate: prev.survivor } : prev));
+    setChoices({});
+  };
+
+  const handleMerge = async () => {
+    if (!leads) return;
+    if (!confirm(`Merge "${leads.duplicate.full_name}" into "${leads.survivor.full_name}"? The duplicate will be deleted.`)) return;
+
+    setMerging(true);
+    setError('');
+    try {
+      const fieldValues = Object.fromEntries(
+        MERGE_FIELDS
+          .filter(field => chosenSide(field) === 'duplicate')
+          .map(field => [field, leads.duplicate[field]])
+      );
+
+      const { error } = await supabase.rpc('merge_leads', {
+        survivor_id: leads.survivor.id,
+        duplicate_id: leads.duplicate.id,
+        field_values: fieldValues,
+      });
+
+      if (error) throw error;
+      onMerged();
+    } catch (err) {
+      console.error('Error merging leads:', err);
+      setError(err instanceof Error ? err.message : 'Could not merge the leads. Please try again.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Merge Leads</h2>
+            <p className="text-sm text-gray-500 mt-1">Pick the value to keep for each field</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : leads && (
+            <>
+              <div className="grid grid-cols-12 gap-4 items-end">
+                <div className="col-span-3"></div>
+                <div className="col-span-4">
+                  <p className="text-xs font-medium text-green-700 uppercase tracking-wider">Keep</p>
+                  <p className="font-semibold text-gray-900">{leads.survivor.full_name}</p>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDate(leads.survivor.created_at)} · {itemCounts[leads.survivor.id] || 0} items
+                  </p>
+                </div>
+                <div className="col-span-1 flex justify-center">
+                  <button
+                    type="button"
+                    onClick={handleSwap}
+                    title="Swap which lead is kept"
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    <ArrowLeftRight className="w-5 h-5" />
+                  </button>
+                </div>
+                <div className="col-span-4">
+                  <p className="text-xs font-medium text-red-700 uppercase tracking-wider">Delete</p>
+                  <p className="font-semibold text-gray-900">{leads.duplicate.full_name}</p>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDate(leads.duplicate.created_at)} · {itemCounts[leads.duplicate.id] || 0} items
+                  </p>
+                </div>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {MERGE_FIELDS.map(field => {
+                  const side = chosenSide(field);
+                  const same = leads.survivor[field] === leads.duplicate[field];
+
+                  return (
+                    <div key={field} className="grid grid-cols-12 gap-4 px-4 py-2 items-center text-sm">
+                      <p className="col-span-3 font-medium text-gray-700">{LEAD_FIELD_LABELS[field] || field}</p>
+                      {(['survivor', 'duplicate'] as Side[]).map(option => (
+                        <label
+                          key={option}
+                          className={`${option === 'survivor' ? 'col-span-5' : 'col-span-4'} flex items-start space-x-2 ${
+                            same ? 'text-gray-400' : 'text-gray-900'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={field}
+                            checked={side === option}
+                            disabled={same}
+                            onChange={() => setChoices(prev => ({ ...prev, [field]: option }))}
+                            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                          />
+                          <span className="break-words min-w-0">{formatValue(field, leads[option][field])}</span>
+                        </label>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <p className="text-sm text-gray-500">
+                Products, services, notes and activity history move to the lead you keep. Products or services already on
+                that lead keep their current quantities.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={!leads || merging}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <GitMerge className="w-5 h-5" />
+            <span>{merging ? 'Merging...' : 'Merge Leads'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
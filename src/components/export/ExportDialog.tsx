@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Profile, Territory } from '../../lib/supabase';
+import { LeadFilters, LeadSort, fetchAllLeads, fetchLeadsByIds } from '../../lib/leadQuery';
+import {
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  ExportFormat,
+  buildExportRows,
+  serializeExport,
+} from '../../lib/leadExport';
+import { downloadFile } from '../../lib/download';
+import { X, Download } from 'lucide-react';
+
+interface ExportDialogProps {
+  filters: LeadFilters;
+  sort: LeadSort;
+  count: number;
+  // Export just these leads instead of everything matching the filters
+  leadIds?: string[];
+  members: Profile[];
+  territories: Territory[];
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ filters, sort, count, leadIds, members, territories, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [includeItems, setIncludeItems] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleColumn = (key: string) => {
+    setColumns(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const handleExport = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const leads = leadIds ? await fetchLeadsByIds(leadIds, sort) : await fetchAllLeads(filters, sort);
+      const rows = await buildExportRows(leads, columns, includeItems, { members, territories });
+      const { content, type } = await serializeExport(rows, format);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(content, `leads-${date}.${format}`, type);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting leads:', err);
+      setError('Could not export leads. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Export Leads</h2>
+            <p className="text-sm text-gray-500 mt-1">{count} {leadIds ? 'selected leads' : 'leads matching the current filters'}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900">Format</h3>
+            <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+              {FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={`flex-1 py-2 px-4 text-sm font-medium rounded-md transition-colors ${
+                    format === option.value
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Columns</h3>
+              <div className="space-x-3 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setColumns(EXPORT_COLUMNS.map(column => column.key))}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  All
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setColumns([])}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {EXPORT_COLUMNS.map(column => (
+                <label key={column.key} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeItems}
+              onChange={(e) => setIncludeItems(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>Include products and services</span>
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={loading || count === 0 || (columns.length === 0 && !includeItems)}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Download className="w-5 h-5" />
+            <span>{loading ? 'Exporting...' : 'Export'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  calendarFeedUrl,
+  calendarSubscribeUrl,
+  getCalendarFeedToken,
+  resetCalendarFeedToken,
+} from '../../lib/calendarFeed';
+import { X, Check, Copy, CalendarPlus, RefreshCw } from 'lucide-react';
+
+interface CalendarFeedModalProps {
+  onClose: () => void;
+}
+
+export const CalendarFeedModal: React.FC<CalendarFeedModalProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getCalendarFeedToken()
+      .then(setToken)
+      .catch(error => {
+        console.error('Error loading calendar feed:', error);
+        setError('Could not load your calendar link. Please try again.');
+      });
+  }, []);
+
+  const handleCopy = async () => {
+    if (!token) return;
+
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(token));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying calendar link:', error);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!user || !confirm('Calendars subscribed with the current link will stop updating. Create a new link?')) return;
+
+    setResetting(true);
+    setError('');
+    try {
+      setToken(await resetCalendarFeedToken(user.id));
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error);
+      setError('Could not reset your calendar link. Please try again.');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Subscribe to Follow-ups</h2>
+            <p className="text-sm text-gray-500 mt-1">Your calendar app keeps the follow-ups assigned to you up to date.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {token ? (
+            <>
+              <a
+                href={calendarSubscribeUrl(token)}
+                className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+              >
+                <CalendarPlus className="w-5 h-5" />
+                <span>Add to Calendar</span>
+              </a>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Or paste this link into your calendar's "subscribe by URL" option
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={calendarFeedUrl(token)}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 bg-gray-50"
+                  />
+                  <button
+                    onClick={handleCopy}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                  >
+                    {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    <span>{copied ? 'Copied' : 'Copy'}</span>
+                  </button>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Anyone with this link can see your follow-ups. If it has been shared by mistake, reset it.
+              </p>
+              <button
+                onClick={handleReset}
+                disabled={resetting}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50 flex items-center space-x-1"
+              >
+                <RefreshCw className={`w-4 h-4 ${resetting ? 'animate-spin' : ''}`} />
+                <span>Reset link</span>
+              </button>
+            </>
+          ) : !error && (
+            <div className="flex justify-center py-6">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Lead } from '../../lib/supabase';
+import { toISODate, todayISO } from '../../lib/dates';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface FollowUpCalendarProps {
+  leads: Lead[];
+  onSelectLead: (lead: Lead) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const FollowUpCalendar: React.FC<FollowUpCalendarProps> = ({ leads, onSelectLead }) => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const today = todayISO();
+  const leadsByDate = new Map<string, Lead[]>();
+  for (const lead of leads) {
+    if (!lead.follow_up_date) continue;
+    const day = lead.follow_up_date.slice(0, 10);
+    leadsByDate.set(day, [...(leadsByDate.get(day) || []), lead]);
+  }
+
+  // Pad the grid to whole weeks, starting on the Sunday before the 1st
+  const firstCell = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay());
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cellCount = Math.ceil((month.getDay() + daysInMonth) / 7) * 7;
+  const cells = Array.from({ length: cellCount }, (_, i) => {
+    const date = new Date(firstCell);
+    date.setDate(firstCell.getDate() + i);
+    return date;
+  });
+
+  const changeMonth = (delta: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <button onClick={() => changeMonth(-1)} className="text-gray-500 hover:text-gray-800">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <h3 className="text-lg font-semibold text-gray-900">
+          {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </h3>
+        <button onClick={() => changeMonth(1)} className="text-gray-500 hover:text-gray-800">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="px-2 py-2 text-center">{day}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {cells.map(date => {
+          const iso = toISODate(date);
+          const dayLeads = leadsByDate.get(iso) || [];
+          const inMonth = date.getMonth() === month.getMonth();
+
+          return (
+            <div
+              key={iso}
+              className={`min-h-[6rem] border-b border-r border-gray-100 p-1 ${inMonth ? '' : 'bg-gray-50'}`}
+            >
+              <p className={`text-xs mb-1 ${
+                iso === today
+                  ? 'inline-flex items-center justify-center w-5 h-5 rounded-full bg-blue-600 text-white'
+                  : inMonth ? 'text-gray-700' : 'text-gray-400'
+              }`}>
+                {date.getDate()}
+              </p>
+              <div className="space-y-1">
+                {dayLeads.slice(0, 3).map(lead => (
+                  <button
+                    key={lead.id}
+                    onClick={() => onSelectLead(lead)}
+                    className={`block w-full text-left truncate text-xs px-1.5 py-0.5 rounded ${
+                      iso < today ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'
+                    } hover:opacity-80`}
+                  >
+                    {lead.full_name}
+                  </button>
+                ))}
+                {dayLeads.length > 3 && (
+                  <p className="text-xs text-gray-500 px-1.5">+{dayLeads.length - 3} more</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
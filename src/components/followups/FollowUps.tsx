@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, Lead } from '../../lib/supabase';
+import { formatDate } from '../../lib/format';
+import { addDays, todayISO } from '../../lib/dates';
+import { buildFollowUpCalendar } from '../../lib/ics';
+import { downloadFile } from '../../lib/download';
+import { readLocalLeads, updateLeadOrQueue, withLocalFallback } from '../../lib/offline';
+import { CheckCircle, CalendarDays, CalendarPlus, ListChecks, Download, Phone, Edit } from 'lucide-react';
+import { FollowUpCalendar } from './FollowUpCalendar';
+import { CalendarFeedModal } from './CalendarFeedModal';
+import { LeadForm } from '../forms/LeadForm';
+
+type Bucket = 'overdue' | 'today' | 'week' | 'later' | 'undated';
+
+const BUCKETS: { key: Bucket; label: string; color: string }[] = [
+  { key: 'overdue', label: 'Overdue', color: 'text-red-700' },
+  { key: 'today', label: 'Today', color: 'text-orange-600' },
+  { key: 'week', label: 'This Week', color: 'text-blue-700' },
+  { key: 'later', label: 'Later', color: 'text-gray-700' },
+  { key: 'undated', label: 'No Date', color: 'text-gray-500' },
+];
+
+const getBucket = (lead: Lead, today: string): Bucket => {
+  const date = lead.follow_up_date?.slice(0, 10);
+  if (!date) return 'undated';
+  if (date < today) return 'overdue';
+  if (date === today) return 'today';
+  if (date <= addDays(today, 7)) return 'week';
+  return 'later';
+};
+
+export const FollowUps: React.FC = () => {
+  const { user } = useAuth();
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'queue' | 'calendar'>('queue');
+  const [mineOnly, setMineOnly] = useState(true);
+  const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [showFeed, setShowFeed] = useState(false);
+
+  const fetchFollowUps = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const fetchRemote = async () => {
+        let query = supabase
+          .from('leads')
+          .select('*')
+          .eq('follow_up', true)
+          .order('follow_up_date', { ascending: true, nullsFirst: false });
+
+        if (mineOnly) {
+          query = query.eq('assigned_to', user.id);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data || [];
+      };
+
+      // Same queue from the device cache, undated follow-ups last as on the server
+      const readLocal = async () => (await readLocalLeads())
+        .filter(lead => lead.follow_up && (!mineOnly || lead.assigned_to === user.id))
+        .sort((a, b) => (a.follow_up_date || '\uffff').localeCompare(b.follow_up_date || '\uffff'));
+
+      setLeads(await withLocalFallback(fetchRemote, readLocal));
+    } catch (error) {
+      console.error('Error fetching follow-ups:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, mineOnly]);
+
+  useEffect(() => {
+    fetchFollowUps();
+  }, [fetchFollowUps]);
+
+  const updateFollowUp = async (lead: Lead, changes: Partial<Pick<Lead, 'follow_up' | 'follow_up_date'>>) => {
+    setUpdatingId(lead.id);
+    try {
+      await updateLeadOrQueue(lead, changes);
+      await fetchFollowUps();
+    } catch (error) {
+      console.error('Error updating follow-up:', error);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Rescheduling counts from today for overdue items, otherwise from the current date
+  const handleReschedule = (lead: Lead, days: number) => {
+    const today = todayISO();
+    const base = lead.follow_up_date && lead.follow_up_date >= today ? lead.follow_up_date : today;
+    updateFollowUp(lead, { follow_up_date: addDays(base, days) });
+  };
+
+  const handleComplete = (lead: Lead) => {
+    updateFollowUp(lead, { follow_up: false });
+  };
+
+  const handleExport = () => {
+    downloadFile(buildFollowUpCalendar(leads), 'follow-ups.ics', 'text/calendar;charset=utf-8');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const today = todayISO();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          <button
+            type="button"
+            onClick={() => setView('queue')}
+            className={`py-2 px-4 text-sm font-medium rounded-md transition-colors flex items-center space-x-2 ${
+              view === 'queue' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <ListChecks className="w-4 h-4" />
+            <span>Queue</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setView('calendar')}
+            className={`py-2 px-4 text-sm font-medium rounded-md transition-colors flex items-center space-x-2 ${
+              view === 'calendar' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <CalendarDays className="w-4 h-4" />
+            <span>Calendar</span>
+          </button>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={mineOnly}
+            onChange={(e) => setMineOnly(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span>Only my follow-ups</span>
+        </label>
+
+        <button
+          onClick={() => setShowFeed(true)}
+          className="sm:ml-auto px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          <span>Subscribe</span>
+        </button>
+
+        <button
+          onClick={handleExport}
+          disabled={leads.length === 0}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export to Calendar (.ics)</span>
+        </button>
+      </div>
+
+      {view === 'calendar' ? (
+        <FollowUpCalendar leads={leads} onSelectLead={setEditingLead} />
+      ) : leads.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <div className="text-gray-400 mb-4">
+            <CheckCircle className="w-12 h-12 mx-auto" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No follow-ups pending</h3>
+          <p className="text-gray-500">You're all caught up.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {BUCKETS.map(bucket => {
+            const bucketLeads = leads.filter(lead => getBucket(lead, today) === bucket.key);
+            if (bucketLeads.length === 0) return null;
+
+            return (
+              <div key={bucket.key} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="px-4 md:px-8 py-3 border-b border-gray-200 flex items-center space-x-2">
+                  <h3 className={`font-semibold ${bucket.color}`}>{bucket.label}</h3>
+                  <span className="text-xs font-medium bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
+                    {bucketLeads.length}
+                  </span>
+                </div>
+
+                <div className="divide-y divide-gray-200">
+                  {bucketLeads.map(lead => (
+                    <div
+                      key={lead.id}
+                      className={`px-4 py-4 md:px-8 flex flex-col md:flex-row md:items-center gap-4 ${
+                        updatingId === lead.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900">
+                          <Link to={`/leads/${lead.id}`} className="hover:text-blue-700">{lead.full_name}</Link>
+                          {lead.company && <span className="text-sm font-normal text-gray-500"> · {lead.company}</span>}
+                        </p>
+                        {lead.follow_up_notes && (
+                          <p className="text-sm text-gray-600 truncate">{lead.follow_up_notes}</p>
+                        )}
+                        <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
+                          {lead.follow_up_date && <span>{formatDate(lead.follow_up_date)}</span>}
+                          {lead.phone && (
+                            <a href={`tel:${lead.phone}`} className="flex items-center space-x-1 text-blue-600 hover:text-blue-800">
+                              <Phone className="w-3 h-3" />
+                              <span>{lead.phone}</span>
+                            </a>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleReschedule(lead, 1)}
+                          disabled={updatingId === lead.id}
+                          className="px-3 py-1.5 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                          +1 day
+                        </button>
+                        <button
+                          onClick={() => handleReschedule(lead, 7)}
+                          disabled={updatingId === lead.id}
+                          className="px-3 py-1.5 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                          +1 week
+                        </button>
+                        <input
+                          type="date"
+                          value={lead.follow_up_date?.slice(0, 10) || ''}
+                          onChange={(e) => e.target.value && updateFollowUp(lead, { follow_up_date: e.target.value })}
+                          disabled={updatingId === lead.id}
+                          className="px-2 py-1 text-xs border border-gray-300 rounded-lg"
+                        />
+                        <button
+                          onClick={() => handleComplete(lead)}
+                          disabled={updatingId === lead.id}
+                          className="px-3 py-1.5 text-xs bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center space-x-1"
+                        >
+                          <CheckCircle className="w-3 h-3" />
+                          <span>Done</span>
+                        </button>
+                        <button
+                          onClick={() => setEditingLead(lead)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showFeed && <CalendarFeedModal onClose={() => setShowFeed(false)} />}
+
+      {editingLead && (
+        <LeadForm
+          lead={editingLead}
+          onClose={() => setEditingLead(null)}
+          onLeadCreated={() => {
+            setEditingLead(null);
+            fetchFollowUps();
+          }}
+        />
+      )}
+    </div>
+  );
+};
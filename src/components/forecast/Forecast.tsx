@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTeamMembers } from '../../hooks/useTeamMembers';
+import {
+  ForecastFilters,
+  ForecastRow,
+  addMonths,
+  fetchForecast,
+  formatMonth,
+  monthsBetween,
+  sumForecast,
+  toMonth,
+} from '../../lib/forecast';
+import { MODEL_TYPES } from '../../lib/constants';
+import { formatCurrency } from '../../lib/format';
+import { StageProbabilities } from './StageProbabilities';
+
+export const Forecast: React.FC = () => {
+  const { user } = useAuth();
+  const members = useTeamMembers();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [rows, setRows] = useState<ForecastRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const latestRequest = useRef(0);
+
+  const currentMonth = toMonth(new Date());
+  const from = searchParams.get('from') || addMonths(currentMonth, -3);
+  const to = searchParams.get('to') || addMonths(currentMonth, 5);
+  const owner = searchParams.get('owner') || '';
+  const modelType = searchParams.get('model') || '';
+  const weightByScore = searchParams.get('score') === '1';
+
+  const updateParams = useCallback((changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const filters = React.useMemo<ForecastFilters>(() => ({
+    from,
+    to,
+    ownerId: owner === 'me' ? user?.id || '' : owner,
+    modelType,
+    weightByScore,
+  }), [from, to, owner, modelType, weightByScore, user]);
+
+  const loadForecast = useCallback(async () => {
+    if (!user) return;
+    if (filters.from > filters.to) {
+      setError('The start month must be on or before the end month.');
+      setLoading(false);
+      return;
+    }
+
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    setError('');
+    try {
+      const data = await fetchForecast(filters);
+      if (requestId !== latestRequest.current) return;
+      setRows(data);
+    } catch (error) {
+      console.error('Error fetching forecast:', error);
+      if (requestId === latestRequest.current) setError('Could not load the forecast. Please try again.');
+    } finally {
+      if (requestId === latestRequest.current) setLoading(false);
+    }
+  }, [user, filters]);
+
+  useEffect(() => {
+    loadForecast();
+  }, [loadForecast]);
+
+  const months = monthsBetween(from, to);
+  const rowsFor = (month: string) => rows.filter(row => row.close_month?.slice(0, 7) === month);
+  const unscheduled = sumForecast(rows.filter(row => !row.close_month));
+  const totals = sumForecast(rows.filter(row => row.close_month));
+  const splitModels = modelType ? [] : MODEL_TYPES;
+  const maxValue = Math.max(...months.map(month => {
+    const monthTotals = sumForecast(rowsFor(month));
+    return Math.max(monthTotals.weightedValue, monthTotals.sealedValue);
+  }), 0);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Revenue Forecast</h2>
+        <p className="text-gray-600 mt-1">
+          Open pipeline weighted by stage{weightByScore ? ' and lead score' : ''}, by expected close month, against sealed revenue.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+          <div className="flex items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="month"
+                value={from}
+                max={to}
+                onChange={(e) => updateParams({ from: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="month"
+                value={to}
+                min={from}
+                onChange={(e) => updateParams({ to: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <select
+            value={modelType}
+            onChange={(e) => updateParams({ model: e.target.value })}
+            className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Model Types</option>
+            {MODEL_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+
+          {members.length > 1 && (
+            <select
+              value={owner}
+              onChange={(e) => updateParams({ owner: e.target.value })}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All Owners</option>
+              <option value="me">My Leads</option>
+              {members
+                .filter(member => member.user_id !== user?.id)
+                .map(member => (
+                  <option key={member.user_id} value={member.user_id}>
+                    {member.full_name || member.email}
+                  </option>
+                ))}
+            </select>
+          )}
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700 lg:pb-3">
+            <input
+              type="checkbox"
+              checked={weightByScore}
+              onChange={(e) => updateParams({ score: e.target.checked ? '1' : '' })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>Weight by lead score</span>
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {[
+          { label: 'Open Pipeline', value: formatCurrency(totals.pipelineValue), hint: `${totals.openLeads} leads` },
+          { label: 'Weighted Forecast', value: formatCurrency(totals.weightedValue), hint: 'Scheduled in range' },
+          { label: 'Sealed Revenue', value: formatCurrency(totals.sealedValue), hint: `${totals.sealedLeads} leads` },
+          { label: 'Unscheduled', value: formatCurrency(unscheduled.pipelineValue), hint: `${unscheduled.openLeads} leads without a close or follow-up date` },
+        ].map(stat => (
+          <div key={stat.label} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+            <p className="text-3xl font-bold text-gray-900 mt-1">{stat.value}</p>
+            <p className="text-xs text-gray-500 mt-1">{stat.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className={`lg:col-span-3 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden transition-opacity ${loading ? 'opacity-60' : ''}`}>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3 text-left">Month</th>
+                  <th className="px-4 py-3 text-right">Open</th>
+                  <th className="px-4 py-3 text-right">Pipeline</th>
+                  <th className="px-4 py-3 text-right">Forecast</th>
+                  {splitModels.map(type => (
+                    <th key={type.value} className="px-4 py-3 text-right">{type.label}</th>
+                  ))}
+                  <th className="px-4 py-3 text-right">Sealed</th>
+                  <th className="px-4 py-3 text-left w-40"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {months.map(month => {
+                  const monthRows = rowsFor(month);
+                  const monthTotals = sumForecast(monthRows);
+                  return (
+                    <tr key={month} className={month === currentMonth ? 'bg-blue-50' : ''}>
+                      <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">
+                        {formatMonth(month)}
+                        {month === currentMonth && <span className="text-xs text-blue-700 font-normal ml-2">incl. overdue</span>}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">{monthTotals.openLeads}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(monthTotals.pipelineValue)}</td>
+                      <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(monthTotals.weightedValue)}</td>
+                      {splitModels.map(type => (
+                        <td key={type.value} className="px-4 py-3 text-right text-gray-600">
+                          {formatCurrency(sumForecast(monthRows.filter(row => row.model_type === type.value)).weightedValue)}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-right font-medium text-green-700">{formatCurrency(monthTotals.sealedValue)}</td>
+                      <td className="px-4 py-3">
+                        <div className="space-y-1">
+                          <div className="h-2 bg-blue-500 rounded-sm" style={{ width: `${maxValue > 0 ? (monthTotals.weightedValue / maxValue) * 100 : 0}%` }} />
+                          <div className="h-2 bg-green-500 rounded-sm" style={{ width: `${maxValue > 0 ? (monthTotals.sealedValue / maxValue) * 100 : 0}%` }} />
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center space-x-4 text-xs text-gray-500 px-4 py-3 border-t border-gray-200">
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-3 rounded-sm bg-blue-500"></span>
+              <span>Weighted forecast</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-3 rounded-sm bg-green-500"></span>
+              <span>Sealed</span>
+            </span>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 self-start">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Stage Probabilities</h3>
+          <p className="text-xs text-gray-500 mb-4">Chance an open lead in each status is won.</p>
+          <StageProbabilities onSaved={loadForecast} />
+          {weightByScore && (
+            <p className="text-xs text-gray-500 mt-4">
+              Lead scores are read as a percentage, so a score of 60 keeps 60% of the stage-weighted amount.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, StageProbability } from '../../lib/supabase';
+
+interface StageProbabilitiesProps {
+  onSaved: () => void;
+}
+
+export const StageProbabilities: React.FC<StageProbabilitiesProps> = ({ onSaved }) => {
+  const { isAdmin } = useAuth();
+  const [stages, setStages] = useState<StageProbability[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchStages = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('stage_probabilities')
+          .select('*')
+          .order('probability');
+
+        if (error) throw error;
+        setStages(data || []);
+        setDrafts(Object.fromEntries((data || []).map(stage => [stage.status, stage.probability])));
+      } catch (error) {
+        console.error('Error fetching stage probabilities:', error);
+      }
+    };
+
+    fetchStages();
+  }, []);
+
+  const changed = stages.filter(stage => drafts[stage.status] !== stage.probability);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      for (const stage of changed) {
+        const { error } = await supabase
+          .from('stage_probabilities')
+          .update({ probability: drafts[stage.status] })
+          .eq('status', stage.status);
+
+        if (error) throw error;
+      }
+      setStages(prev => prev.map(stage => ({ ...stage, probability: drafts[stage.status] })));
+      onSaved();
+    } catch (error) {
+      console.error('Error saving stage probabilities:', error);
+      setError('Could not save probabilities. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {stages.map(stage => (
+        <div key={stage.status} className="flex items-center justify-between text-sm">
+          <span className="text-gray-700">{stage.status}</span>
+          {isAdmin ? (
+            <div className="flex items-center space-x-1">
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={drafts[stage.status] ?? 0}
+                onChange={(e) => setDrafts(prev => ({
+                  ...prev,
+                  [stage.status]: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100),
+                }))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-gray-500">%</span>
+            </div>
+          ) : (
+            <span className="font-medium text-gray-900">{stage.probability}%</span>
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isAdmin && changed.length > 0 && (
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Probabilities'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ConflictField, FieldConflict } from '../../lib/leadConflicts';
+import { LEAD_FIELD_LABELS } from '../../lib/constants';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { X, AlertCircle, Save } from 'lucide-react';
+
+export type ConflictSide = 'mine' | 'theirs';
+
+interface EditConflictModalProps {
+  conflicts: FieldConflict[];
+  saving: boolean;
+  onResolve: (choices: Partial<Record<ConflictField, ConflictSide>>) => void;
+  onCancel: () => void;
+}
+
+export const EditConflictModal: React.FC<EditConflictModalProps> = ({ conflicts, saving, onResolve, onCancel }) => {
+  const members = useTeamMembers();
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, ConflictSide>>>({});
+
+  const formatValue = (field: ConflictField, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    if (field === 'potential_amount') return formatCurrency(Number(value));
+    if (field === 'follow_up_date' || field === 'expected_close_date') return formatDate(String(value));
+    if (field === 'assigned_to') return getMemberName(members, String(value));
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">Someone Else Edited This Lead</h2>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg flex items-start space-x-2 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <p>
+              The lead was changed by someone else while you were editing it. Their other changes are kept. Choose which
+              version to keep for the fields you both changed.
+            </p>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            <div className="grid grid-cols-12 gap-4 px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <p className="col-span-3">Field</p>
+              <p className="col-span-5">Your version</p>
+              <p className="col-span-4">Their version</p>
+            </div>
+            {conflicts.map(conflict => {
+              const side = choices[conflict.field] || 'mine';
+
+              return (
+                <div key={conflict.field} className="grid grid-cols-12 gap-4 px-4 py-2 items-center text-sm">
+                  <p className="col-span-3 font-medium text-gray-700">{LEAD_FIELD_LABELS[conflict.field] || conflict.field}</p>
+                  {(['mine', 'theirs'] as ConflictSide[]).map(option => (
+                    <label
+                      key={option}
+                      className={`${option === 'mine' ? 'col-span-5' : 'col-span-4'} flex items-start space-x-2 text-gray-900`}
+                    >
+                      <input
+                        type="radio"
+                        name={conflict.field}
+                        checked={side === option}
+                        onChange={() => setChoices(prev => ({ ...prev, [conflict.field]: option }))}
+                        className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <span className="break-words min-w-0">{formatValue(conflict.field, conflict[option])}</span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Back to Form
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(choices)}
+            disabled={saving}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Save className="w-5 h-5" />
+            <span>{saving ? 'Saving...' : 'Save Merged Lead'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,29 @@
 import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase, Product, Service, Lead } from '../../lib/supabase';
+import { supabase, Product, Service, Lead, LeadProduct, LeadService, ScoringRule } from '../../lib/supabase';
+import { QuoteLineItem, calculateQuote, DEFAULT_GST_RATE } from '../../lib/quote';
+import { formatCurrency } from '../../lib/format';
+import { scoreLead } from '../../lib/scoring';
+import { DuplicateMatch, findDuplicateLeads } from '../../lib/duplicates';
+import { checkPincode, loadPincodeDirectory } from '../../lib/pincodes';
+import { parseTags } from '../../lib/normalize';
+import { ConflictField, FieldConflict, changedLeadFields, findFieldConflicts } from '../../lib/leadConflicts';
+import { QueuedItem, isNetworkError, queueLeadCreate, queueLeadUpdate, readCatalog, withLocalFallback } from '../../lib/offline';
 import { X, User, Mail, Phone, Building, Star } from 'lucide-react';
+import { QuoteLineItems } from './QuoteLineItems';
+import { useTeamMembers } from '../../hooks/useTeamMembers';
+import { DuplicateWarning } from '../duplicates/DuplicateWarning';
+import { MergeLeadsModal } from '../duplicates/MergeLeadsModal';
+import { ConflictSide, EditConflictModal } from './EditConflictModal';
+
+type LeadProductRow = Pick<LeadProduct, 'product_id' | 'quantity' | 'discount_percent' | 'unit_price'> & {
+  products: Pick<Product, 'name' | 'price'> | null;
+};
+
+type LeadServiceRow = Pick<LeadService, 'service_id' | 'quantity' | 'discount_percent' | 'unit_price'> & {
+  services: Pick<Service, 'name' | 'price'> | null;
+};
 
 interface LeadFormProps {
   lead?: Lead;
@@ -9,49 +31,166 @@ interface LeadFormProps {
   onLeadCreated: () => void;
 }
 
+interface SelectedItem {
+  id: string;
+  name: string;
+  // Price at the time the item was added to the lead
+  unit_price: number;
+  quantity: number;
+  discount_percent: number;
+}
+
+interface LineItems {
+  products: SelectedItem[];
+  services: SelectedItem[];
+}
+
+const NO_ITEMS: LineItems = { products: [], services: [] };
+
+const sameItems = (a: SelectedItem[], b: SelectedItem[]) =>
+  a.length === b.length && a.every(item => b.some(other =>
+    other.id === item.id && other.quantity === item.quantity && other.discount_percent === item.discount_percent
+  ));
+
+const describeItems = (items: SelectedItem[]) =>
+  items.map(item =>
+    `${item.name}${item.quantity > 1 ? ` x${item.quantity}` : ''}${item.discount_percent ? ` (${item.discount_percent}% off)` : ''}`
+  );
+
+const isUniqueViolation = (error: unknown) =>
+  !!error && typeof error === 'object' && 'code' in error && error.code === '23505';
+
+const toQueuedItem = (item: SelectedItem): QueuedItem => ({
+  item_id: item.id,
+  unit_price: item.unit_price,
+  quantity: item.quantity,
+  discount_percent: item.discount_percent,
+});
+
+const loadAssociations = async (leadId: string): Promise<LineItems> => {
+  const [productsResult, servicesResult] = await Promise.all([
+    supabase
+      .from('lead_products')
+      .select('product_id, quantity, discount_percent, unit_price, products(name, price)')
+      .eq('lead_id', leadId)
+      .overrideTypes<LeadProductRow[], { merge: false }>(),
+    supabase
+      .from('lead_services')
+      .select('service_id, quantity, discount_percent, unit_price, services(name, price)')
+      .eq('lead_id', leadId)
+      .overrideTypes<LeadServiceRow[], { merge: false }>(),
+  ]);
+
+  if (productsResult.error) throw productsResult.error;
+  if (servicesResult.error) throw servicesResult.error;
+
+  return {
+    products: (productsResult.data || []).map(row => ({
+      id: row.product_id,
+      name: row.products?.name || 'Unknown product',
+      unit_price: row.unit_price ?? row.products?.price ?? 0,
+      quantity: row.quantity,
+      discount_percent: row.discount_percent,
+    })),
+    services: (servicesResult.data || []).map(row => ({
+      id: row.service_id,
+      name: row.services?.name || 'Unknown service',
+      unit_price: row.unit_price ?? row.services?.price ?? 0,
+      quantity: row.quantity,
+      discount_percent: row.discount_percent,
+    })),
+  };
+};
+
 export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated }) => {
-  const { user } = useAuth();
+  const { user, canReassign } = useAuth();
+  const members = useTeamMembers();
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [activeTab, setActiveTab] = useState<'products' | 'services'>('products');
-  const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
-  const [selectedServices, setSelectedServices] = useState<string[]>([]);
+  const [selectedProducts, setSelectedProducts] = useState<SelectedItem[]>([]);
+  const [selectedServices, setSelectedServices] = useState<SelectedItem[]>([]);
+  // Associations as stored, used to diff the selection when editing
+  const [savedProducts, setSavedProducts] = useState<SelectedItem[]>([]);
+  const [savedServices, setSavedServices] = useState<SelectedItem[]>([]);
+  const [scoringRules, setScoringRules] = useState<ScoringRule[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [mergeTarget, setMergeTarget] = useState<DuplicateMatch | null>(null);
+  const [pincodeError, setPincodeError] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [saveError, setSaveError] = useState('');
+  // The lead as last saved, which edits are checked against; it moves on as soon as any part of a save lands
+  const [savedLead, setSavedLead] = useState<Lead | undefined>(lead);
+  // Set when someone else saved the lead first and changed the same fields; `stored` is their line items
+  const [conflict, setConflict] = useState<{
+    server: Lead;
+    changes: Partial<Lead>;
+    conflicts: FieldConflict[];
+    stored: LineItems;
+  } | null>(null);
 
   const [formData, setFormData] = useState({
     full_name: '',
     email: '',
     phone: '',
     company: '',
-    lead_type: 'Individual' as const,
-    model_type: 'Purchase' as const,
+    lead_type: 'Individual' as Lead['lead_type'],
+    model_type: 'Purchase' as Lead['model_type'],
     lead_score: 0,
-    status: 'New' as const,
+    lead_score_override: false,
+    status: 'New' as Lead['status'],
     potential_amount: 0,
     notes: '',
     address: '',
     location_url: '',
     pincode: 0,
+    city: '',
+    state: '',
     follow_up: false,
     follow_up_date: '',
     follow_up_notes: '',
     lead_sealed: false,
+    expected_close_date: '',
+    discount_percent: 0,
+    gst_rate: DEFAULT_GST_RATE,
+    assigned_to: null as string | null,
   });
 
-  // Calculate total amount from selected products and services
-  const calculatedAmount = React.useMemo(() => {
-    const productTotal = selectedProducts.reduce((sum, productId) => {
-      const product = products.find(p => p.id === productId);
-      return sum + (product?.price || 0);
-    }, 0);
+  // Build quote lines from selected products and services
+  const quoteLines = React.useMemo<QuoteLineItem[]>(() => {
+    const toLine = (kind: 'Product' | 'Service') => (item: SelectedItem): QuoteLineItem => ({
+      key: `${kind.toLowerCase()}:${item.id}`,
+      name: item.name,
+      kind,
+      unitPrice: item.unit_price,
+      quantity: item.quantity,
+      discountPercent: item.discount_percent,
+    });
+
+    return [
+      ...selectedProducts.map(toLine('Product')),
+      ...selectedServices.map(toLine('Service')),
+    ];
+  }, [selectedProducts, selectedServices]);
+
+  const quoteTotals = React.useMemo(
+    () => calculateQuote(quoteLines, formData.discount_percent, formData.gst_rate),
+    [quoteLines, formData.discount_percent, formData.gst_rate]
+  );
 
-    const serviceTotal = selectedServices.reduce((sum, serviceId) => {
-      const service = services.find(s => s.id === serviceId);
-      return sum + (service?.price || 0);
-    }, 0);
+  const calculatedAmount = quoteTotals.total;
 
-    return productTotal + serviceTotal;
-  }, [selectedProducts, selectedServices, products, services]);
+  // Preview only; the database applies the same rules when the lead is saved
+  const scorePreview = React.useMemo(
+    () => scoreLead({
+      ...formData,
+      pincode: formData.pincode || null,
+      follow_up_date: formData.follow_up_date || null,
+    }, scoringRules),
+    [formData, scoringRules]
+  );
 
   // Auto-update potential amount when selections change
   useEffect(() => {
@@ -63,8 +202,11 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
   useEffect(() => {
     fetchProducts();
     fetchServices();
-    
+    fetchScoringRules();
+    setSavedLead(lead);
+
     if (lead) {
+      setTagsText(lead.tags.join(', '));
       setFormData({
         full_name: lead.full_name,
         email: lead.email,
@@ -73,30 +215,92 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
         lead_type: lead.lead_type,
         model_type: lead.model_type,
         lead_score: lead.lead_score,
+        lead_score_override: lead.lead_score_override ?? false,
         status: lead.status,
         potential_amount: lead.potential_amount,
         notes: lead.notes || '',
         address: lead.address || '',
         location_url: lead.location_url || '',
         pincode: lead.pincode || 0,
+        city: lead.city || '',
+        state: lead.state || '',
         follow_up: lead.follow_up || false,
         follow_up_date: lead.follow_up_date || '',
         follow_up_notes: lead.follow_up_notes || '',
         lead_sealed: lead.lead_sealed || false,
+        expected_close_date: lead.expected_close_date || '',
+        discount_percent: lead.discount_percent ?? 0,
+        gst_rate: lead.gst_rate ?? DEFAULT_GST_RATE,
+        assigned_to: lead.assigned_to,
       });
+      fetchAssociations(lead.id);
     }
   }, [lead]);
 
+  // Check for duplicates once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        setDuplicates(await findDuplicateLeads({
+          email: formData.email,
+          phone: formData.phone,
+          full_name: formData.full_name,
+          pincode: formData.pincode || null,
+        }, lead?.id));
+      } catch (error) {
+        console.error('Error checking for duplicate leads:', error);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [formData.email, formData.phone, formData.full_name, formData.pincode, lead?.id]);
+
+  // PINs are checked against the bundled India Post dataset, which also supplies city and state
+  useEffect(() => {
+    if (!formData.pincode) {
+      setPincodeError('');
+      return;
+    }
+
+    let cancelled = false;
+    loadPincodeDirectory()
+      .then(directory => {
+        if (cancelled) return;
+        const check = checkPincode(formData.pincode, directory);
+        if (!check.valid) {
+          setPincodeError(check.error);
+          return;
+        }
+
+        setPincodeError('');
+        // Keep a saved lead's own city and state until its PIN changes
+        setFormData(prev => (formData.pincode !== (lead?.pincode || 0) || !prev.city
+          ? { ...prev, city: check.location.city, state: check.location.state }
+          : prev));
+      })
+      .catch(error => console.error('Error loading PIN codes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.pincode, lead?.pincode]);
+
   const fetchProducts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .eq('is_active', true)
-        .order('name');
+      setProducts(await withLocalFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from('products')
+            .select('*')
+            .eq('is_active', true)
+            .order('sort_order')
+            .order('name');
 
-      if (error) throw error;
-      setProducts(data || []);
+          if (error) throw error;
+          return data || [];
+        },
+        () => readCatalog<Product>('products')
+      ));
     } catch (error) {
       console.error('Error fetching products:', error);
     }
@@ -104,118 +308,396 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
 
   const fetchServices = async () => {
     try {
-      const { data, error } = await supabase
-        .from('services')
-        .select('*')
-        .eq('is_active', true)
-        .order('name');
+      setServices(await withLocalFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from('services')
+            .select('*')
+            .eq('is_active', true)
+            .order('sort_order')
+            .order('name');
 
-      if (error) throw error;
-      setServices(data || []);
+          if (error) throw error;
+          return data || [];
+        },
+        () => readCatalog<Service>('services')
+      ));
     } catch (error) {
       console.error('Error fetching services:', error);
     }
   };
 
+  const fetchScoringRules = async () => {
+    try {
+      setScoringRules(await withLocalFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from('scoring_rules')
+            .select('*')
+            .eq('is_active', true)
+            .order('sort_order')
+            .order('created_at');
+
+          if (error) throw error;
+          return data || [];
+        },
+        () => readCatalog<ScoringRule>('scoring_rules')
+      ));
+    } catch (error) {
+      console.error('Error fetching scoring rules:', error);
+    }
+  };
+
+  const fetchAssociations = async (leadId: string) => {
+    try {
+      const { products: leadProducts, services: leadServices } = await loadAssociations(leadId);
+      setSelectedProducts(leadProducts);
+      setSavedProducts(leadProducts);
+      setSelectedServices(leadServices);
+      setSavedServices(leadServices);
+    } catch (error) {
+      console.error('Error fetching lead products and services:', error);
+    }
+  };
+
+  /*
+    Line items have no version to check, so when the form changed them they're compared with the stored
+    ones instead. A list both sides changed, and to different items, is a conflict.
+  */
+  const checkItems = async (leadId: string) => {
+    if (sameItems(savedProducts, selectedProducts) && sameItems(savedServices, selectedServices)) {
+      return { stored: { products: savedProducts, services: savedServices }, conflicts: [] };
+    }
+
+    const stored = await loadAssociations(leadId);
+    const conflicts: FieldConflict[] = [];
+    for (const [field, saved, selected] of [
+      ['products', savedProducts, selectedProducts],
+      ['services', savedServices, selectedServices],
+    ] as const) {
+      if (!sameItems(selected, saved) && !sameItems(stored[field], saved) && !sameItems(stored[field], selected)) {
+        conflicts.push({ field, mine: describeItems(selected), theirs: describeItems(stored[field]) });
+      }
+    }
+    return { stored, conflicts };
+  };
+
+  // Apply the difference between the stored and selected items to a junction table
+  const syncAssociations = async (
+    table: 'lead_products' | 'lead_services',
+    column: 'product_id' | 'service_id',
+    leadId: string,
+    saved: SelectedItem[],
+    selected: SelectedItem[]
+  ) => {
+    const removed = saved.filter(item => !selected.some(s => s.id === item.id));
+    const added = selected.filter(item => !saved.some(s => s.id === item.id));
+    const changed = selected.filter(item => {
+      const original = saved.find(s => s.id === item.id);
+      return original && (
+        original.quantity !== item.quantity ||
+        original.discount_percent !== item.discount_percent
+      );
+    });
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('lead_id', leadId)
+        .in(column, removed.map(item => item.id));
+
+      if (error) throw error;
+    }
+
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from(table)
+        .insert(added.map(item => ({
+          lead_id: leadId,
+          [column]: item.id,
+          unit_price: item.unit_price,
+          quantity: item.quantity,
+          discount_percent: item.discount_percent,
+        })));
+
+      if (error) throw error;
+    }
+
+    for (const item of changed) {
+      const { error } = await supabase
+        .from(table)
+        .update({
+          quantity: item.quantity,
+          discount_percent: item.discount_percent,
+        })
+        .eq('lead_id', leadId)
+        .eq(column, item.id);
+
+      if (error) throw error;
+    }
+  };
+
+  const leadValues = () => ({
+    ...formData,
+    lead_score: formData.lead_score_override ? formData.lead_score : scorePreview.score,
+    expected_close_date: formData.expected_close_date || null,
+    pincode: formData.pincode || null,
+    city: formData.city.trim() || null,
+    state: formData.state.trim() || null,
+    tags: parseTags(tagsText),
+  });
+
+  // The database rescores the lead itself unless the score was set by hand
+  const editedFields = (base: Lead, values: ReturnType<typeof leadValues>) => {
+    const changes: Partial<Lead> = changedLeadFields(base, values);
+    if (!values.lead_score_override) delete changes.lead_score;
+    return changes;
+  };
+
+  // Queues the lead on this device; the sync fills in the same rows the online save would
+  const saveOffline = async (values: ReturnType<typeof leadValues>) => {
+    if (!user) return false;
+
+    if (savedLead) {
+      if (!sameItems(savedProducts, selectedProducts) || !sameItems(savedServices, selectedServices)) {
+        setSaveError('Products and services can only be changed while online.');
+        return false;
+      }
+      await queueLeadUpdate(savedLead, editedFields(savedLead, values));
+    } else {
+      await queueLeadCreate(
+        {
+          ...values,
+          id: crypto.randomUUID(),
+          user_id: user.id,
+          assigned_to: formData.assigned_to || user.id,
+        },
+        selectedProducts.map(toQueuedItem),
+        selectedServices.map(toQueuedItem)
+      );
+    }
+    return true;
+  };
+
+  /*
+    Sends only the changed fields, and only if nobody has saved the lead since `base` was loaded. When
+    someone has, their edits to other fields are kept and the save is retried on top of them; fields both
+    sides changed are handed to the user to resolve, along with any line item conflicts, and null is returned.
+  */
+  const updateLead = async (
+    base: Lead,
+    changes: Partial<Lead>,
+    items: { stored: LineItems; conflicts: FieldConflict[] }
+  ): Promise<Lead | null> => {
+    if (Object.keys(changes).length === 0) return base;
+
+    const { data, error } = await supabase
+      .from('leads')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', base.id)
+      .eq('updated_at', base.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) {
+      setSavedLead(data);
+      return data;
+    }
+
+    const { data: server, error: fetchError } = await supabase
+      .from('leads')
+      .select('*')
+      .eq('id', base.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!server) throw new Error('This lead was deleted while you were editing it.');
+    // Unchanged yet not updated means row level security turned the update away
+    if (server.updated_at === base.updated_at) throw new Error("You don't have permission to change this lead.");
+
+    const conflicts = findFieldConflicts(base, changes, server);
+    if (conflicts.length === 0) return updateLead(server, changes, items);
+
+    setConflict({ server, changes, conflicts: [...conflicts, ...items.conflicts], stored: items.stored });
+    return null;
+  };
+
+  /*
+    Applies the selected line items over `stored`, the lists as they are now. A list the form didn't change,
+    or that the user resolved in the other side's favour, is left as stored.
+  */
+  const finishSave = async (
+    leadData: Lead,
+    stored: LineItems,
+    choices: Partial<Record<ConflictField, ConflictSide>> = {}
+  ): Promise<void> => {
+    const target = (field: 'products' | 'services', saved: SelectedItem[], selected: SelectedItem[]) =>
+      (choices[field] === 'theirs' || sameItems(selected, saved) ? stored[field] : selected);
+    const leadProducts = target('products', savedProducts, selectedProducts);
+    const leadServices = target('services', savedServices, selectedServices);
+
+    try {
+      await syncAssociations('lead_products', 'product_id', leadData.id, stored.products, leadProducts);
+      setSavedProducts(leadProducts);
+      setSelectedProducts(leadProducts);
+      await syncAssociations('lead_services', 'service_id', leadData.id, stored.services, leadServices);
+      setSavedServices(leadServices);
+      setSelectedServices(leadServices);
+    } catch (error) {
+      // Someone else added the same item since the lists were checked
+      if (!isUniqueViolation(error)) throw error;
+      const items = await checkItems(leadData.id);
+      if (items.conflicts.length === 0) return finishSave(leadData, items.stored, choices);
+      setConflict({ server: leadData, changes: {}, conflicts: items.conflicts, stored: items.stored });
+      return;
+    }
+
+    onLeadCreated();
+
+    // Sealing a rental is when its agreement gets drawn up
+    if (leadData.model_type === 'Rent' && leadData.lead_sealed && !lead?.lead_sealed) {
+      navigate(`/leads/${leadData.id}?agreement=new`);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!user || pincodeError) return;
+
+    const values = leadValues();
 
     setLoading(true);
+    setSaveError('');
+    let leadData: Lead | null = null;
+    let items: { stored: LineItems; conflicts: FieldConflict[] } = { stored: NO_ITEMS, conflicts: [] };
     try {
-      let leadData;
-      
-      if (lead) {
-        // Update existing lead
-        const { data, error } = await supabase
-          .from('leads')
-          .update({
-            ...formData,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', lead.id)
-          .eq('user_id', user.id)
-          .select()
-          .single();
+      if (!navigator.onLine) {
+        if (await saveOffline(values)) onLeadCreated();
+        return;
+      }
 
-        if (error) throw error;
-        leadData = data;
+      if (savedLead) {
+        // Update existing lead; a line item conflict waits until the lead's own fields are saved
+        items = await checkItems(savedLead.id);
+        leadData = await updateLead(savedLead, editedFields(savedLead, values), items);
+        if (leadData && items.conflicts.length > 0) {
+          setConflict({ server: leadData, changes: {}, conflicts: items.conflicts, stored: items.stored });
+          return;
+        }
       } else {
         // Create new lead
         const { data, error } = await supabase
           .from('leads')
           .insert([{
-            ...formData,
+            ...values,
             user_id: user.id,
+            assigned_to: formData.assigned_to || user.id,
           }])
           .select()
           .single();
 
         if (error) throw error;
         leadData = data;
+        setSavedLead(data);
       }
 
-      // Handle product and service associations
-      if (leadData && !lead) {
-        // For new leads, add product associations
-        if (selectedProducts.length > 0) {
-          const productInserts = selectedProducts.map(productId => ({
-            lead_id: leadData.id,
-            product_id: productId,
-          }));
-
-          const { error: productError } = await supabase
-            .from('lead_products')
-            .insert(productInserts);
-
-          if (productError) throw productError;
+      // No lead yet means a conflict is waiting on the user
+      if (leadData) await finishSave(leadData, items.stored);
+    } catch (error) {
+      // The connection dropped before the lead itself was saved, so it's kept for the next sync
+      if (!leadData && isNetworkError(error)) {
+        try {
+          if (await saveOffline(values)) onLeadCreated();
+        } catch (queueError) {
+          console.error('Error saving lead offline:', queueError);
         }
+      } else {
+        console.error('Error saving lead:', error);
+        setSaveError(error instanceof Error ? error.message : 'Could not save the lead. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
 
-        // Add service associations
-        if (selectedServices.length > 0) {
-          const serviceInserts = selectedServices.map(serviceId => ({
-            lead_id: leadData.id,
-            service_id: serviceId,
-          }));
+  // Fields left on "theirs" are dropped from the edit, so the server's value stands
+  const handleResolveConflict = async (choices: Partial<Record<ConflictField, ConflictSide>>) => {
+    if (!conflict) return;
 
-          const { error: serviceError } = await supabase
-            .from('lead_services')
-            .insert(serviceInserts);
+    const changes = Object.fromEntries(
+      Object.entries(conflict.changes).filter(([field]) => choices[field as keyof Lead] !== 'theirs')
+    ) as Partial<Lead>;
+    const itemConflicts = conflict.conflicts.filter(item => item.field === 'products' || item.field === 'services');
 
-          if (serviceError) throw serviceError;
-        }
-      }
+    setLoading(true);
+    setSaveError('');
+    try {
+      const leadData = await updateLead(conflict.server, changes, { stored: conflict.stored, conflicts: itemConflicts });
+      if (!leadData) return;
 
-      onLeadCreated();
+      setConflict(null);
+      await finishSave(leadData, conflict.stored, choices);
     } catch (error) {
       console.error('Error saving lead:', error);
+      setConflict(null);
+      setSaveError(error instanceof Error ? error.message : 'Could not save the lead. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleProductToggle = (productId: string) => {
-    setSelectedProducts(prev => 
-      prev.includes(productId) 
-        ? prev.filter(id => id !== productId)
-        : [...prev, productId]
-    );
+  const toggleItem = (items: SelectedItem[], catalogItem: Product | Service) =>
+    items.some(item => item.id === catalogItem.id)
+      ? items.filter(item => item.id !== catalogItem.id)
+      : [...items, {
+          id: catalogItem.id,
+          name: catalogItem.name,
+          unit_price: catalogItem.price,
+          quantity: 1,
+          discount_percent: 0,
+        }];
+
+  const handleProductToggle = (product: Product) => {
+    setSelectedProducts(prev => toggleItem(prev, product));
+  };
+
+  const handleServiceToggle = (service: Service) => {
+    setSelectedServices(prev => toggleItem(prev, service));
   };
 
-  const handleServiceToggle = (serviceId: string) => {
-    setSelectedServices(prev => 
-      prev.includes(serviceId) 
-        ? prev.filter(id => id !== serviceId)
-        : [...prev, serviceId]
-    );
+  const isProductSelected = (productId: string) => selectedProducts.some(item => item.id === productId);
+
+  const isServiceSelected = (serviceId: string) => selectedServices.some(item => item.id === serviceId);
+
+  const handleLineChange = (key: string, changes: { quantity?: number; discountPercent?: number }) => {
+    const [kind, id] = key.split(':');
+    const update = (items: SelectedItem[]) =>
+      items.map(item =>
+        item.id === id
+          ? {
+              ...item,
+              quantity: changes.quantity ?? item.quantity,
+              discount_percent: changes.discountPercent ?? item.discount_percent,
+            }
+          : item
+      );
+
+    if (kind === 'product') {
+      setSelectedProducts(update);
+    } else {
+      setSelectedServices(update);
+    }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 0,
-    }).format(amount);
+  const handleLineRemove = (key: string) => {
+    const [kind, id] = key.split(':');
+    if (kind === 'product') {
+      setSelectedProducts(prev => prev.filter(item => item.id !== id));
+    } else {
+      setSelectedServices(prev => prev.filter(item => item.id !== id));
+    }
   };
 
   return (
@@ -234,6 +716,12 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-8">
+          {saveError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {saveError}
+            </div>
+          )}
+
           {/* Basic Information */}
           <div className="space-y-6">
             <h3 className="text-lg font-semibold text-gray-900">Basic Information</h3>
@@ -261,9 +749,37 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                   type="number"
                   value={formData.pincode || ''}
                   onChange={(e) => setFormData(prev => ({ ...prev, pincode: parseInt(e.target.value) || 0 }))}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    pincodeError ? 'border-red-300' : 'border-gray-300'
+                  }`}
                   placeholder="Enter PIN code"
                 />
+                {pincodeError && <p className="text-sm text-red-600 mt-1">{pincodeError}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    City
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.city}
+                    onChange={(e) => setFormData(prev => ({ ...prev, city: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    State
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.state}
+                    onChange={(e) => setFormData(prev => ({ ...prev, state: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
               </div>
 
               <div>
@@ -345,6 +861,11 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                 </div>
               </div>
             </div>
+
+            <DuplicateWarning
+              matches={duplicates}
+              onMerge={lead && canReassign ? setMergeTarget : undefined}
+            />
           </div>
 
           {/* Lead Classification */}
@@ -358,7 +879,7 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                 </label>
                 <select
                   value={formData.lead_type}
-                  onChange={(e) => setFormData(prev => ({ ...prev, lead_type: e.target.value as any }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, lead_type: e.target.value as Lead['lead_type'] }))}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="Individual">Individual</option>
@@ -374,7 +895,7 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                 </label>
                 <select
                   value={formData.model_type}
-                  onChange={(e) => setFormData(prev => ({ ...prev, model_type: e.target.value as any }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, model_type: e.target.value as Lead['model_type'] }))}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="Purchase">Purchase</option>
@@ -385,7 +906,7 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Lead Score (1-100)
+                  Lead Score (0-100)
                 </label>
                 <div className="relative">
                   <Star className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
@@ -393,109 +914,172 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                     type="number"
                     min="0"
                     max="100"
-                    value={formData.lead_score}
+                    value={formData.lead_score_override ? formData.lead_score : scorePreview.score}
                     onChange={(e) => setFormData(prev => ({ ...prev, lead_score: parseInt(e.target.value) || 0 }))}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter score (1-100)"
+                    readOnly={!formData.lead_score_override}
+                    className={`w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      formData.lead_score_override ? '' : 'bg-gray-50 text-gray-600'
+                    }`}
                   />
                 </div>
+                <label className="flex items-center space-x-2 mt-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={formData.lead_score_override}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      lead_score_override: e.target.checked,
+                      lead_score: e.target.checked ? scorePreview.score : prev.lead_score,
+                    }))}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>Set score manually</span>
+                </label>
               </div>
+
+              {canReassign && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Assigned To
+                  </label>
+                  <select
+                    value={formData.assigned_to || user?.id || ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, assigned_to: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {members.map(member => (
+                      <option key={member.user_id} value={member.user_id}>
+                        {member.full_name || member.email}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
+
+            {!formData.lead_score_override && (
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">Score breakdown</p>
+                {scorePreview.breakdown.length === 0 ? (
+                  <p className="text-sm text-gray-500">No scoring rules match this lead.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {scorePreview.breakdown.map(item => (
+                      <li key={item.rule_id} className="flex justify-between text-sm text-gray-600">
+                        <span>{item.name}</span>
+                        <span className={item.points >= 0 ? 'text-green-700' : 'text-red-700'}>
+                          {item.points > 0 ? `+${item.points}` : item.points}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Products / Services Selection */}
-          {!lead && (
-            <div className="space-y-6">
-              <h3 className="text-lg font-semibold text-gray-900">Products / Services</h3>
-              
-              <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
-                <button
-                  type="button"
-                  onClick={() => setActiveTab('products')}
-                  className={`flex-1 py-2 px-4 text-sm font-medium rounded-md transition-colors ${
-                    activeTab === 'products'
-                      ? 'bg-blue-600 text-white'
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  Products
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setActiveTab('services')}
-                  className={`flex-1 py-2 px-4 text-sm font-medium rounded-md transition-colors ${
-                    activeTab === 'services'
-                      ? 'bg-blue-600 text-white'
-                      : 'text-gray-600 hover:text-gray-900'
+          <div className="space-y-6">
+            <h3 className="text-lg font-semibold text-gray-900">Products / Services</h3>
+            
+            <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+              <button
+                type="button"
+                onClick={() => setActiveTab('products')}
+                className={`flex-1 py-2 px-4 text-sm font-medium rounded-md transition-colors ${
+                  activeTab === 'products'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                Products
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab('services')}
+                className={`flex-1 py-2 px-4 text-sm font-medium rounded-md transition-colors ${
+                  activeTab === 'services'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                Services
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {activeTab === 'products' && products.map((product) => (
+                <div
+                  key={product.id}
+                  className={`border rounded-lg p-4 cursor-pointer transition-colors ${
+                    isProductSelected(product.id)
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 hover:border-gray-300'
                   }`}
+                  onClick={() => handleProductToggle(product)}
                 >
-                  Services
-                </button>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {activeTab === 'products' && products.map((product) => (
-                  <div
-                    key={product.id}
-                    className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                      selectedProducts.includes(product.id)
-                        ? 'border-blue-500 bg-blue-50'
-                        : 'border-gray-200 hover:border-gray-300'
-                    }`}
-                    onClick={() => handleProductToggle(product.id)}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900">{product.name}</h4>
-                        {product.description && (
-                          <p className="text-sm text-gray-600 mt-1">{product.description}</p>
-                        )}
-                        <p className="text-sm font-medium text-gray-900 mt-2">
-                          {formatCurrency(product.price)}
-                        </p>
-                      </div>
-                      <input
-                        type="checkbox"
-                        checked={selectedProducts.includes(product.id)}
-                        onChange={() => handleProductToggle(product.id)}
-                        className="ml-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h4 className="font-medium text-gray-900">{product.name}</h4>
+                      {product.description && (
+                        <p className="text-sm text-gray-600 mt-1">{product.description}</p>
+                      )}
+                      <p className="text-sm font-medium text-gray-900 mt-2">
+                        {formatCurrency(product.price)}
+                      </p>
                     </div>
+                    <input
+                      type="checkbox"
+                      checked={isProductSelected(product.id)}
+                      onChange={() => handleProductToggle(product)}
+                      className="ml-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
                   </div>
-                ))}
-
-                {activeTab === 'services' && services.map((service) => (
-                  <div
-                    key={service.id}
-                    className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                      selectedServices.includes(service.id)
-                        ? 'border-blue-500 bg-blue-50'
-                        : 'border-gray-200 hover:border-gray-300'
-                    }`}
-                    onClick={() => handleServiceToggle(service.id)}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900">{service.name}</h4>
-                        {service.description && (
-                          <p className="text-sm text-gray-600 mt-1">{service.description}</p>
-                        )}
-                        <p className="text-sm font-medium text-gray-900 mt-2">
-                          {formatCurrency(service.price)}
-                        </p>
-                      </div>
-                      <input
-                        type="checkbox"
-                        checked={selectedServices.includes(service.id)}
-                        onChange={() => handleServiceToggle(service.id)}
-                        className="ml-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
+                </div>
+              ))}
+
+              {activeTab === 'services' && services.map((service) => (
+                <div
+                  key={service.id}
+                  className={`border rounded-lg p-4 cursor-pointer transition-colors ${
+                    isServiceSelected(service.id)
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                  onClick={() => handleServiceToggle(service)}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h4 className="font-medium text-gray-900">{service.name}</h4>
+                      {service.description && (
+                        <p className="text-sm text-gray-600 mt-1">{service.description}</p>
+                      )}
+                      <p className="text-sm font-medium text-gray-900 mt-2">
+                        {formatCurrency(service.price)}
+                      </p>
                     </div>
+                    <input
+                      type="checkbox"
+                      checked={isServiceSelected(service.id)}
+                      onChange={() => handleServiceToggle(service)}
+                      className="ml-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
                   </div>
-                ))}
-              </div>
+                </div>
+              ))}
             </div>
-          )}
+
+            <QuoteLineItems
+              lines={quoteLines}
+              totals={quoteTotals}
+              discountPercent={formData.discount_percent}
+              gstRate={formData.gst_rate}
+              onLineChange={handleLineChange}
+              onLineRemove={handleLineRemove}
+              onDiscountChange={(discount_percent) => setFormData(prev => ({ ...prev, discount_percent }))}
+              onGstRateChange={(gst_rate) => setFormData(prev => ({ ...prev, gst_rate }))}
+            />
+          </div>
 
           {/* Additional Information */}
           <div className="space-y-6">
@@ -507,6 +1091,18 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                   Potential Amount {!lead && calculatedAmount > 0 && (
                     <span className="text-sm text-blue-600">(Auto-calculated: {formatCurrency(calculatedAmount)})</span>
                   )}
+                  {lead && calculatedAmount !== formData.potential_amount && quoteLines.length > 0 && (
+                    <span className="text-sm text-blue-600">
+                      (Recalculated: {formatCurrency(calculatedAmount)}{' '}
+                      <button
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, potential_amount: calculatedAmount }))}
+                        className="underline hover:text-blue-800"
+                      >
+                        use
+                      </button>)
+                    </span>
+                  )}
                 </label>
                 <input
                   type="number"
@@ -525,7 +1121,7 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                 </label>
                 <select
                   value={formData.status}
-                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as any }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as Lead['status'] }))}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="New">New</option>
@@ -533,6 +1129,19 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                   <option value="Closed">Closed</option>
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Expected Close Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.expected_close_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expected_close_date: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">The forecast uses the follow-up date when this is empty.</p>
+              </div>
             </div>
 
             {/* Follow-up Section */}
@@ -598,19 +1207,44 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
                 Lead Sealed (Finalized)
               </label>
             </div>
+            {formData.model_type === 'Rent' && formData.lead_sealed && !lead?.lead_sealed && (
+              <p className="text-sm text-gray-500 -mt-4">You'll be taken to the lead to set up its rental agreement.</p>
+            )}
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Notes
+                Tags
               </label>
-              <textarea
-                value={formData.notes}
-                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
-                rows={4}
+              <input
+                type="text"
+                value={tagsText}
+                onChange={(e) => setTagsText(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Enter any additional notes..."
+                placeholder="e.g. Expo 2025, Referral"
               />
+              <p className="text-xs text-gray-500 mt-1">Separate tags with commas.</p>
             </div>
+
+            {/* After creation notes live in the lead's thread, where edits don't overwrite each other */}
+            {lead ? (
+              <p className="text-sm text-gray-500">
+                Notes are kept as a thread on the{' '}
+                <Link to={`/leads/${lead.id}`} className="text-blue-600 hover:text-blue-800">lead page</Link>.
+              </p>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  rows={4}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Enter any additional notes..."
+                />
+              </div>
+            )}
           </div>
 
           {/* Form Actions */}
@@ -624,7 +1258,7 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || !!pincodeError}
               className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {loading ? 'Saving...' : (lead ? 'Update Lead' : 'Create Lead')}
@@ -632,6 +1266,25 @@ export const LeadForm: React.FC<LeadFormProps> = ({ lead, onClose, onLeadCreated
           </div>
         </form>
       </div>
+
+      {lead && mergeTarget && (
+        <MergeLeadsModal
+          survivorId={lead.id}
+          duplicateId={mergeTarget.id}
+          onClose={() => setMergeTarget(null)}
+          onMerged={onLeadCreated}
+        />
+      )}
+
+      {conflict && (
+        <EditConflictModal
+          key={conflict.server.updated_at}
+          conflicts={conflict.conflicts}
+          saving={loading}
+          onResolve={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
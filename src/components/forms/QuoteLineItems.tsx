@@ -0,0 +1,154 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { QuoteLineItem, QuoteTotals, GST_RATES, lineTotal } from '../../lib/quote';
+import { formatCurrency } from '../../lib/format';
+
+interface QuoteLineItemsProps {
+  lines: QuoteLineItem[];
+  totals: QuoteTotals;
+  discountPercent: number;
+  gstRate: number;
+  onLineChange: (key: string, changes: { quantity?: number; discountPercent?: number }) => void;
+  onLineRemove: (key: string) => void;
+  onDiscountChange: (discountPercent: number) => void;
+  onGstRateChange: (gstRate: number) => void;
+}
+
+export const QuoteLineItems: React.FC<QuoteLineItemsProps> = ({
+  lines,
+  totals,
+  discountPercent,
+  gstRate,
+  onLineChange,
+  onLineRemove,
+  onDiscountChange,
+  onGstRateChange,
+}) => {
+  if (lines.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-4 border border-dashed border-gray-300 rounded-lg">
+        Select products or services above to build a quote.
+      </p>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+          <tr>
+            <th className="px-4 py-3 text-left">Item</th>
+            <th className="px-4 py-3 text-right">Unit Price</th>
+            <th className="px-4 py-3 text-right w-24">Qty</th>
+            <th className="px-4 py-3 text-right w-28">Discount %</th>
+            <th className="px-4 py-3 text-right">Line Total</th>
+            <th className="px-2 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {lines.map((line) => (
+            <tr key={line.key}>
+              <td className="px-4 py-3">
+                <p className="font-medium text-gray-900">{line.name}</p>
+                <p className="text-xs text-gray-500">{line.kind}</p>
+              </td>
+              <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(line.unitPrice)}</td>
+              <td className="px-4 py-3 text-right">
+                <input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) => onLineChange(line.key, { quantity: Math.max(parseInt(e.target.value) || 1, 1) })}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </td>
+              <td className="px-4 py-3 text-right">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={line.discountPercent}
+                  onChange={(e) => onLineChange(line.key, { discountPercent: parseFloat(e.target.value) || 0 })}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </td>
+              <td className="px-4 py-3 text-right font-medium text-gray-900">
+                {formatCurrency(lineTotal(line))}
+              </td>
+              <td className="px-2 py-3 text-right">
+                <button
+                  type="button"
+                  onClick={() => onLineRemove(line.key)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="bg-gray-50 border-t border-gray-200 px-4 py-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between md:justify-start md:space-x-4">
+            <label className="text-sm font-medium text-gray-700 w-36">Overall Discount %</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={discountPercent}
+              onChange={(e) => onDiscountChange(parseFloat(e.target.value) || 0)}
+              className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex items-center justify-between md:justify-start md:space-x-4">
+            <label className="text-sm font-medium text-gray-700 w-36">GST Rate</label>
+            <select
+              value={gstRate}
+              onChange={(e) => onGstRateChange(parseFloat(e.target.value))}
+              className="w-24 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {GST_RATES.map(rate => (
+                <option key={rate} value={rate}>{rate}%</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <dl className="text-sm space-y-1">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Subtotal</dt>
+            <dd className="text-gray-900">{formatCurrency(totals.subtotal)}</dd>
+          </div>
+          {totals.lineDiscount > 0 && (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Line discounts</dt>
+              <dd className="text-red-600">-{formatCurrency(totals.lineDiscount)}</dd>
+            </div>
+          )}
+          {totals.overallDiscount > 0 && (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Overall discount</dt>
+              <dd className="text-red-600">-{formatCurrency(totals.overallDiscount)}</dd>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Taxable amount</dt>
+            <dd className="text-gray-900">{formatCurrency(totals.taxableAmount)}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">GST ({gstRate}%)</dt>
+            <dd className="text-gray-900">{formatCurrency(totals.gst)}</dd>
+          </div>
+          <div className="flex justify-between pt-2 border-t border-gray-200 font-semibold">
+            <dt className="text-gray-900">Total</dt>
+            <dd className="text-gray-900">{formatCurrency(totals.total)}</dd>
+          </div>
+        </dl>
+      </div>
+    </div>
+  );
+};
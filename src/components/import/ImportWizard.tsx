@@ -0,0 +1,378 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabase';
+import { LEAD_TYPES, MODEL_TYPES } from '../../lib/constants';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportDefaults,
+  ImportField,
+  ParsedFile,
+  ValidatedRow,
+  autoMapColumns,
+  buildRejectionReport,
+  findExistingContacts,
+  parseImportFile,
+  validateRows,
+} from '../../lib/leadImport';
+import { downloadFile } from '../../lib/download';
+import { loadPincodeDirectory } from '../../lib/pincodes';
+import { X, Upload, CheckCircle, AlertCircle, Download } from 'lucide-react';
+
+interface ImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const BATCH_SIZE = 100;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImported }) => {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedFile>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaults, setDefaults] = useState<ImportDefaults>({ lead_type: 'Individual', model_type: 'Purchase' });
+  const [validated, setValidated] = useState<ValidatedRow[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [insertedCount, setInsertedCount] = useState(0);
+  const [rejected, setRejected] = useState<ValidatedRow[]>([]);
+  const [error, setError] = useState('');
+
+  const validRows = validated.filter(row => row.lead);
+  const invalidRows = validated.filter(row => !row.lead);
+
+  const handleFile = async (file: File) => {
+    setError('');
+    try {
+      const result = await parseImportFile(file);
+      if (result.rows.length === 0) {
+        setError('The file has no data rows.');
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(autoMapColumns(result.headers));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Could not read the file. Upload a CSV or Excel (.xlsx) file.');
+    }
+  };
+
+  const handleValidate = async () => {
+    setError('');
+    try {
+      const [existing, pincodes] = await Promise.all([
+        findExistingContacts(parsed.rows, mapping),
+        loadPincodeDirectory(),
+      ]);
+
+      setValidated(validateRows(parsed.rows, mapping, defaults, existing, pincodes));
+      setStep('preview');
+    } catch (err) {
+      console.error('Error validating import rows:', err);
+      setError('Could not check the rows against existing leads and PIN codes.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    setStep('importing');
+    setProgress(0);
+
+    let inserted = 0;
+    const failed: ValidatedRow[] = [];
+
+    for (let start = 0; start < validRows.length; start += BATCH_SIZE) {
+      const batch = validRows.slice(start, start + BATCH_SIZE);
+      const { error } = await supabase
+        .from('leads')
+        .insert(batch.map(row => ({ ...row.lead, user_id: user.id })));
+
+      if (error) {
+        console.error('Error importing leads batch:', error);
+        failed.push(...batch.map(row => ({ ...row, errors: [`Insert failed: ${error.message}`] })));
+      } else {
+        inserted += batch.length;
+      }
+      setProgress(Math.min(start + BATCH_SIZE, validRows.length));
+    }
+
+    setInsertedCount(inserted);
+    setRejected([...invalidRows, ...failed].sort((a, b) => a.rowNumber - b.rowNumber));
+    setStep('done');
+    if (inserted > 0) onImported();
+  };
+
+  const handleDownloadReport = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    downloadFile(buildRejectionReport(rejected, parsed.headers), `${baseName}-rejected.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const setFieldMapping = (field: ImportField, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column) {
+        next[field] = column;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && !mapping[field.key]);
+  const previewRows = showErrorsOnly ? invalidRows : validated;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Import Leads</h2>
+            {fileName && <p className="text-sm text-gray-500 mt-1">{fileName} · {parsed.rows.length} rows</p>}
+          </div>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-xl p-12 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+              <Upload className="w-10 h-10 text-gray-400 mb-4" />
+              <span className="font-medium text-gray-900">Choose a CSV or Excel file</span>
+              <span className="text-sm text-gray-500 mt-1">The first row must contain column headers</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </label>
+          )}
+
+          {step === 'map' && (
+            <div className="space-y-6">
+              <h3 className="text-lg font-semibold text-gray-900">Map Columns</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.key} className="flex items-center justify-between gap-4">
+                    <label className="text-sm font-medium text-gray-700">
+                      {field.label}{field.required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field.key] || ''}
+                      onChange={(e) => setFieldMapping(field.key, e.target.value)}
+                      className="w-56 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">— Skip —</option>
+                      {parsed.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {(!mapping.lead_type || !mapping.model_type) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pl-6 border-l-2 border-blue-200">
+                  {!mapping.lead_type && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Lead type for all rows</label>
+                      <select
+                        value={defaults.lead_type}
+                        onChange={(e) => setDefaults(prev => ({ ...prev, lead_type: e.target.value as ImportDefaults['lead_type'] }))}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                      >
+                        {LEAD_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {!mapping.model_type && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Model type for all rows</label>
+                      <select
+                        value={defaults.model_type}
+                        onChange={(e) => setDefaults(prev => ({ ...prev, model_type: e.target.value as ImportDefaults['model_type'] }))}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                      >
+                        {MODEL_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map the required fields: {missingRequired.map(field => field.label).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <span className="flex items-center space-x-2 text-green-700">
+                  <CheckCircle className="w-5 h-5" />
+                  <span>{validRows.length} ready to import</span>
+                </span>
+                <span className="flex items-center space-x-2 text-red-700">
+                  <AlertCircle className="w-5 h-5" />
+                  <span>
+                    {invalidRows.length} with errors
+                    {invalidRows.some(row => row.duplicateOf) && (
+                      <> ({invalidRows.filter(row => row.duplicateOf).length} duplicates)</>
+                    )}
+                  </span>
+                </span>
+                <label className="flex items-center space-x-2 text-sm text-gray-600 ml-auto">
+                  <input
+                    type="checkbox"
+                    checked={showErrorsOnly}
+                    onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>Show only rows with errors</span>
+                </label>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Row</th>
+                      <th className="px-4 py-2 text-left">Name</th>
+                      <th className="px-4 py-2 text-left">Email</th>
+                      <th className="px-4 py-2 text-left">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {previewRows.map(row => (
+                      <tr key={row.rowNumber} className={row.lead ? '' : 'bg-red-50'}>
+                        <td className="px-4 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-4 py-2 text-gray-900">{mapping.full_name && row.source[mapping.full_name]}</td>
+                        <td className="px-4 py-2 text-gray-600">{mapping.email && row.source[mapping.email]}</td>
+                        <td className="px-4 py-2">
+                          {row.lead ? (
+                            <span className="text-green-700">OK</span>
+                          ) : (
+                            <ul className="text-red-700 text-xs space-y-0.5">
+                              {row.errors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-12 text-center space-y-4">
+              <p className="text-gray-700">Importing {progress} of {validRows.length} leads...</p>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${validRows.length ? (progress / validRows.length) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="py-8 text-center space-y-4">
+              <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+              <p className="text-lg font-medium text-gray-900">Imported {insertedCount} leads</p>
+              {rejected.length > 0 && (
+                <>
+                  <p className="text-gray-600">{rejected.length} rows were rejected.</p>
+                  <button
+                    onClick={handleDownloadReport}
+                    className="inline-flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download rejected rows</span>
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          {step === 'map' && (
+            <>
+              <button
+                type="button"
+                onClick={() => setStep('upload')}
+                className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleValidate}
+                disabled={missingRequired.length > 0}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Validate
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button
+                type="button"
+                onClick={() => setStep('map')}
+                className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={validRows.length === 0}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Import {validRows.length} Leads
+              </button>
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
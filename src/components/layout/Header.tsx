@@ -1,9 +1,37 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { NavLink } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { LogOut, User, FileText } from 'lucide-react';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { PendingChangesModal } from '../sync/PendingChangesModal';
+import { LogOut, User, FileText, WifiOff, RefreshCw, UploadCloud } from 'lucide-react';
 
 export const Header: React.FC = () => {
-  const { user, signOut } = useAuth();
+  const { user, isAdmin, signOut } = useAuth();
+  const syncStatus = useSyncStatus();
+  const [showPending, setShowPending] = useState(false);
+
+  // Signing out clears this device's cache, queued changes included
+  const handleSignOut = async () => {
+    if (syncStatus?.pending && !confirm(`${syncStatus.pending} change(s) haven't synced yet and will be lost. Sign out anyway?`)) return;
+
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  const navItems: { to: string; label: string; visible: boolean }[] = [
+    { to: '/leads', label: 'Leads', visible: true },
+    { to: '/follow-ups', label: 'Follow-ups', visible: true },
+    { to: '/analytics', label: 'Analytics', visible: true },
+    { to: '/forecast', label: 'Forecast', visible: true },
+    { to: '/rentals', label: 'Rentals', visible: true },
+    { to: '/catalog', label: 'Catalog', visible: isAdmin },
+    { to: '/scoring', label: 'Scoring', visible: isAdmin },
+    { to: '/territories', label: 'Territories', visible: isAdmin },
+    { to: '/team', label: 'Team', visible: isAdmin },
+  ];
 
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
@@ -16,15 +44,63 @@ export const Header: React.FC = () => {
             <h1 className="text-2xl font-bold text-gray-900">
               Leads
             </h1>
+
+            <nav className="flex items-center space-x-1 pl-6">
+              {navItems.filter(item => item.visible).map(item => (
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  className={({ isActive }) => `px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                    isActive
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  {item.label}
+                </NavLink>
+              ))}
+            </nav>
           </div>
 
           <div className="flex items-center space-x-4">
-            <div className="flex items-center space-x-2 text-gray-600">
+            {syncStatus && (!syncStatus.online || syncStatus.pending > 0) && (
+              <button
+                onClick={() => setShowPending(true)}
+                title={syncStatus.online ? 'Changes waiting to sync' : "You're offline"}
+                className={`flex items-center space-x-2 px-3 py-1 text-sm rounded-full transition-colors ${
+                  syncStatus.conflicts > 0
+                    ? 'bg-red-100 text-red-800 hover:bg-red-200'
+                    : syncStatus.online
+                      ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {!syncStatus.online ? (
+                  <WifiOff className="w-4 h-4" />
+                ) : syncStatus.syncing ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : (
+                  <UploadCloud className="w-4 h-4" />
+                )}
+                <span>
+                  {!syncStatus.online && 'Offline'}
+                  {!syncStatus.online && syncStatus.pending > 0 && ' · '}
+                  {syncStatus.pending > 0 && `${syncStatus.pending} pending`}
+                </span>
+              </button>
+            )}
+            <NavLink
+              to="/account"
+              title="Account settings"
+              className={({ isActive }) => `flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                isActive ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+              }`}
+            >
               <User className="w-5 h-5" />
               <span className="text-sm">{user?.email}</span>
-            </div>
+            </NavLink>
             <button
-              onClick={signOut}
+              onClick={handleSignOut}
               className="flex items-center space-x-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
             >
               <LogOut className="w-4 h-4" />
@@ -33,6 +109,8 @@ export const Header: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {showPending && <PendingChangesModal onClose={() => setShowPending(false)} />}
     </header>
   );
-};
\ No newline at end of file
+};
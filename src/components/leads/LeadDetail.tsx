@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase, Lead } from '../../lib/supabase';
+import { LEAD_STATUS_COLORS } from '../../lib/constants';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { scoreTooltip } from '../../lib/scoring';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { useTerritories, getTerritoryName } from '../../hooks/useTerritories';
+import { LeadForm } from '../forms/LeadForm';
+import { LeadTimeline } from '../activity/LeadTimeline';
+import { LeadItems } from './LeadItems';
+import { LeadNotes } from './LeadNotes';
+import { LeadQuotations } from '../quotations/LeadQuotations';
+import { LeadRental } from '../rentals/LeadRental';
+import { ArrowLeft, Edit, Link as LinkIcon, Mail, Phone, MapPin, Star, Check } from 'lucide-react';
+
+export const LeadDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const members = useTeamMembers();
+  const territories = useTerritories();
+  const [lead, setLead] = useState<Lead | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const fetchLead = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setLead(data);
+    } catch (error) {
+      console.error('Error fetching lead:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchLead();
+  }, [fetchLead]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!lead) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Lead not found</h3>
+          <p className="text-gray-500 mb-4">It may have been deleted, merged, or you may not have access to it.</p>
+          <Link to="/leads" className="text-blue-600 hover:text-blue-800">Back to leads</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const details: { label: string; value: React.ReactNode }[] = [
+    { label: 'Lead Type', value: lead.lead_type },
+    { label: 'Model Type', value: lead.model_type },
+    { label: 'Potential Amount', value: formatCurrency(lead.potential_amount) },
+    { label: 'Owner', value: getMemberName(members, lead.assigned_to) },
+    {
+      label: 'Follow-up',
+      value: lead.follow_up
+        ? `Required${lead.follow_up_date ? ` · ${formatDate(lead.follow_up_date)}` : ''}`
+        : 'None',
+    },
+    { label: 'Expected Close', value: lead.expected_close_date ? formatDate(lead.expected_close_date) : '—' },
+    { label: 'Sealed', value: lead.lead_sealed ? `Yes${lead.sealed_at ? ` · ${formatDate(lead.sealed_at)}` : ''}` : 'No' },
+    { label: 'Added', value: formatDate(lead.created_at) },
+    { label: 'Last Updated', value: formatDate(lead.updated_at) },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <Link to="/leads" className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to leads</span>
+      </Link>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h2 className="text-2xl font-bold text-gray-900">{lead.full_name}</h2>
+              <span className={`text-xs px-2 py-1 rounded-full ${LEAD_STATUS_COLORS[lead.status] || 'bg-gray-100 text-gray-800'}`}>{lead.status}</span>
+            </div>
+            {lead.company && <p className="text-gray-600 mt-1">{lead.company}</p>}
+            {lead.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {lead.tags.map(tag => (
+                  <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{tag}</span>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-gray-600">
+              <a href={`mailto:${lead.email}`} className="flex items-center space-x-1 hover:text-blue-700">
+                <Mail className="w-4 h-4" />
+                <span>{lead.email}</span>
+              </a>
+              {lead.phone && (
+                <a href={`tel:${lead.phone}`} className="flex items-center space-x-1 hover:text-blue-700">
+                  <Phone className="w-4 h-4" />
+                  <span>{lead.phone}</span>
+                </a>
+              )}
+              <span className="flex items-center space-x-1" title={scoreTooltip(lead)}>
+                <Star className="w-4 h-4" />
+                <span>Score {lead.lead_score}{lead.lead_score_override ? ' (manual)' : ''}</span>
+              </span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleCopyLink}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-600" /> : <LinkIcon className="w-4 h-4" />}
+              <span>{copied ? 'Copied' : 'Copy Link'}</span>
+            </button>
+            <button
+              onClick={() => setEditing(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+            >
+              <Edit className="w-4 h-4" />
+              <span>Edit</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Details</h3>
+            <dl className="space-y-3">
+              {details.map(detail => (
+                <div key={detail.label} className="flex justify-between gap-4 text-sm">
+                  <dt className="text-gray-500">{detail.label}</dt>
+                  <dd className="text-gray-900 text-right">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          {(lead.address || lead.pincode || lead.city || lead.location_url) && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Location</h3>
+              {lead.address && <p className="text-sm text-gray-700 whitespace-pre-line">{lead.address}</p>}
+              {(lead.city || lead.state) && (
+                <p className="text-sm text-gray-700 mt-1">{[lead.city, lead.state].filter(Boolean).join(', ')}</p>
+              )}
+              {lead.pincode ? <p className="text-sm text-gray-500 mt-1">PIN {lead.pincode}</p> : null}
+              {lead.pincode ? <p className="text-sm text-gray-500 mt-1">Territory: {getTerritoryName(territories, lead.territory_id)}</p> : null}
+              {lead.location_url && (
+                <a
+                  href={lead.location_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 mt-2"
+                >
+                  <MapPin className="w-4 h-4" />
+                  <span>Open map</span>
+                </a>
+              )}
+            </div>
+          )}
+
+          {lead.follow_up_notes && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Follow-up Notes</h3>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{lead.follow_up_notes}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Products & Services</h3>
+            <LeadItems lead={lead} />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Quotations</h3>
+            <LeadQuotations lead={lead} />
+          </div>
+
+          {lead.model_type === 'Rent' && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Rental Agreement</h3>
+              <LeadRental lead={lead} />
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Notes</h3>
+            <LeadNotes leadId={lead.id} />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Activity</h3>
+            <LeadTimeline key={lead.updated_at} leadId={lead.id} />
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <LeadForm
+          lead={lead}
+          onClose={() => setEditing(false)}
+          onLeadCreated={() => {
+            setEditing(false);
+            fetchLead();
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useOutletContext, useParams, useLocation } from 'react-router-dom';
+import { supabase, Lead } from '../../lib/supabase';
+import { LeadForm } from '../forms/LeadForm';
+import { readLocalLead, withLocalFallback } from '../../lib/offline';
+import type { DashboardOutletContext } from '../dashboard/Dashboard';
+
+// Renders the lead form over the leads list for /leads/:id/edit, keeping the list's query string
+export const LeadEditRoute: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { refresh } = useOutletContext<DashboardOutletContext>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [lead, setLead] = useState<Lead | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchLead = async () => {
+      try {
+        const data = await withLocalFallback(
+          async () => {
+            const { data, error } = await supabase
+              .from('leads')
+              .select('*')
+              .eq('id', id)
+              .maybeSingle();
+
+            if (error) throw error;
+            return data;
+          },
+          async () => (await readLocalLead(id)) || null
+        );
+
+        if (!data) {
+          navigate({ pathname: '/leads', search: location.search }, { replace: true });
+          return;
+        }
+        setLead(data);
+      } catch (error) {
+        console.error('Error fetching lead:', error);
+      }
+    };
+
+    fetchLead();
+  }, [id, navigate, location.search]);
+
+  const close = () => navigate({ pathname: '/leads', search: location.search });
+
+  if (!lead) return null;
+
+  return (
+    <LeadForm
+      lead={lead}
+      onClose={close}
+      onLeadCreated={() => {
+        close();
+        refresh();
+      }}
+    />
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Lead } from '../../lib/supabase';
+import { QuoteLineItem, calculateQuote, lineTotal, DEFAULT_GST_RATE } from '../../lib/quote';
+import { fetchLeadLineItems } from '../../lib/leadItems';
+import { formatCurrency } from '../../lib/format';
+
+interface LeadItemsProps {
+  lead: Lead;
+}
+
+// Read-only view of the products and services quoted on a lead
+export const LeadItems: React.FC<LeadItemsProps> = ({ lead }) => {
+  const [lines, setLines] = useState<QuoteLineItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchItems = async () => {
+      try {
+        setLines(await fetchLeadLineItems(lead.id));
+      } catch (error) {
+        console.error('Error fetching lead items:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchItems();
+  }, [lead.id, lead.updated_at]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-gray-500">No products or services on this lead yet.</p>;
+  }
+
+  const gstRate = lead.gst_rate ?? DEFAULT_GST_RATE;
+  const totals = calculateQuote(lines, lead.discount_percent ?? 0, gstRate);
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+          <tr>
+            <th className="px-4 py-3 text-left">Item</th>
+            <th className="px-4 py-3 text-right">Unit Price</th>
+            <th className="px-4 py-3 text-right">Qty</th>
+            <th className="px-4 py-3 text-right">Discount %</th>
+            <th className="px-4 py-3 text-right">Line Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {lines.map(line => (
+            <tr key={line.key}>
+              <td className="px-4 py-3">
+                <p className="font-medium text-gray-900">{line.name}</p>
+                <p className="text-xs text-gray-500">{line.kind}</p>
+              </td>
+              <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(line.unitPrice)}</td>
+              <td className="px-4 py-3 text-right text-gray-700">{line.quantity}</td>
+              <td className="px-4 py-3 text-right text-gray-700">{line.discountPercent}</td>
+              <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(lineTotal(line))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <dl className="bg-gray-50 border-t border-gray-200 px-4 py-4 text-sm space-y-1">
+        <div className="flex justify-between">
+          <dt className="text-gray-600">Subtotal</dt>
+          <dd className="text-gray-900">{formatCurrency(totals.subtotal)}</dd>
+        </div>
+        {totals.lineDiscount > 0 && (
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Line discounts</dt>
+            <dd className="text-red-600">-{formatCurrency(totals.lineDiscount)}</dd>
+          </div>
+        )}
+        {totals.overallDiscount > 0 && (
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Overall discount ({lead.discount_percent}%)</dt>
+            <dd className="text-red-600">-{formatCurrency(totals.overallDiscount)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <dt className="text-gray-600">GST ({gstRate}%)</dt>
+          <dd className="text-gray-900">{formatCurrency(totals.gst)}</dd>
+        </div>
+        <div className="flex justify-between pt-2 border-t border-gray-200 font-semibold">
+          <dt className="text-gray-900">Total</dt>
+          <dd className="text-gray-900">{formatCurrency(totals.total)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, LeadNote, LeadNoteRevision } from '../../lib/supabase';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { Pin, PinOff, Edit, Trash2, Reply, History } from 'lucide-react';
+
+interface LeadNotesProps {
+  leadId: string;
+}
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export const LeadNotes: React.FC<LeadNotesProps> = ({ leadId }) => {
+  const { user, canReassign } = useAuth();
+  const members = useTeamMembers();
+  const [notes, setNotes] = useState<LeadNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<LeadNoteRevision[]>([]);
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_notes')
+        .select('*')
+        .eq('lead_id', leadId)
+        .order('created_at');
+
+      if (error) throw error;
+      setNotes(data || []);
+    } catch (error) {
+      console.error('Error fetching lead notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  const addNote = async (body: string, parentId: string | null) => {
+    if (!user || !body.trim()) return false;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('lead_notes')
+        .insert([{
+          lead_id: leadId,
+          parent_id: parentId,
+          author_id: user.id,
+          body: body.trim(),
+        }]);
+
+      if (error) throw error;
+      await fetchNotes();
+      return true;
+    } catch (error) {
+      console.error('Error adding note:', error);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await addNote(draft, null)) setDraft('');
+  };
+
+  const handleReply = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (await addNote(replyDraft, parentId)) {
+      setReplyDraft('');
+      setReplyTo(null);
+    }
+  };
+
+  const handleEdit = async (e: React.FormEvent, note: LeadNote) => {
+    e.preventDefault();
+    if (!editDraft.trim()) return;
+
+    setSaving(true);
+    try {
+      if (editDraft.trim() !== note.body) {
+        const { error } = await supabase
+          .from('lead_notes')
+          .update({ body: editDraft.trim() })
+          .eq('id', note.id);
+
+        if (error) throw error;
+      }
+      setEditingId(null);
+      if (historyId === note.id) setHistoryId(null);
+      fetchNotes();
+    } catch (error) {
+      console.error('Error updating note:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePin = async (note: LeadNote) => {
+    try {
+      const { error } = await supabase
+        .from('lead_notes')
+        .update({ is_pinned: !note.is_pinned })
+        .eq('id', note.id);
+
+      if (error) throw error;
+      fetchNotes();
+    } catch (error) {
+      console.error('Error pinning note:', error);
+    }
+  };
+
+  const deleteNote = async (note: LeadNote) => {
+    if (!confirm('Delete this note and its replies?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('lead_notes')
+        .delete()
+        .eq('id', note.id);
+
+      if (error) throw error;
+      fetchNotes();
+    } catch (error) {
+      console.error('Error deleting note:', error);
+    }
+  };
+
+  const toggleHistory = async (noteId: string) => {
+    if (historyId === noteId) {
+      setHistoryId(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('lead_note_revisions')
+        .select('*')
+        .eq('note_id', noteId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRevisions(data || []);
+      setHistoryId(noteId);
+    } catch (error) {
+      console.error('Error fetching note history:', error);
+    }
+  };
+
+  // Pinned notes first, then oldest to newest so the thread reads top-down
+  const topLevel = notes
+    .filter(note => !note.parent_id)
+    .sort((a, b) => Number(b.is_pinned) - Number(a.is_pinned));
+  const repliesFor = (noteId: string) => notes.filter(note => note.parent_id === noteId);
+
+  const renderNote = (note: LeadNote, isReply: boolean) => {
+    const isAuthor = !!user && note.author_id === user.id;
+
+    return (
+      <div
+        key={note.id}
+        className={`rounded-lg border p-4 ${note.is_pinned ? 'border-amber-200 bg-amber-50' : 'border-gray-200'} ${isReply ? 'ml-8' : ''}`}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-sm">
+            <span className="font-medium text-gray-900">{getMemberName(members, note.author_id)}</span>
+            <span className="text-gray-500"> · {formatTimestamp(note.created_at)}</span>
+            {note.edited_at && (
+              <button
+                type="button"
+                onClick={() => toggleHistory(note.id)}
+                className="text-gray-500 hover:text-gray-700 ml-1"
+                title={`Edited ${formatTimestamp(note.edited_at)}`}
+              >
+                (edited)
+              </button>
+            )}
+          </p>
+          <div className="flex items-center space-x-2 text-gray-400">
+            {!isReply && (
+              <button
+                type="button"
+                onClick={() => togglePin(note)}
+                className="hover:text-amber-600"
+                title={note.is_pinned ? 'Unpin' : 'Pin to top'}
+              >
+                {note.is_pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              </button>
+            )}
+            {!isReply && (
+              <button
+                type="button"
+                onClick={() => {
+                  setReplyTo(replyTo === note.id ? null : note.id);
+                  setReplyDraft('');
+                }}
+                className="hover:text-blue-600"
+                title="Reply"
+              >
+                <Reply className="w-4 h-4" />
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(note.id);
+                  setEditDraft(note.body);
+                }}
+                className="hover:text-blue-600"
+                title="Edit"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+            )}
+            {(isAuthor || canReassign) && (
+              <button
+                type="button"
+                onClick={() => deleteNote(note)}
+                className="hover:text-red-600"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {editingId === note.id ? (
+          <form onSubmit={(e) => handleEdit(e, note)} className="mt-2 space-y-2">
+            <textarea
+              value={editDraft}
+              onChange={(e) => setEditDraft(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || !editDraft.trim()}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-700 whitespace-pre-line mt-2">{note.body}</p>
+        )}
+
+        {historyId === note.id && (
+          <div className="mt-3 border-t border-gray-200 pt-3 space-y-2">
+            <p className="flex items-center space-x-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <History className="w-3 h-3" />
+              <span>Previous versions</span>
+            </p>
+            {revisions.map(revision => (
+              <div key={revision.id} className="text-sm">
+                <p className="text-xs text-gray-500">
+                  Replaced by {getMemberName(members, revision.edited_by)} on {formatTimestamp(revision.created_at)}
+                </p>
+                <p className="text-gray-600 whitespace-pre-line">{revision.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={3}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Add a note..."
+        />
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving || !draft.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add Note
+          </button>
+        </div>
+      </form>
+
+      {topLevel.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No notes yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {topLevel.map(note => (
+            <div key={note.id} className="space-y-2">
+              {renderNote(note, false)}
+              {repliesFor(note.id).map(reply => renderNote(reply, true))}
+              {replyTo === note.id && (
+                <form onSubmit={(e) => handleReply(e, note.id)} className="ml-8 flex items-start space-x-2">
+                  <textarea
+                    value={replyDraft}
+                    onChange={(e) => setReplyDraft(e.target.value)}
+                    rows={2}
+                    autoFocus
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Write a reply..."
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving || !replyDraft.trim()}
+                    className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Reply
+                  </button>
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
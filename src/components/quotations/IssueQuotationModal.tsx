@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, Lead, QuotationSettings } from '../../lib/supabase';
+import { QuoteLineItem } from '../../lib/quote';
+import { fetchLeadLineItems } from '../../lib/leadItems';
+import { buildQuotationContent, downloadQuotationPdf } from '../../lib/quotation';
+import { formatCurrency } from '../../lib/format';
+import { addDays, todayISO } from '../../lib/dates';
+import { X, FileText } from 'lucide-react';
+
+interface IssueQuotationModalProps {
+  lead: Lead;
+  onClose: () => void;
+  onIssued: () => void;
+}
+
+export const IssueQuotationModal: React.FC<IssueQuotationModalProps> = ({ lead, onClose, onIssued }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<QuotationSettings | null>(null);
+  const [lines, setLines] = useState<QuoteLineItem[]>([]);
+  const [validUntil, setValidUntil] = useState('');
+  const [terms, setTerms] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [issuing, setIssuing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [settingsResult, leadLines] = await Promise.all([
+          supabase.from('quotation_settings').select('*').maybeSingle(),
+          fetchLeadLineItems(lead.id),
+        ]);
+
+        if (settingsResult.error) throw settingsResult.error;
+        if (!settingsResult.data) throw new Error('Quotation settings are missing');
+
+        setSettings(settingsResult.data);
+        setLines(leadLines);
+        setValidUntil(addDays(todayISO(), settingsResult.data.validity_days));
+        setTerms(settingsResult.data.terms);
+      } catch (error) {
+        console.error('Error preparing quotation:', error);
+        setError('Could not load the lead items or quotation settings.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [lead.id]);
+
+  const content = settings ? buildQuotationContent(lead, lines, settings, terms) : null;
+
+  const handleIssue = async () => {
+    if (!user || !content) return;
+
+    setIssuing(true);
+    setError('');
+    try {
+      // Number and version are assigned by the database
+      const { data, error } = await supabase
+        .from('quotations')
+        .insert([{
+          lead_id: lead.id,
+          issued_by: user.id,
+          valid_until: validUntil,
+          total: content.totals.total,
+          content,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      downloadQuotationPdf(data);
+      onIssued();
+    } catch (error) {
+      console.error('Error issuing quotation:', error);
+      setError('Could not issue the quotation. Please try again.');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Issue Quotation</h2>
+            <p className="text-sm text-gray-500 mt-1">For {lead.full_name}{lead.company ? `, ${lead.company}` : ''}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : content && (
+            <>
+              {lines.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4 border border-dashed border-gray-300 rounded-lg">
+                  Add products or services to the lead before issuing a quotation.
+                </p>
+              ) : (
+                <dl className="text-sm space-y-1 bg-gray-50 rounded-lg p-4">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">{lines.length} line {lines.length === 1 ? 'item' : 'items'}</dt>
+                    <dd className="text-gray-900">{formatCurrency(content.totals.subtotal)}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">GST ({content.gst_rate}%)</dt>
+                    <dd className="text-gray-900">{formatCurrency(content.totals.gst)}</dd>
+                  </div>
+                  <div className="flex justify-between pt-2 border-t border-gray-200 font-semibold">
+                    <dt className="text-gray-900">Total</dt>
+                    <dd className="text-gray-900">{formatCurrency(content.totals.total)}</dd>
+                  </div>
+                </dl>
+              )}
+
+              {!content.letterhead.company_name && (
+                <p className="text-sm text-amber-700">
+                  The letterhead has no company name yet. An admin can set it under Catalog.
+                </p>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Valid Until
+                </label>
+                <input
+                  type="date"
+                  value={validUntil}
+                  min={todayISO()}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Terms & Conditions
+                </label>
+                <textarea
+                  value={terms}
+                  onChange={(e) => setTerms(e.target.value)}
+                  rows={6}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleIssue}
+            disabled={!content || lines.length === 0 || !validUntil || issuing}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <FileText className="w-5 h-5" />
+            <span>{issuing ? 'Issuing...' : 'Issue & Download PDF'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
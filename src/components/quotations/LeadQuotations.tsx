@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, Lead, Quotation } from '../../lib/supabase';
+import { downloadQuotationPdf, printQuotation } from '../../lib/quotation';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { FileText, Download, Printer, Plus } from 'lucide-react';
+import { IssueQuotationModal } from './IssueQuotationModal';
+
+interface LeadQuotationsProps {
+  lead: Lead;
+}
+
+export const LeadQuotations: React.FC<LeadQuotationsProps> = ({ lead }) => {
+  const members = useTeamMembers();
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [issuing, setIssuing] = useState(false);
+
+  const fetchQuotations = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quotations')
+        .select('*')
+        .eq('lead_id', lead.id)
+        .order('issued_at', { ascending: false });
+
+      if (error) throw error;
+      setQuotations(data || []);
+    } catch (error) {
+      console.error('Error fetching quotations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [lead.id]);
+
+  useEffect(() => {
+    fetchQuotations();
+  }, [fetchQuotations]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          onClick={() => setIssuing(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{quotations.length > 0 ? 'Issue New Version' : 'Create Quotation'}</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : quotations.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No quotations issued yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {quotations.map(quotation => (
+            <div key={quotation.id} className="flex items-center gap-4 px-4 py-3">
+              <FileText className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {quotation.quote_number} <span className="text-gray-500 font-normal">v{quotation.version}</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  Issued {formatDate(quotation.issued_at)} by {getMemberName(members, quotation.issued_by)} · Valid until {formatDate(quotation.valid_until)}
+                </p>
+              </div>
+              <p className="text-sm font-medium text-gray-900">{formatCurrency(quotation.total)}</p>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => downloadQuotationPdf(quotation)}
+                  className="text-blue-600 hover:text-blue-800"
+                  title="Download PDF"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => printQuotation(quotation)}
+                  className="text-gray-600 hover:text-gray-900"
+                  title="Print"
+                >
+                  <Printer className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {issuing && (
+        <IssueQuotationModal
+          lead={lead}
+          onClose={() => setIssuing(false)}
+          onIssued={() => {
+            setIssuing(false);
+            fetchQuotations();
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, QuotationSettings } from '../../lib/supabase';
+import { Save } from 'lucide-react';
+
+// Letterhead and defaults used when issuing quotations; only admins reach this form
+export const QuotationSettingsForm: React.FC = () => {
+  const [formData, setFormData] = useState<QuotationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('quotation_settings')
+          .select('*')
+          .maybeSingle();
+
+        if (error) throw error;
+        setFormData(data);
+      } catch (error) {
+        console.error('Error fetching quotation settings:', error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    setSaving(true);
+    setMessage('');
+    try {
+      const { error } = await supabase
+        .from('quotation_settings')
+        .update({
+          company_name: formData.company_name.trim(),
+          address: formData.address.trim(),
+          phone: formData.phone.trim(),
+          email: formData.email.trim(),
+          gstin: formData.gstin.trim(),
+          terms: formData.terms,
+          validity_days: formData.validity_days,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+      setMessage('Saved. New quotations will use these details.');
+    } catch (error) {
+      console.error('Error saving quotation settings:', error);
+      setMessage('Could not save the settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!formData) return null;
+
+  const update = (changes: Partial<QuotationSettings>) => setFormData(prev => (prev ? { ...prev, ...changes } : prev));
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Quotation Letterhead & Terms</h3>
+        <p className="text-sm text-gray-500 mt-1">Already issued quotations keep the details they were sent with.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Company Name</label>
+          <input
+            type="text"
+            value={formData.company_name}
+            onChange={(e) => update({ company_name: e.target.value })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN</label>
+          <input
+            type="text"
+            value={formData.gstin}
+            onChange={(e) => update({ gstin: e.target.value.toUpperCase() })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+          <textarea
+            value={formData.address}
+            onChange={(e) => update({ address: e.target.value })}
+            rows={2}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+          <input
+            type="tel"
+            value={formData.phone}
+            onChange={(e) => update({ phone: e.target.value })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+          <input
+            type="email"
+            value={formData.email}
+            onChange={(e) => update({ email: e.target.value })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Valid For (days)</label>
+          <input
+            type="number"
+            min="1"
+            value={formData.validity_days}
+            onChange={(e) => update({ validity_days: Math.max(parseInt(e.target.value) || 1, 1) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Default Terms & Conditions</label>
+          <textarea
+            value={formData.terms}
+            onChange={(e) => update({ terms: e.target.value })}
+            rows={5}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-4">
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Save className="w-5 h-5" />
+          <span>{saving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase, Lead } from '../../lib/supabase';
+import {
+  LeadRentalAgreement,
+  RENTAL_STATUS_COLORS,
+  daysUntil,
+  fetchLeadRentalAgreements,
+  isPaymentDue,
+  isRenewalDue,
+  setBillingPaid,
+} from '../../lib/rentals';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { todayISO } from '../../lib/dates';
+import { AlertTriangle, Plus, RefreshCw, Undo2, Check, PackageCheck } from 'lucide-react';
+import { RentalAgreementForm } from './RentalAgreementForm';
+import { RenewRentalModal } from './RenewRentalModal';
+
+interface LeadRentalProps {
+  lead: Lead;
+}
+
+export const LeadRental: React.FC<LeadRentalProps> = ({ lead }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [agreements, setAgreements] = useState<LeadRentalAgreement[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [renewing, setRenewing] = useState(false);
+  const [returnedOn, setReturnedOn] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Saving a Rent lead as sealed lands here with ?agreement=new
+  const creating = searchParams.get('agreement') === 'new';
+  const setCreating = (open: boolean) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (open) next.set('agreement', 'new');
+      else next.delete('agreement');
+      return next;
+    }, { replace: true });
+  };
+
+  const fetchAgreements = useCallback(async () => {
+    try {
+      setAgreements(await fetchLeadRentalAgreements(lead.id));
+    } catch (error) {
+      console.error('Error fetching rental agreements:', error);
+      setError('Could not load the rental agreements.');
+    } finally {
+      setLoading(false);
+    }
+  }, [lead.id]);
+
+  useEffect(() => {
+    fetchAgreements();
+  }, [fetchAgreements]);
+
+  const active = agreements.find(agreement => agreement.status === 'active');
+  const shown = agreements.find(agreement => agreement.id === selectedId) || active || agreements[0];
+
+  const handleTogglePaid = async (periodId: string, paid: boolean) => {
+    setError('');
+    try {
+      await setBillingPaid(periodId, paid ? todayISO() : null);
+      fetchAgreements();
+    } catch (error) {
+      console.error('Error updating payment:', error);
+      setError('Could not update the payment. Please try again.');
+    }
+  };
+
+  const handleReturn = async () => {
+    if (!active || !returnedOn) return;
+
+    setError('');
+    try {
+      // Unpaid periods after the return are dropped from the schedule by the database
+      const { error } = await supabase
+        .from('rental_agreements')
+        .update({ status: 'returned', returned_on: returnedOn })
+        .eq('id', active.id);
+
+      if (error) throw error;
+      setReturnedOn(null);
+      fetchAgreements();
+    } catch (error) {
+      console.error('Error marking rental returned:', error);
+      setError('Could not mark the rental as returned. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!shown ? (
+        lead.lead_sealed ? (
+          <div className="text-center py-4 space-y-3">
+            <p className="text-sm text-gray-500">This rental is sealed but has no agreement yet.</p>
+            <button
+              onClick={() => setCreating(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors inline-flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Create Agreement</span>
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-4">The agreement can be created once the lead is sealed.</p>
+        )
+      ) : (
+        <>
+          {shown.status === 'active' && isRenewalDue(shown) && (
+            <div className="flex items-center space-x-2 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {daysUntil(shown.end_date) >= 0
+                  ? `Renewal or return due in ${daysUntil(shown.end_date)} days, on ${formatDate(shown.end_date)}.`
+                  : `The agreement ended on ${formatDate(shown.end_date)}. Renew it or record the return.`}
+              </span>
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-3 text-sm flex-1">
+              <div>
+                <dt className="text-gray-500">Monthly Fee</dt>
+                <dd className="text-gray-900 font-medium">{formatCurrency(shown.monthly_fee)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Deposit</dt>
+                <dd className="text-gray-900">{formatCurrency(shown.deposit)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Status</dt>
+                <dd>
+                  <span className={`text-xs px-2 py-1 rounded-full capitalize ${RENTAL_STATUS_COLORS[shown.status]}`}>{shown.status}</span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Start</dt>
+                <dd className="text-gray-900">{formatDate(shown.start_date)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Tenure</dt>
+                <dd className="text-gray-900">{shown.tenure_months} months</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{shown.returned_on ? 'Returned' : 'Renewal / Return'}</dt>
+                <dd className="text-gray-900">{formatDate(shown.returned_on ?? shown.end_date)}</dd>
+              </div>
+            </dl>
+
+            {shown.status === 'active' && (
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setRenewing(true)}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  <span>Renew</span>
+                </button>
+                <button
+                  onClick={() => setReturnedOn(returnedOn === null ? todayISO() : null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                >
+                  <PackageCheck className="w-4 h-4" />
+                  <span>Returned</span>
+                </button>
+              </div>
+            )}
+            {!active && lead.lead_sealed && (
+              <button
+                onClick={() => setCreating(true)}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New Agreement</span>
+              </button>
+            )}
+          </div>
+
+          {returnedOn !== null && shown.status === 'active' && (
+            <div className="flex flex-wrap items-end gap-3 bg-gray-50 rounded-lg p-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Items returned on</label>
+                <input
+                  type="date"
+                  value={returnedOn}
+                  min={shown.start_date}
+                  onChange={(e) => setReturnedOn(e.target.value)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <button
+                onClick={handleReturn}
+                disabled={!returnedOn}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Confirm Return
+              </button>
+              <p className="text-xs text-gray-500 w-full">Unpaid bills for months after the return are removed from the schedule.</p>
+            </div>
+          )}
+
+          {shown.rental_agreement_items.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Rented Items</h4>
+              <ul className="text-sm text-gray-900 space-y-1">
+                {shown.rental_agreement_items.map(item => (
+                  <li key={item.id}>
+                    {item.products?.name || 'Unknown product'} <span className="text-gray-500">× {item.quantity}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {shown.notes && <p className="text-sm text-gray-700 whitespace-pre-line">{shown.notes}</p>}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Billing Schedule</h4>
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Period</th>
+                    <th className="px-4 py-2 text-right">Amount</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {shown.rental_billing.map(period => (
+                    <tr key={period.id}>
+                      <td className="px-4 py-2 text-gray-900">{formatDate(period.period_start)} – {formatDate(period.period_end)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(period.amount)}</td>
+                      <td className="px-4 py-2">
+                        {period.paid_on ? (
+                          <span className="text-green-700">Paid {formatDate(period.paid_on)}</span>
+                        ) : isPaymentDue(period) ? (
+                          <span className="text-red-600">Due</span>
+                        ) : (
+                          <span className="text-gray-500">Upcoming</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {period.paid_on ? (
+                          <button
+                            onClick={() => handleTogglePaid(period.id, false)}
+                            className="text-gray-500 hover:text-gray-800"
+                            title="Undo payment"
+                          >
+                            <Undo2 className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleTogglePaid(period.id, true)}
+                            className="text-blue-600 hover:text-blue-800"
+                            title="Mark paid today"
+                          >
+                            <Check className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {agreements.length > 1 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">All Agreements</h4>
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {agreements.map(agreement => (
+                  <button
+                    key={agreement.id}
+                    onClick={() => setSelectedId(agreement.id)}
+                    className={`w-full flex items-center gap-4 px-4 py-2 text-sm text-left hover:bg-gray-50 ${agreement.id === shown.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <span className="flex-1 text-gray-900">
+                      {formatDate(agreement.start_date)} – {formatDate(agreement.returned_on ?? agreement.end_date)}
+                    </span>
+                    <span className="text-gray-600">{formatCurrency(agreement.monthly_fee)}/mo</span>
+                    <span className={`text-xs px-2 py-1 rounded-full capitalize ${RENTAL_STATUS_COLORS[agreement.status]}`}>{agreement.status}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {creating && !active && (
+        <RentalAgreementForm
+          lead={lead}
+          onClose={() => setCreating(false)}
+          onCreated={() => {
+            setCreating(false);
+            setSelectedId(null);
+            fetchAgreements();
+          }}
+        />
+      )}
+
+      {renewing && active && (
+        <RenewRentalModal
+          agreement={active}
+          onClose={() => setRenewing(false)}
+          onRenewed={() => {
+            setRenewing(false);
+            setSelectedId(null);
+            fetchAgreements();
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { supabase, RentalAgreement } from '../../lib/supabase';
+import { rentalEndDate } from '../../lib/rentals';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { addDays } from '../../lib/dates';
+import { X, RefreshCw } from 'lucide-react';
+
+interface RenewRentalModalProps {
+  agreement: RentalAgreement;
+  onClose: () => void;
+  onRenewed: () => void;
+}
+
+export const RenewRentalModal: React.FC<RenewRentalModalProps> = ({ agreement, onClose, onRenewed }) => {
+  const [tenureMonths, setTenureMonths] = useState(agreement.tenure_months);
+  const [monthlyFee, setMonthlyFee] = useState(String(agreement.monthly_fee));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fee = parseFloat(monthlyFee) || 0;
+  const startDate = addDays(agreement.end_date, 1);
+
+  const handleRenew = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      // Creates the follow-on agreement with the same items and marks this one renewed
+      const { error } = await supabase.rpc('renew_rental_agreement', {
+        agreement_id: agreement.id,
+        tenure_months: tenureMonths,
+        monthly_fee: fee,
+      });
+
+      if (error) throw error;
+      onRenewed();
+    } catch (error) {
+      console.error('Error renewing rental agreement:', error);
+      setError('Could not renew the agreement. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">Renew Rental</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tenure (months)
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={tenureMonths}
+                onChange={(e) => setTenureMonths(Math.max(parseInt(e.target.value) || 1, 1))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Monthly Fee (₹)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={monthlyFee}
+                onChange={(e) => setMonthlyFee(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
+            The renewal runs from <span className="font-medium text-gray-900">{formatDate(startDate)}</span> to{' '}
+            <span className="font-medium text-gray-900">{formatDate(rentalEndDate(startDate, tenureMonths))}</span>
+            {fee > 0 && ` at ${formatCurrency(fee)} a month`}. The deposit of {formatCurrency(agreement.deposit)} carries over.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleRenew}
+            disabled={fee <= 0 || saving}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className="w-5 h-5" />
+            <span>{saving ? 'Renewing...' : 'Renew'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Lead, LeadProduct, Product } from '../../lib/supabase';
+import { DEFAULT_TENURE_MONTHS, rentalEndDate } from '../../lib/rentals';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { todayISO } from '../../lib/dates';
+import { X, FileSignature } from 'lucide-react';
+
+type LeadProductRow = Pick<LeadProduct, 'product_id' | 'quantity'> & {
+  products: Pick<Product, 'name'> | null;
+};
+
+interface RentedItem {
+  product_id: string;
+  name: string;
+  quantity: number;
+  selected: boolean;
+}
+
+interface RentalAgreementFormProps {
+  lead: Lead;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+export const RentalAgreementForm: React.FC<RentalAgreementFormProps> = ({ lead, onClose, onCreated }) => {
+  const [items, setItems] = useState<RentedItem[]>([]);
+  const [formData, setFormData] = useState({
+    monthly_fee: '',
+    deposit: '',
+    start_date: todayISO(),
+    tenure_months: DEFAULT_TENURE_MONTHS,
+    notes: '',
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchItems = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('lead_products')
+          .select('product_id, quantity, products(name)')
+          .eq('lead_id', lead.id)
+          .overrideTypes<LeadProductRow[], { merge: false }>();
+
+        if (error) throw error;
+        setItems((data || []).map(row => ({
+          product_id: row.product_id,
+          name: row.products?.name || 'Unknown product',
+          quantity: row.quantity,
+          selected: true,
+        })));
+      } catch (error) {
+        console.error('Error fetching lead products:', error);
+        setError('Could not load the products on this lead.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchItems();
+  }, [lead.id]);
+
+  const monthlyFee = parseFloat(formData.monthly_fee) || 0;
+  const rented = items.filter(item => item.selected);
+  const canSave = monthlyFee > 0 && !!formData.start_date && formData.tenure_months > 0 && rented.length > 0;
+
+  const updateItem = (productId: string, changes: Partial<RentedItem>) =>
+    setItems(prev => prev.map(item => (item.product_id === productId ? { ...item, ...changes } : item)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      // The billing schedule is generated by the database from these terms
+      const { data: agreement, error } = await supabase
+        .from('rental_agreements')
+        .insert([{
+          lead_id: lead.id,
+          monthly_fee: monthlyFee,
+          deposit: parseFloat(formData.deposit) || 0,
+          start_date: formData.start_date,
+          tenure_months: formData.tenure_months,
+          notes: formData.notes.trim() || null,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase
+        .from('rental_agreement_items')
+        .insert(rented.map(item => ({
+          agreement_id: agreement.id,
+          product_id: item.product_id,
+          quantity: item.quantity,
+        })));
+
+      if (itemsError) {
+        await supabase.from('rental_agreements').delete().eq('id', agreement.id);
+        throw itemsError;
+      }
+
+      onCreated();
+    } catch (error) {
+      console.error('Error creating rental agreement:', error);
+      setError('Could not create the agreement. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Rental Agreement</h2>
+            <p className="text-sm text-gray-500 mt-1">For {lead.full_name}{lead.company ? `, ${lead.company}` : ''}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Rented Items</h3>
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              ) : items.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4 border border-dashed border-gray-300 rounded-lg">
+                  Add the rented products to the lead before creating its agreement.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {items.map(item => (
+                    <div key={item.product_id} className="flex items-center gap-4 px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={item.selected}
+                        onChange={(e) => updateItem(item.product_id, { selected: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="flex-1 text-sm text-gray-900">{item.name}</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={item.quantity}
+                        disabled={!item.selected}
+                        onChange={(e) => updateItem(item.product_id, { quantity: Math.max(parseInt(e.target.value) || 1, 1) })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Monthly Fee (₹) *
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  required
+                  value={formData.monthly_fee}
+                  onChange={(e) => setFormData(prev => ({ ...prev, monthly_fee: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {lead.potential_amount > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Potential amount on the lead: {formatCurrency(lead.potential_amount)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Deposit (₹)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.deposit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, deposit: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Start Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={formData.start_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tenure (months) *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  required
+                  value={formData.tenure_months}
+                  onChange={(e) => setFormData(prev => ({ ...prev, tenure_months: Math.max(parseInt(e.target.value) || 1, 1) }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {formData.start_date && (
+              <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
+                Renewal or return due on{' '}
+                <span className="font-medium text-gray-900">{formatDate(rentalEndDate(formData.start_date, formData.tenure_months))}</span>.
+                {monthlyFee > 0 && ` ${formData.tenure_months} monthly bills of ${formatCurrency(monthlyFee)} will be scheduled.`}
+              </p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                rows={3}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canSave || saving}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <FileSignature className="w-5 h-5" />
+              <span>{saving ? 'Creating...' : 'Create Agreement'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTeamMembers, getMemberName } from '../../hooks/useTeamMembers';
+import { RentalBillingPeriod } from '../../lib/supabase';
+import {
+  RENEWAL_WINDOW_DAYS,
+  RentalAgreementWithLead,
+  daysUntil,
+  fetchDueBilling,
+  fetchRentalAgreements,
+  isRenewalDue,
+  monthlyRecurringRevenue,
+  mrrAtMonthEnd,
+  setBillingPaid,
+} from '../../lib/rentals';
+import { addMonths, formatMonth, monthsBetween, toMonth } from '../../lib/forecast';
+import { percentOf } from '../../lib/analytics';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { todayISO } from '../../lib/dates';
+import { Check } from 'lucide-react';
+
+const RENEWAL_WINDOWS = [30, 60, 90];
+
+export const Rentals: React.FC = () => {
+  const { user } = useAuth();
+  const members = useTeamMembers();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [agreements, setAgreements] = useState<RentalAgreementWithLead[]>([]);
+  const [dueBilling, setDueBilling] = useState<RentalBillingPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const latestRequest = useRef(0);
+
+  const owner = searchParams.get('owner') || '';
+  const windowDays = Number(searchParams.get('window')) || RENEWAL_WINDOW_DAYS;
+
+  const updateParams = useCallback((changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const loadRentals = useCallback(async () => {
+    if (!user) return;
+
+    const requestId = ++latestRequest.current;
+    setError('');
+    try {
+      const [agreementData, billingData] = await Promise.all([fetchRentalAgreements(), fetchDueBilling()]);
+      if (requestId !== latestRequest.current) return;
+      setAgreements(agreementData);
+      setDueBilling(billingData);
+    } catch (error) {
+      console.error('Error fetching rentals:', error);
+      if (requestId === latestRequest.current) setError('Could not load rentals. Please try again.');
+    } finally {
+      if (requestId === latestRequest.current) setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadRentals();
+  }, [loadRentals]);
+
+  const handleMarkPaid = async (periodId: string) => {
+    try {
+      await setBillingPaid(periodId, todayISO());
+      loadRentals();
+    } catch (error) {
+      console.error('Error updating payment:', error);
+      setError('Could not update the payment. Please try again.');
+    }
+  };
+
+  const ownerId = owner === 'me' ? user?.id : owner;
+  const visible = ownerId ? agreements.filter(agreement => agreement.leads?.assigned_to === ownerId) : agreements;
+  const byId = new Map(visible.map(agreement => [agreement.id, agreement]));
+  const active = visible.filter(agreement => agreement.status === 'active');
+  const renewals = active.filter(agreement => isRenewalDue(agreement, windowDays));
+  const outstanding = dueBilling.filter(period => byId.has(period.agreement_id));
+  const outstandingTotal = outstanding.reduce((sum, period) => sum + Number(period.amount), 0);
+
+  // Past six months as recorded, next six as contracted today
+  const currentMonth = toMonth(new Date());
+  const months = monthsBetween(addMonths(currentMonth, -6), addMonths(currentMonth, 6));
+  const trend = months.map(month => ({ month, mrr: mrrAtMonthEnd(visible, month) }));
+  const maxMrr = Math.max(...trend.map(point => point.mrr), 0);
+
+  const leadLink = (agreement: RentalAgreementWithLead) => (
+    agreement.leads ? (
+      <Link to={`/leads/${agreement.leads.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+        {agreement.leads.full_name}
+      </Link>
+    ) : '—'
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Rentals</h2>
+          <p className="text-gray-600 mt-1">Recurring revenue, upcoming renewals and outstanding bills from rental agreements.</p>
+        </div>
+
+        {members.length > 1 && (
+          <select
+            value={owner}
+            onChange={(e) => updateParams({ owner: e.target.value })}
+            className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Owners</option>
+            <option value="me">My Leads</option>
+            {members
+              .filter(member => member.user_id !== user?.id)
+              .map(member => (
+                <option key={member.user_id} value={member.user_id}>
+                  {member.full_name || member.email}
+                </option>
+              ))}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {[
+          { label: 'Monthly Recurring Revenue', value: formatCurrency(monthlyRecurringRevenue(visible)), hint: 'Agreements running today' },
+          { label: 'Active Rentals', value: String(active.length), hint: `${renewals.length} due for renewal in ${windowDays} days` },
+          { label: 'Deposits Held', value: formatCurrency(active.reduce((sum, agreement) => sum + Number(agreement.deposit), 0)), hint: 'On active agreements' },
+          { label: 'Outstanding', value: formatCurrency(outstandingTotal), hint: `${outstanding.length} unpaid ${outstanding.length === 1 ? 'bill' : 'bills'}` },
+        ].map(stat => (
+          <div key={stat.label} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+            <p className="text-3xl font-bold text-gray-900 mt-1">{stat.value}</p>
+            <p className="text-xs text-gray-500 mt-1">{stat.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">MRR by Month</h3>
+        {maxMrr === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No rentals were running in this period.</p>
+        ) : (
+          <div>
+            <div className="flex items-end h-48 gap-1 border-b border-gray-200">
+              {trend.map(point => (
+                <div
+                  key={point.month}
+                  className="flex-1 flex items-end justify-center h-full"
+                  title={`${formatMonth(point.month)}: ${formatCurrency(point.mrr)}`}
+                >
+                  <div
+                    className={`w-2/3 rounded-t-sm ${point.month > currentMonth ? 'bg-blue-200' : 'bg-blue-500'}`}
+                    style={{ height: `${percentOf(point.mrr, maxMrr)}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {trend.map(point => (
+                <span key={point.month} className="flex-1 text-center text-xs text-gray-500 truncate">
+                  {formatMonth(point.month)}
+                </span>
+              ))}
+            </div>
+            <div className="flex items-center space-x-4 text-xs text-gray-500 pt-4">
+              <span className="flex items-center space-x-1">
+                <span className="w-3 h-3 rounded-sm bg-blue-500"></span>
+                <span>At month end</span>
+              </span>
+              <span className="flex items-center space-x-1">
+                <span className="w-3 h-3 rounded-sm bg-blue-200"></span>
+                <span>Contracted, before renewals</span>
+              </span>
+              <span className="ml-auto">Peak {formatCurrency(maxMrr)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Upcoming Renewals</h3>
+            <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+              {RENEWAL_WINDOWS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => updateParams({ window: days === RENEWAL_WINDOW_DAYS ? '' : String(days) })}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    windowDays === days ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+          </div>
+          {renewals.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No agreements end in the next {windowDays} days.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {renewals.map(agreement => {
+                const days = daysUntil(agreement.end_date);
+                return (
+                  <div key={agreement.id} className="flex items-center gap-4 py-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      {leadLink(agreement)}
+                      <p className="text-xs text-gray-500">{getMemberName(members, agreement.leads?.assigned_to ?? null)}</p>
+                    </div>
+                    <span className="text-gray-600">{formatCurrency(agreement.monthly_fee)}/mo</span>
+                    <span className={days < 0 ? 'text-red-600' : days <= 7 ? 'text-amber-600' : 'text-gray-900'}>
+                      {days < 0 ? `Ended ${formatDate(agreement.end_date)}` : `${formatDate(agreement.end_date)} · ${days}d`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Outstanding Bills</h3>
+          {outstanding.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">All bills due so far are paid.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {outstanding.map(period => {
+                const agreement = byId.get(period.agreement_id);
+                return (
+                  <div key={period.id} className="flex items-center gap-4 py-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      {agreement && leadLink(agreement)}
+                      <p className="text-xs text-gray-500">{formatDate(period.period_start)} – {formatDate(period.period_end)}</p>
+                    </div>
+                    <span className="text-gray-900">{formatCurrency(period.amount)}</span>
+                    <button
+                      onClick={() => handleMarkPaid(period.id)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="Mark paid today"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Active Agreements</h3>
+        </div>
+        {active.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No active rental agreements.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3 text-left">Lead</th>
+                  <th className="px-4 py-3 text-left">Start</th>
+                  <th className="px-4 py-3 text-left">Renewal / Return</th>
+                  <th className="px-4 py-3 text-right">Monthly Fee</th>
+                  <th className="px-4 py-3 text-right">Deposit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {active.map(agreement => (
+                  <tr key={agreement.id}>
+                    <td className="px-4 py-3">
+                      {leadLink(agreement)}
+                      {agreement.leads?.company && <p className="text-xs text-gray-500">{agreement.leads.company}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-900">{formatDate(agreement.start_date)}</td>
+                    <td className="px-4 py-3 text-gray-900">{formatDate(agreement.end_date)}</td>
+                    <td className="px-4 py-3 text-right text-gray-900">{formatCurrency(agreement.monthly_fee)}</td>
+                    <td className="px-4 py-3 text-right text-gray-900">{formatCurrency(agreement.deposit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
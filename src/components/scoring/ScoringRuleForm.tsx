@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { supabase, ScoringOperator, ScoringRule } from '../../lib/supabase';
+import { SCORING_FIELDS, SCORING_OPERATORS, operatorsForField } from '../../lib/scoring';
+import { X } from 'lucide-react';
+
+interface ScoringRuleFormProps {
+  rule?: ScoringRule;
+  nextSortOrder: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const ScoringRuleForm: React.FC<ScoringRuleFormProps> = ({ rule, nextSortOrder, onClose, onSaved }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    name: rule?.name || '',
+    field: rule?.field || SCORING_FIELDS[0].key,
+    operator: rule?.operator || ('equals' as ScoringOperator),
+    value: rule?.value || '',
+    points: rule?.points ?? 10,
+    is_active: rule?.is_active ?? true,
+  });
+
+  const field = SCORING_FIELDS.find(f => f.key === formData.field) || SCORING_FIELDS[0];
+  const operators = operatorsForField(field);
+  const needsValue = SCORING_OPERATORS.find(op => op.value === formData.operator)?.needsValue ?? true;
+
+  // Keep the operator and value valid for the newly chosen field
+  const handleFieldChange = (key: string) => {
+    const next = SCORING_FIELDS.find(f => f.key === key) || SCORING_FIELDS[0];
+    const allowed = operatorsForField(next);
+    setFormData(prev => ({
+      ...prev,
+      field: key,
+      operator: allowed.some(op => op.value === prev.operator) ? prev.operator : allowed[0].value,
+      value: next.options ? next.options[0].value : '',
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const payload = {
+        ...formData,
+        value: needsValue ? formData.value.trim() : null,
+      };
+
+      const { error } = rule
+        ? await supabase.from('scoring_rules').update(payload).eq('id', rule.id)
+        : await supabase.from('scoring_rules').insert([{ ...payload, sort_order: nextSortOrder }]);
+
+      if (error) throw error;
+      onSaved();
+    } catch (err) {
+      console.error('Error saving scoring rule:', err);
+      setError(err instanceof Error ? err.message : 'Could not save scoring rule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">
+            {rule ? 'Edit Rule' : 'Add Rule'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Name
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="e.g. Housing society"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                When
+              </label>
+              <select
+                value={formData.field}
+                onChange={(e) => handleFieldChange(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {SCORING_FIELDS.map(f => (
+                  <option key={f.key} value={f.key}>{f.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Condition
+              </label>
+              <select
+                value={formData.operator}
+                onChange={(e) => setFormData(prev => ({ ...prev, operator: e.target.value as ScoringOperator }))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {operators.map(op => (
+                  <option key={op.value} value={op.value}>{op.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {needsValue && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Value
+              </label>
+              {field.options ? (
+                <select
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {field.options.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.kind === 'number' ? 'number' : 'text'}
+                  required
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Points
+            </label>
+            <input
+              type="number"
+              step="1"
+              required
+              value={formData.points}
+              onChange={(e) => setFormData(prev => ({ ...prev, points: parseInt(e.target.value) || 0 }))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use a negative number to subtract points. Totals are capped between 0 and 100.
+            </p>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="is_active"
+              checked={formData.is_active}
+              onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label htmlFor="is_active" className="ml-2 block text-sm font-medium text-gray-700">
+              Active
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Saving...' : (rule ? 'Update Rule' : 'Create Rule')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
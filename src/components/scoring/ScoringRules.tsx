@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, ScoringRule } from '../../lib/supabase';
+import { describeRule } from '../../lib/scoring';
+import { Plus, Edit, Trash2, Eye, EyeOff, RefreshCw, Gauge } from 'lucide-react';
+import { ScoringRuleForm } from './ScoringRuleForm';
+
+export const ScoringRules: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingRule, setEditingRule] = useState<ScoringRule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('scoring_rules')
+        .select('*')
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching scoring rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  // Rule changes rescore leads in the database as part of the same statement
+  const handleToggleActive = async (rule: ScoringRule) => {
+    try {
+      const { error } = await supabase
+        .from('scoring_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      console.error('Error updating scoring rule:', error);
+    }
+  };
+
+  const handleDelete = async (rule: ScoringRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Lead scores will be recalculated.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('scoring_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting scoring rule:', error);
+    }
+  };
+
+  // Time-based rules (follow-up overdue) only change when a lead is saved, so allow a manual refresh
+  const handleRecalculate = async () => {
+    setRecalculating(true);
+    setMessage('');
+    try {
+      const { data, error } = await supabase.rpc('recalculate_lead_scores');
+      if (error) throw error;
+      setMessage(`Recalculated scores. ${data ?? 0} leads changed.`);
+    } catch (error) {
+      console.error('Error recalculating lead scores:', error);
+      setMessage('Could not recalculate scores. Please try again.');
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const handleSaved = () => {
+    setShowForm(false);
+    setEditingRule(null);
+    fetchRules();
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Admins only</h3>
+          <p className="text-gray-500">You don't have permission to manage scoring rules.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Lead Scoring Rules</h2>
+          <p className="text-sm text-gray-500">
+            Each matching rule adds its points to a lead's score. Leads with a manual score are left alone.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleRecalculate}
+            disabled={recalculating}
+            className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${recalculating ? 'animate-spin' : ''}`} />
+            <span>Recalculate</span>
+          </button>
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Rule</span>
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-6">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <div className="text-gray-400 mb-4">
+            <Gauge className="w-12 h-12 mx-auto" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No scoring rules yet</h3>
+          <p className="text-gray-500">Add a rule to start scoring leads automatically.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="divide-y divide-gray-200">
+            {rules.map(rule => (
+              <div
+                key={rule.id}
+                className={`px-4 py-4 md:px-8 flex items-center gap-4 ${rule.is_active ? '' : 'bg-gray-50'}`}
+              >
+                <span className={`w-14 text-center text-sm font-semibold px-2 py-1 rounded-full ${
+                  rule.points >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}>
+                  {rule.points > 0 ? `+${rule.points}` : rule.points}
+                </span>
+
+                <div className="flex-1 min-w-0">
+                  <p className={`font-medium ${rule.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {rule.name}
+                    {!rule.is_active && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-600">Inactive</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">{describeRule(rule)}</p>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleToggleActive(rule)}
+                    title={rule.is_active ? 'Deactivate' : 'Activate'}
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    {rule.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => setEditingRule(rule)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(showForm || editingRule) && (
+        <ScoringRuleForm
+          rule={editingRule || undefined}
+          nextSortOrder={rules.reduce((max, rule) => Math.max(max, rule.sort_order), 0) + 1}
+          onClose={() => {
+            setShowForm(false);
+            setEditingRule(null);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
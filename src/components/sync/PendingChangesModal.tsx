@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lead } from '../../lib/supabase';
+import {
+  QueuedChange,
+  discardLocalChange,
+  keepLocalChange,
+  readLocalLeads,
+  readQueue,
+  syncNow,
+} from '../../lib/offline';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { LEAD_FIELD_LABELS } from '../../lib/constants';
+import { formatDate } from '../../lib/format';
+import { X, RefreshCw, AlertCircle } from 'lucide-react';
+
+interface PendingChangesModalProps {
+  onClose: () => void;
+}
+
+export const PendingChangesModal: React.FC<PendingChangesModalProps> = ({ onClose }) => {
+  const status = useSyncStatus();
+  const [queue, setQueue] = useState<QueuedChange[]>([]);
+  const [leads, setLeads] = useState<Lead[]>([]);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [changes, localLeads] = await Promise.all([readQueue(), readLocalLeads()]);
+      setQueue(changes);
+      setLeads(localLeads);
+    } catch (error) {
+      console.error('Error reading offline changes:', error);
+    }
+  }, []);
+
+  // Reload whenever a sync finishes or the queue changes size
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue, status?.pending, status?.conflicts, status?.syncing]);
+
+  const leadName = (change: QueuedChange) =>
+    change.values.full_name || leads.find(lead => lead.id === change.leadId)?.full_name || 'Unknown lead';
+
+  const changedFields = (change: QueuedChange) =>
+    Object.keys(change.values)
+      .filter(field => field !== 'id' && field !== 'user_id' && field !== 'updated_at')
+      .map(field => LEAD_FIELD_LABELS[field] || field)
+      .join(', ');
+
+  const handleKeep = async (change: QueuedChange) => {
+    try {
+      await keepLocalChange(change);
+    } catch (error) {
+      console.error('Error retrying offline change:', error);
+    }
+    loadQueue();
+  };
+
+  const handleDiscard = async (change: QueuedChange) => {
+    if (!confirm(`Discard your offline changes to ${leadName(change)}?`)) return;
+
+    try {
+      await discardLocalChange(change);
+    } catch (error) {
+      console.error('Error discarding offline change:', error);
+    }
+    loadQueue();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Pending Changes</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {status?.online ? 'Changes made offline are sent automatically.' : "You're offline. Changes are saved on this device until the connection returns."}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {queue.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">Everything is synced.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {queue.map(change => (
+                <li key={change.id} className="px-4 py-3 space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{leadName(change)}</p>
+                      <p className="text-sm text-gray-500">
+                        {change.kind === 'create' ? 'New lead' : `Changed ${changedFields(change)}`} · {formatDate(change.queuedAt)}
+                      </p>
+                    </div>
+                    {!change.conflict && <span className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-800">Waiting</span>}
+                  </div>
+
+                  {change.conflict && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-sm space-y-2">
+                      <p className="flex items-center space-x-2 text-red-700">
+                        <AlertCircle className="w-4 h-4" />
+                        <span>{change.conflict.reason}</span>
+                      </p>
+                      <div className="flex items-center space-x-4">
+                        {(change.conflict.server || change.kind === 'create') && (
+                          <button
+                            onClick={() => handleKeep(change)}
+                            disabled={!status?.online}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            {change.kind === 'create' ? 'Try again' : 'Keep my changes'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDiscard(change)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Discard my changes
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => syncNow()}
+            disabled={!status?.online || status.syncing || queue.length === 0}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className={`w-5 h-5 ${status?.syncing ? 'animate-spin' : ''}`} />
+            <span>{status?.syncing ? 'Syncing...' : 'Sync Now'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, Profile, Team } from '../../lib/supabase';
+import { USER_ROLES } from '../../lib/constants';
+import { Plus, Users } from 'lucide-react';
+
+export const TeamAdmin: React.FC = () => {
+  const { user, isAdmin } = useAuth();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [profilesResult, teamsResult] = await Promise.all([
+        supabase.from('profiles').select('*').order('full_name'),
+        supabase.from('teams').select('*').order('name'),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (teamsResult.error) throw teamsResult.error;
+
+      setProfiles(profilesResult.data || []);
+      setTeams(teamsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching team data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleProfileChange = async (profile: Profile, changes: Partial<Pick<Profile, 'role' | 'team_id'>>) => {
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      fetchData();
+    } catch (err) {
+      console.error('Error updating profile:', err);
+      setError(err instanceof Error ? err.message : 'Could not update user');
+    }
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTeamName.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .insert([{ name: newTeamName.trim() }]);
+
+      if (error) throw error;
+      setNewTeamName('');
+      fetchData();
+    } catch (err) {
+      console.error('Error creating team:', err);
+      setError(err instanceof Error ? err.message : 'Could not create team');
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Admins only</h3>
+          <p className="text-gray-500">You don't have permission to manage users and teams.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* Teams */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Teams</h3>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {teams.map(team => (
+            <span key={team.id} className="px-3 py-1 text-sm rounded-full bg-blue-50 text-blue-700">
+              {team.name} ({profiles.filter(p => p.team_id === team.id).length})
+            </span>
+          ))}
+          {teams.length === 0 && <p className="text-sm text-gray-500">No teams yet.</p>}
+        </div>
+        <form onSubmit={handleCreateTeam} className="flex gap-4">
+          <input
+            type="text"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="New team name"
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Team</span>
+          </button>
+        </form>
+      </div>
+
+      {/* Users */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-4 md:px-8 py-3 border-b border-gray-200 hidden md:block">
+          <div className="grid grid-cols-12 gap-x-8 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <div className="col-span-6">User</div>
+            <div className="col-span-3">Role</div>
+            <div className="col-span-3">Team</div>
+          </div>
+        </div>
+
+        <div className="divide-y divide-gray-200">
+          {profiles.map(profile => (
+            <div key={profile.id} className="px-4 py-4 md:px-8 grid grid-cols-1 md:grid-cols-12 gap-y-2 md:gap-x-8 items-center">
+              <div className="md:col-span-6 flex items-center space-x-3">
+                <Users className="w-5 h-5 text-gray-400" />
+                <div>
+                  <p className="font-medium text-gray-900">{profile.full_name || profile.email}</p>
+                  <p className="text-sm text-gray-500">{profile.email}</p>
+                </div>
+              </div>
+
+              <div className="md:col-span-3">
+                <select
+                  value={profile.role}
+                  disabled={profile.user_id === user?.id}
+                  onChange={(e) => handleProfileChange(profile, { role: e.target.value as Profile['role'] })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg disabled:bg-gray-50"
+                >
+                  {USER_ROLES.map(role => (
+                    <option key={role.value} value={role.value}>{role.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="md:col-span-3">
+                <select
+                  value={profile.team_id || ''}
+                  onChange={(e) => handleProfileChange(profile, { team_id: e.target.value || null })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                >
+                  <option value="">No team</option>
+                  {teams.map(team => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase, Territory, TerritoryRule } from '../../lib/supabase';
+import { TerritoryWithRules, describeRule, fetchTerritoriesWithRules } from '../../lib/territories';
+import { PincodeCheck, checkPincode, loadPincodeDirectory } from '../../lib/pincodes';
+import { Plus, Edit, Trash2, RefreshCw, Map as MapIcon, Search } from 'lucide-react';
+import { TerritoryForm } from './TerritoryForm';
+import { TerritoryRuleForm } from './TerritoryRuleForm';
+
+export const Territories: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [territories, setTerritories] = useState<TerritoryWithRules[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingTerritory, setEditingTerritory] = useState<Territory | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [retagging, setRetagging] = useState(false);
+  const [message, setMessage] = useState('');
+  const [lookupPin, setLookupPin] = useState('');
+  const [lookup, setLookup] = useState<{ check: PincodeCheck; territoryId: string | null } | null>(null);
+
+  const fetchTerritories = useCallback(async () => {
+    try {
+      setTerritories(await fetchTerritoriesWithRules());
+    } catch (error) {
+      console.error('Error fetching territories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTerritories();
+  }, [fetchTerritories]);
+
+  // Deleting a territory or a rule re-tags the affected leads in the database
+  const handleDeleteTerritory = async (territory: Territory) => {
+    if (!confirm(`Delete the territory "${territory.name}"? Its leads will be re-tagged.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('territories')
+        .delete()
+        .eq('id', territory.id);
+
+      if (error) throw error;
+      fetchTerritories();
+    } catch (error) {
+      console.error('Error deleting territory:', error);
+    }
+  };
+
+  const handleDeleteRule = async (rule: TerritoryRule) => {
+    try {
+      const { error } = await supabase
+        .from('territory_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchTerritories();
+    } catch (error) {
+      console.error('Error deleting territory rule:', error);
+    }
+  };
+
+  const handleRetag = async () => {
+    setRetagging(true);
+    setMessage('');
+    try {
+      const { data, error } = await supabase.rpc('retag_lead_territories');
+      if (error) throw error;
+      setMessage(`Re-tagged leads. ${data ?? 0} leads changed territory.`);
+    } catch (error) {
+      console.error('Error re-tagging territories:', error);
+      setMessage('Could not re-tag leads. Please try again.');
+    } finally {
+      setRetagging(false);
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const check = checkPincode(lookupPin, await loadPincodeDirectory());
+      let territoryId: string | null = null;
+      if (check.valid) {
+        const { data, error } = await supabase.rpc('territory_for_pincode', { pin: Number(lookupPin) });
+        if (error) throw error;
+        territoryId = data;
+      }
+      setLookup({ check, territoryId });
+    } catch (error) {
+      console.error('Error looking up PIN code:', error);
+    }
+  };
+
+  const handleSaved = () => {
+    setShowForm(false);
+    setEditingTerritory(null);
+    fetchTerritories();
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Admins only</h3>
+          <p className="text-gray-500">You don't have permission to manage territories.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Territories</h2>
+          <p className="text-sm text-gray-500">
+            Leads are tagged with the territory their PIN code falls in. Where rules overlap, the narrowest one wins.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleRetag}
+            disabled={retagging}
+            className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${retagging ? 'animate-spin' : ''}`} />
+            <span>Re-tag Leads</span>
+          </button>
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Territory</span>
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-6">
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={handleLookup} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={lookupPin}
+            onChange={(e) => {
+              setLookupPin(e.target.value.replace(/\D/g, '').slice(0, 6));
+              setLookup(null);
+            }}
+            placeholder="Check a PIN code"
+            className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={lookupPin.length !== 6}
+            className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Search className="w-4 h-4" />
+            <span>Look Up</span>
+          </button>
+          {lookup && (
+            lookup.check.valid ? (
+              <p className="text-sm text-gray-700">
+                {lookup.check.location.city}, {lookup.check.location.state} ·{' '}
+                <span className="font-medium">
+                  {territories.find(t => t.id === lookup.territoryId)?.name || 'No territory'}
+                </span>
+              </p>
+            ) : (
+              <p className="text-sm text-red-600">{lookup.check.error}</p>
+            )
+          )}
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : territories.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <div className="text-gray-400 mb-4">
+            <MapIcon className="w-12 h-12 mx-auto" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No territories yet</h3>
+          <p className="text-gray-500">Add a territory, then the PIN prefixes, ranges or lists it covers.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {territories.map(territory => (
+            <div key={territory.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{territory.name}</h3>
+                  {territory.description && <p className="text-sm text-gray-500">{territory.description}</p>}
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setEditingTerritory(territory)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTerritory(territory)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {territory.territory_rules.length === 0 ? (
+                <p className="text-sm text-gray-500">No rules yet, so no leads are tagged with this territory.</p>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {territory.territory_rules.map(rule => (
+                    <div key={rule.id} className="flex items-center gap-4 px-4 py-2 text-sm">
+                      <span className="w-16 text-xs font-medium uppercase text-gray-500">{rule.rule_type}</span>
+                      <span className="flex-1 text-gray-900 break-words">{describeRule(rule)}</span>
+                      <button
+                        onClick={() => handleDeleteRule(rule)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Remove rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <TerritoryRuleForm territoryId={territory.id} onAdded={fetchTerritories} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(showForm || editingTerritory) && (
+        <TerritoryForm
+          territory={editingTerritory || undefined}
+          onClose={() => {
+            setShowForm(false);
+            setEditingTerritory(null);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { supabase, TerritoryRule } from '../../lib/supabase';
+import { TERRITORY_RULE_TYPES, parsePincodeList } from '../../lib/territories';
+import { loadPincodeDirectory } from '../../lib/pincodes';
+import { PINCODE_PATTERN } from '../../lib/normalize';
+import { Plus } from 'lucide-react';
+
+interface TerritoryRuleFormProps {
+  territoryId: string;
+  onAdded: () => void;
+}
+
+const PREFIX_PATTERN = /^[1-9][0-9]{0,5}$/;
+
+export const TerritoryRuleForm: React.FC<TerritoryRuleFormProps> = ({ territoryId, onAdded }) => {
+  const [ruleType, setRuleType] = useState<TerritoryRule['rule_type']>('prefix');
+  const [prefix, setPrefix] = useState('');
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [list, setList] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Returns the row to insert, or an error message
+  const buildRule = async () => {
+    switch (ruleType) {
+      case 'prefix':
+        if (!PREFIX_PATTERN.test(prefix)) return 'A prefix is 1 to 6 digits and cannot start with 0.';
+        return { prefix };
+      case 'range':
+        if (!PINCODE_PATTERN.test(rangeStart) || !PINCODE_PATTERN.test(rangeEnd)) return 'Both ends of a range must be 6-digit PIN codes.';
+        if (Number(rangeStart) > Number(rangeEnd)) return 'The range must start at or before where it ends.';
+        return { range_start: Number(rangeStart), range_end: Number(rangeEnd) };
+      default: {
+        const { pincodes, invalid } = parsePincodeList(list);
+        if (invalid.length > 0) return `Not 6-digit PIN codes: ${invalid.join(', ')}`;
+        if (pincodes.length === 0) return 'Enter at least one PIN code.';
+
+        const directory = await loadPincodeDirectory();
+        const unknown = pincodes.filter(pin => !directory.has(pin));
+        if (unknown.length > 0) return `Not known Indian PIN codes: ${unknown.join(', ')}`;
+        return { pincodes };
+      }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    setError('');
+    try {
+      const rule = await buildRule();
+      if (typeof rule === 'string') {
+        setError(rule);
+        return;
+      }
+
+      // Leads are re-tagged by the database once the rule is saved
+      const { error } = await supabase
+        .from('territory_rules')
+        .insert([{ territory_id: territoryId, rule_type: ruleType, ...rule }]);
+
+      if (error) throw error;
+      setPrefix('');
+      setRangeStart('');
+      setRangeEnd('');
+      setList('');
+      onAdded();
+    } catch (error) {
+      console.error('Error adding territory rule:', error);
+      setError('Could not add the rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select
+          value={ruleType}
+          onChange={(e) => setRuleType(e.target.value as TerritoryRule['rule_type'])}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {TERRITORY_RULE_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+
+        {ruleType === 'prefix' && (
+          <input
+            type="text"
+            inputMode="numeric"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            placeholder="e.g. 560"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        )}
+        {ruleType === 'range' && (
+          <div className="flex-1 flex items-center gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={rangeStart}
+              onChange={(e) => setRangeStart(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              placeholder="From"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={rangeEnd}
+              onChange={(e) => setRangeEnd(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              placeholder="To"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        )}
+        {ruleType === 'list' && (
+          <input
+            type="text"
+            value={list}
+            onChange={(e) => setList(e.target.value)}
+            placeholder="e.g. 560001, 560002, 560025"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        )}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{saving ? 'Adding...' : 'Add Rule'}</span>
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+};
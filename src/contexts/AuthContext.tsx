@@ -1,14 +1,26 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { supabase, Profile } from '../lib/supabase';
+import { clearLocalData } from '../lib/offline';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  isAdmin: boolean;
+  canReassign: boolean;
   loading: boolean;
+  // Signed in from a password reset link; the user must choose a new password before going on
+  passwordRecovery: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, fullName: string) => Promise<void>;
+  // Resolves to true when the account still has to be verified from the emailed link
+  signUp: (email: string, password: string, fullName: string) => Promise<boolean>;
   signOut: () => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  resendVerification: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  updateAccount: (changes: { fullName: string; email: string }) => Promise<{ emailPending: boolean }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -24,7 +36,9 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
 
   useEffect(() => {
     // Get initial session
@@ -39,6 +53,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // Listen for auth changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
+      if (event === 'PASSWORD_RECOVERY') setPasswordRecovery(true);
+      if (event === 'SIGNED_OUT') setPasswordRecovery(false);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
@@ -47,6 +63,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  const fetchProfile = useCallback(async () => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      return;
+    }
+    setProfile(data);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  // Links in auth emails come back to this app, wherever it is hosted. Sign-in links land on /login, which
+  // shows a failed link's error or moves a signed-in user on to the leads
+  const redirectTo = (path: string) => `${window.location.origin}${path}`;
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -55,43 +100,94 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (error) throw error;
   };
 
+  // The profile row is created by a database trigger on auth.users, from the full_name given here
   const signUp = async (email: string, password: string, fullName: string) => {
-    const { error } = await supabase.auth.signUp({
+    const { data, error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         data: {
           full_name: fullName,
         },
+        emailRedirectTo: redirectTo('/login'),
       },
     });
     if (error) throw error;
-
-    // Create profile
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .insert([
-        {
-          user_id: user?.id || '',
-          email,
-          full_name: fullName,
-        },
-      ]);
-    if (profileError) throw profileError;
+    return !data.session;
   };
 
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
+    await clearLocalData();
+  };
+
+  // Existing accounts only; new reps still sign up so their name is captured
+  const sendMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: redirectTo('/login') },
+    });
+    if (error) throw error;
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: redirectTo('/reset-password') });
+    if (error) throw error;
+  };
+
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: redirectTo('/login') },
+    });
+    if (error) throw error;
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw error;
+    setPasswordRecovery(false);
+  };
+
+  // A new email only takes effect once confirmed from the link sent to it; the profile follows via trigger
+  const updateAccount = async ({ fullName, email }: { fullName: string; email: string }) => {
+    if (!user) throw new Error('You are not signed in');
+
+    const emailChanged = email.trim().toLowerCase() !== (user.email || '').toLowerCase();
+    const { error } = await supabase.auth.updateUser(
+      { data: { full_name: fullName }, ...(emailChanged ? { email: email.trim() } : {}) },
+      { emailRedirectTo: redirectTo('/account') }
+    );
+    if (error) throw error;
+
+    const { error: profileError } = await supabase
+      .from('profiles')
+      .update({ full_name: fullName.trim() || null })
+      .eq('user_id', user.id);
+    if (profileError) throw profileError;
+
+    await fetchProfile();
+    return { emailPending: emailChanged };
   };
 
   const value = {
     user,
     session,
+    profile,
+    isAdmin: profile?.role === 'admin',
+    canReassign: profile?.role === 'admin' || profile?.role === 'manager',
     loading,
+    passwordRecovery,
     signIn,
     signUp,
     signOut,
+    sendMagicLink,
+    sendPasswordReset,
+    resendVerification,
+    updatePassword,
+    updateAccount,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
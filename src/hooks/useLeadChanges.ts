@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { LeadChange, subscribeToLeadChanges } from '../lib/realtime';
+
+// Subscribes once per signed-in user; the latest handlers are always the ones called
+export const useLeadChanges = (onChange: (change: LeadChange) => void, onResync: () => void) => {
+  const { user } = useAuth();
+  const handlers = useRef({ onChange, onResync });
+  handlers.current = { onChange, onResync };
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToLeadChanges(
+      change => handlers.current.onChange(change),
+      () => handlers.current.onResync()
+    );
+  }, [userId]);
+};
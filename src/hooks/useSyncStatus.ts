@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react';
+import { SyncStatus, subscribeToSync } from '../lib/offline';
+
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => subscribeToSync(setStatus), []);
+
+  return status;
+};
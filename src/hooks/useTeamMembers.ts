@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase, Profile } from '../lib/supabase';
+
+// Profiles the current user can see: themselves, their team, or everyone for admins
+export const useTeamMembers = () => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Profile[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchMembers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('*')
+          .order('full_name');
+
+        if (error) throw error;
+        setMembers(data || []);
+      } catch (error) {
+        console.error('Error fetching team members:', error);
+      }
+    };
+
+    fetchMembers();
+  }, [user]);
+
+  return members;
+};
+
+export const getMemberName = (members: Profile[], userId: string | null) => {
+  if (!userId) return 'Unassigned';
+  const member = members.find(m => m.user_id === userId);
+  return member?.full_name || member?.email || 'Unknown';
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase, Territory } from '../lib/supabase';
+
+export const useTerritories = () => {
+  const { user } = useAuth();
+  const [territories, setTerritories] = useState<Territory[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTerritories = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('territories')
+          .select('*')
+          .order('name');
+
+        if (error) throw error;
+        setTerritories(data || []);
+      } catch (error) {
+        console.error('Error fetching territories:', error);
+      }
+    };
+
+    fetchTerritories();
+  }, [user]);
+
+  return territories;
+};
+
+export const getTerritoryName = (territories: Territory[], territoryId: string | null) => {
+  if (!territoryId) return 'No territory';
+  return territories.find(t => t.id === territoryId)?.name || 'Unknown';
+};
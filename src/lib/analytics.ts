@@ -0,0 +1,64 @@
+import { supabase, Lead } from './supabase';
+import { addDays, parseISODate } from './dates';
+
+export type AnalyticsPeriod = 'week' | 'month';
+
+export interface AnalyticsFilters {
+  // Inclusive local calendar days (YYYY-MM-DD)
+  from: string;
+  to: string;
+  ownerId: string;
+  period: AnalyticsPeriod;
+}
+
+export interface FunnelCounts {
+  total: number;
+  new: number;
+  in_progress: number;
+  closed: number;
+}
+
+export interface SegmentValue {
+  dimension: 'lead_type' | 'model_type';
+  value: Lead['lead_type'] | Lead['model_type'];
+  lead_count: number;
+  pipeline_value: number;
+  closed_value: number;
+}
+
+export interface TrendPoint {
+  period_start: string;
+  created: number;
+  closed: number;
+}
+
+export interface TopItem {
+  kind: 'Product' | 'Service';
+  name: string;
+  lead_count: number;
+  quantity: number;
+  value: number;
+}
+
+export interface LeadAnalytics {
+  funnel: FunnelCounts;
+  segments: SegmentValue[];
+  trends: TrendPoint[];
+  top_items: TopItem[];
+}
+
+// Aggregation happens in the database, over only the leads the caller can read
+export const fetchLeadAnalytics = async (filters: AnalyticsFilters) => {
+  const { data, error } = await supabase.rpc('lead_analytics', {
+    range_start: parseISODate(filters.from).toISOString(),
+    range_end: parseISODate(addDays(filters.to, 1)).toISOString(),
+    owner_id: filters.ownerId || null,
+    period: filters.period,
+  });
+
+  if (error) throw error;
+  return data as LeadAnalytics;
+};
+
+// Share of `part` in `whole` as a whole-number percentage
+export const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
@@ -0,0 +1,16 @@
+// Expired or reused links in auth emails come back with the reason in the URL fragment (or query string)
+export const readAuthLinkError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search);
+  const description = params.get('error_description');
+  if (!description) return '';
+
+  return params.get('error_code') === 'otp_expired'
+    ? 'That email link has expired or was already used. Please request a new one.'
+    : description.replace(/\+/g, ' ');
+};
+
+// Drops the error from the URL so a refresh doesn't show it again
+export const clearAuthLinkError = () => {
+  if (!readAuthLinkError()) return;
+  window.history.replaceState(window.history.state, '', window.location.pathname);
+};
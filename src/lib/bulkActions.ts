@@ -0,0 +1,67 @@
+import { supabase, Database } from './supabase';
+import { ID_CHUNK } from './leadQuery';
+
+type LeadUpdate = Database['public']['Tables']['leads']['Update'];
+
+export interface BulkFailure {
+  id: string;
+  reason: string;
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: BulkFailure[];
+}
+
+type ChunkRun = (ids: string[]) => PromiseLike<{ data: { id: string }[] | null; error: { message: string } | null }>;
+
+const NO_ACCESS = "You don't have permission to change this lead";
+
+// A chunk that errors is retried one lead at a time so a single bad row doesn't fail the rest.
+// Row-level security skips leads the user can't change rather than raising, so any lead missing
+// from the returned rows counts as failed.
+const runInChunks = async (ids: string[], run: ChunkRun): Promise<BulkResult> => {
+  const result: BulkResult = { succeeded: [], failed: [] };
+
+  const collect = (chunk: string[], rows: { id: string }[]) => {
+    const done = new Set(rows.map(row => row.id));
+    for (const id of chunk) {
+      if (done.has(id)) result.succeeded.push(id);
+      else result.failed.push({ id, reason: NO_ACCESS });
+    }
+  };
+
+  for (let from = 0; from < ids.length; from += ID_CHUNK) {
+    const chunk = ids.slice(from, from + ID_CHUNK);
+    const { data, error } = await run(chunk);
+    if (!error) {
+      collect(chunk, data || []);
+      continue;
+    }
+
+    console.error('Error in bulk lead action:', error);
+    if (chunk.length === 1) {
+      result.failed.push({ id: chunk[0], reason: error.message });
+      continue;
+    }
+    for (const id of chunk) {
+      const single = await run([id]);
+      if (single.error) result.failed.push({ id, reason: single.error.message });
+      else collect([id], single.data || []);
+    }
+  }
+
+  return result;
+};
+
+export const bulkUpdateLeads = (ids: string[], values: LeadUpdate) =>
+  runInChunks(ids, chunk => supabase.from('leads').update(values).in('id', chunk).select('id'));
+
+export const bulkAddTags = (ids: string[], tags: string[]) =>
+  runInChunks(ids, async chunk => {
+    const { data, error } = await supabase.rpc('add_lead_tags', { lead_ids: chunk, new_tags: tags });
+    return { data: ((data || []) as string[]).map(id => ({ id })), error };
+  });
+
+export const bulkDeleteLeads = (ids: string[]) =>
+  runInChunks(ids, chunk => supabase.from('leads').delete().in('id', chunk).select('id'));
@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+
+// Served by the follow-up-calendar edge function
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/follow-up-calendar?token=${token}`;
+
+// webcal:// opens the subscribe prompt on phones instead of downloading the file once
+export const calendarSubscribeUrl = (token: string) => calendarFeedUrl(token).replace(/^https?:/, 'webcal:');
+
+// Each user has one feed token, created the first time they ask for it
+export const getCalendarFeedToken = async () => {
+  const { data, error } = await supabase.from('calendar_feeds').select('token').maybeSingle();
+  if (error) throw error;
+  if (data) return data.token as string;
+
+  const { data: created, error: insertError } = await supabase
+    .from('calendar_feeds')
+    .insert([{}])
+    .select('token')
+    .single();
+
+  if (insertError) throw insertError;
+  return created.token as string;
+};
+
+// A new token stops every calendar subscribed with the old link
+export const resetCalendarFeedToken = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .update({ token: crypto.randomUUID() })
+    .eq('user_id', userId)
+    .select('token')
+    .single();
+
+  if (error) throw error;
+  return data.token as string;
+};
@@ -0,0 +1,75 @@
+import { Lead, ManualActivityType, Profile } from './supabase';
+
+export const LEAD_STATUSES: { value: Lead['status']; label: string }[] = [
+  { value: 'New', label: 'New' },
+  { value: 'In-Progress', label: 'In Progress' },
+  { value: 'Closed', label: 'Closed' },
+];
+
+export const LEAD_STATUS_COLORS: Record<Lead['status'], string> = {
+  New: 'bg-blue-100 text-blue-800',
+  'In-Progress': 'bg-yellow-100 text-yellow-800',
+  Closed: 'bg-green-100 text-green-800',
+};
+
+export const LEAD_TYPES: { value: Lead['lead_type']; label: string }[] = [
+  { value: 'Individual', label: 'Individual' },
+  { value: 'Business', label: 'Business' },
+  { value: 'Housing-Society', label: 'Housing Society' },
+  { value: 'Agent', label: 'Agent' },
+];
+
+export const MODEL_TYPES: { value: Lead['model_type']; label: string }[] = [
+  { value: 'Purchase', label: 'Purchase' },
+  { value: 'Rent', label: 'Rent' },
+  { value: 'Individual Home-kit', label: 'Individual Home-kit' },
+];
+
+export const USER_ROLES: { value: Profile['role']; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'sales_rep', label: 'Sales Rep' },
+];
+
+export const LEAD_FIELD_LABELS: Record<string, string> = {
+  full_name: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  company: 'Company',
+  lead_type: 'Lead Type',
+  model_type: 'Model Type',
+  lead_score: 'Lead Score',
+  lead_score_override: 'Manual Score',
+  status: 'Status',
+  potential_amount: 'Potential Amount',
+  notes: 'Notes',
+  address: 'Address',
+  location_url: 'Location URL',
+  pincode: 'PIN Code',
+  city: 'City',
+  state: 'State',
+  territory_id: 'Territory',
+  tags: 'Tags',
+  follow_up: 'Follow-up',
+  follow_up_date: 'Follow-up Date',
+  follow_up_notes: 'Follow-up Notes',
+  lead_sealed: 'Sealed',
+  sealed_at: 'Sealed On',
+  closed_at: 'Closed On',
+  expected_close_date: 'Expected Close',
+  discount_percent: 'Discount %',
+  gst_rate: 'GST Rate',
+  assigned_to: 'Owner',
+  user_id: 'Created By',
+  quantity: 'Quantity',
+  products: 'Products',
+  services: 'Services',
+};
+
+export const MANUAL_ACTIVITY_TYPES: { value: ManualActivityType; label: string }[] = [
+  { value: 'call', label: 'Call' },
+  { value: 'visit', label: 'Site Visit' },
+  { value: 'email', label: 'Email' },
+  { value: 'meeting', label: 'Meeting' },
+  { value: 'note', label: 'Note' },
+];
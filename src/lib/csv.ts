@@ -0,0 +1,6 @@
+import Papa from 'papaparse';
+
+// The BOM makes Excel read the file as UTF-8 (₹, accented names); cells starting with =, +, - or @
+// are prefixed with a quote so spreadsheet apps don't run them as formulas
+export const toCsv = <T>(input: T[] | Papa.UnparseObject<T>) =>
+  '\uFEFF' + Papa.unparse(input, { escapeFormulae: true });
@@ -0,0 +1,21 @@
+// Follow-up dates are stored as plain `date` values (YYYY-MM-DD), so these helpers work on local calendar days
+
+export const toISODate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const parseISODate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const todayISO = () => toISODate(new Date());
+
+export const addDays = (value: string, days: number) => {
+  const date = parseISODate(value);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+};
@@ -0,0 +1,59 @@
+import { supabase, Lead } from './supabase';
+import { normalizeEmail, normalizePhone } from './normalize';
+
+// Leads the user can't access only come back with their id, owner and match reason
+export interface DuplicateMatch {
+  id: string;
+  full_name: string | null;
+  company: string | null;
+  email: string | null;
+  phone: string | null;
+  pincode: number | null;
+  status: Lead['status'] | null;
+  assigned_to: string | null;
+  owner_name: string | null;
+  match_reason: 'email' | 'phone' | 'name';
+  accessible: boolean;
+}
+
+export const MATCH_REASON_LABELS: Record<DuplicateMatch['match_reason'], string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name, same PIN code',
+};
+
+// Fields offered on the merge screen, in display order
+export const MERGE_FIELDS: (keyof Lead)[] = [
+  'full_name', 'email', 'phone', 'company', 'lead_type', 'model_type', 'status', 'potential_amount',
+  'assigned_to', 'address', 'pincode', 'city', 'state', 'location_url', 'notes',
+  'follow_up', 'follow_up_date', 'follow_up_notes', 'lead_sealed', 'expected_close_date',
+];
+
+export interface DuplicateQuery {
+  email: string;
+  phone: string;
+  full_name: string;
+  pincode: number | null;
+}
+
+// Matching runs in the database across all leads, so reps also see customers owned by colleagues
+export const findDuplicateLeads = async (query: DuplicateQuery, excludeId?: string) => {
+  const email = normalizeEmail(query.email);
+  const phone = normalizePhone(query.phone);
+  const name = query.full_name.trim();
+
+  if (!email && phone.length < 10 && !(name.length >= 3 && query.pincode)) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('find_duplicate_leads', {
+    lead_email: email,
+    lead_phone: phone,
+    lead_name: name,
+    lead_pincode: query.pincode || null,
+    exclude_id: excludeId ?? null,
+  });
+
+  if (error) throw error;
+  return (data || []) as DuplicateMatch[];
+};
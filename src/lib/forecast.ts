@@ -0,0 +1,80 @@
+import { supabase, Lead } from './supabase';
+
+export interface ForecastFilters {
+  // Months as YYYY-MM, both inclusive
+  from: string;
+  to: string;
+  ownerId: string;
+  modelType: string;
+  weightByScore: boolean;
+}
+
+export interface ForecastRow {
+  // First day of the month, or null for open leads with no expected close or follow-up date
+  close_month: string | null;
+  model_type: Lead['model_type'];
+  open_leads: number;
+  pipeline_value: number;
+  weighted_value: number;
+  sealed_leads: number;
+  sealed_value: number;
+}
+
+export interface ForecastTotals {
+  openLeads: number;
+  pipelineValue: number;
+  weightedValue: number;
+  sealedLeads: number;
+  sealedValue: number;
+}
+
+export const EMPTY_TOTALS: ForecastTotals = {
+  openLeads: 0,
+  pipelineValue: 0,
+  weightedValue: 0,
+  sealedLeads: 0,
+  sealedValue: 0,
+};
+
+export const toMonth = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const addMonths = (month: string, count: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toMonth(new Date(year, monthIndex - 1 + count, 1));
+};
+
+export const monthsBetween = (from: string, to: string) => {
+  const months: string[] = [];
+  for (let month = from; month <= to; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  return months;
+};
+
+export const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+export const sumForecast = (rows: ForecastRow[]): ForecastTotals =>
+  rows.reduce((totals, row) => ({
+    openLeads: totals.openLeads + row.open_leads,
+    pipelineValue: totals.pipelineValue + Number(row.pipeline_value),
+    weightedValue: totals.weightedValue + Number(row.weighted_value),
+    sealedLeads: totals.sealedLeads + row.sealed_leads,
+    sealedValue: totals.sealedValue + Number(row.sealed_value),
+  }), EMPTY_TOTALS);
+
+// Weighting happens in the database with the admin-defined stage probabilities
+export const fetchForecast = async (filters: ForecastFilters) => {
+  const { data, error } = await supabase.rpc('lead_forecast', {
+    range_start: `${filters.from}-01`,
+    range_end: `${filters.to}-01`,
+    owner_id: filters.ownerId || null,
+    weight_by_score: filters.weightByScore,
+  });
+
+  if (error) throw error;
+  const rows = (data || []) as ForecastRow[];
+  return filters.modelType ? rows.filter(row => row.model_type === filters.modelType) : rows;
+};
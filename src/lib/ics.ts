@@ -0,0 +1,2 @@
+// The builder lives with the edge functions so the subscription feed produces the same calendar
+export { buildFollowUpCalendar } from '../../supabase/functions/_shared/ics';
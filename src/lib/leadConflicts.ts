@@ -0,0 +1,36 @@
+import { Lead } from './supabase';
+
+// A lead's products and services have no version of their own, so each list is compared as one field
+export type ConflictField = keyof Lead | 'products' | 'services';
+
+export interface FieldConflict {
+  field: ConflictField;
+  mine: unknown;
+  theirs: unknown;
+}
+
+// Form values use '' where the database stores null, and numeric columns may arrive as strings
+const normalize = (value: unknown) => {
+  if (value === undefined || value === '') return null;
+  if (Array.isArray(value)) return JSON.stringify(value);
+  return value;
+};
+
+export const sameValue = (a: unknown, b: unknown) => {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (typeof left === 'number' || typeof right === 'number') return Number(left ?? 0) === Number(right ?? 0);
+  return left === right;
+};
+
+// The fields an edit actually changed relative to the lead as it was loaded
+export const changedLeadFields = <T extends Partial<Lead>>(base: Lead, values: T) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([field, value]) => !sameValue(value, base[field as keyof Lead]))
+  ) as Partial<T>;
+
+// A field conflicts when both sides changed it to different values; the rest merge on their own
+export const findFieldConflicts = (base: Lead, changes: Partial<Lead>, server: Lead): FieldConflict[] =>
+  (Object.keys(changes) as (keyof Lead)[])
+    .filter(field => !sameValue(server[field], base[field]) && !sameValue(server[field], changes[field]))
+    .map(field => ({ field, mine: changes[field], theirs: server[field] }));
@@ -0,0 +1,164 @@
+import ExcelJS from 'exceljs';
+import { supabase, Lead, Profile, Territory } from './supabase';
+import { toCsv } from './csv';
+import { formatCurrency, formatDate } from './format';
+import { getMemberName } from '../hooks/useTeamMembers';
+import { getTerritoryName } from '../hooks/useTerritories';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+type ExportValue = string | number;
+
+interface ExportContext {
+  members: Profile[];
+  territories: Territory[];
+}
+
+export const EXPORT_COLUMNS: {
+  key: string;
+  label: string;
+  value: (lead: Lead, context: ExportContext) => ExportValue;
+  // Formatted as on screen in CSV and JSON; XLSX keeps the number and shows it in rupees
+  currency?: boolean;
+}[] = [
+  { key: 'full_name', label: 'Full Name', value: lead => lead.full_name },
+  { key: 'email', label: 'Email', value: lead => lead.email },
+  { key: 'phone', label: 'Phone', value: lead => lead.phone || '' },
+  { key: 'company', label: 'Company', value: lead => lead.company || '' },
+  { key: 'lead_type', label: 'Lead Type', value: lead => lead.lead_type },
+  { key: 'model_type', label: 'Model Type', value: lead => lead.model_type },
+  { key: 'status', label: 'Status', value: lead => lead.status },
+  { key: 'lead_score', label: 'Lead Score', value: lead => lead.lead_score },
+  { key: 'potential_amount', label: 'Potential Amount', value: lead => lead.potential_amount, currency: true },
+  { key: 'assigned_to', label: 'Owner', value: (lead, { members }) => getMemberName(members, lead.assigned_to) },
+  { key: 'address', label: 'Address', value: lead => lead.address || '' },
+  { key: 'pincode', label: 'PIN Code', value: lead => lead.pincode ?? '' },
+  { key: 'city', label: 'City', value: lead => lead.city || '' },
+  { key: 'state', label: 'State', value: lead => lead.state || '' },
+  { key: 'territory_id', label: 'Territory', value: (lead, { territories }) => (lead.territory_id ? getTerritoryName(territories, lead.territory_id) : '') },
+  { key: 'location_url', label: 'Location URL', value: lead => lead.location_url || '' },
+  { key: 'follow_up_date', label: 'Follow-up Date', value: lead => (lead.follow_up && lead.follow_up_date ? formatDate(lead.follow_up_date) : '') },
+  { key: 'follow_up_notes', label: 'Follow-up Notes', value: lead => lead.follow_up_notes || '' },
+  { key: 'lead_sealed', label: 'Sealed', value: lead => (lead.lead_sealed ? 'Yes' : 'No') },
+  { key: 'sealed_at', label: 'Sealed On', value: lead => (lead.lead_sealed && lead.sealed_at ? formatDate(lead.sealed_at) : '') },
+  { key: 'expected_close_date', label: 'Expected Close', value: lead => (lead.expected_close_date ? formatDate(lead.expected_close_date) : '') },
+  { key: 'tags', label: 'Tags', value: lead => lead.tags.join(', ') },
+  { key: 'notes', label: 'Notes', value: lead => lead.notes || '' },
+  { key: 'created_at', label: 'Created', value: lead => formatDate(lead.created_at) },
+  { key: 'updated_at', label: 'Updated', value: lead => formatDate(lead.updated_at) },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'full_name', 'email', 'phone', 'company', 'lead_type', 'model_type', 'status', 'lead_score', 'potential_amount', 'follow_up_date',
+];
+
+interface LineItemRow {
+  lead_id: string;
+  quantity: number;
+  name: string;
+}
+
+// PostgREST URLs get long with many ids, so the lookup is split into chunks
+const ID_CHUNK_SIZE = 200;
+// Responses are capped at 1000 rows, and a chunk of leads can have more line items than that
+const ROW_PAGE_SIZE = 1000;
+
+const fetchLineItems = async (table: 'lead_products' | 'lead_services', leadIds: string[]) => {
+  const relation = table === 'lead_products' ? 'products' : 'services';
+  const rows: LineItemRow[] = [];
+
+  for (let start = 0; start < leadIds.length; start += ID_CHUNK_SIZE) {
+    for (let from = 0; ; from += ROW_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(`lead_id, quantity, ${relation}(name)`)
+        .in('lead_id', leadIds.slice(start, start + ID_CHUNK_SIZE))
+        .order('id')
+        .range(from, from + ROW_PAGE_SIZE - 1)
+        .overrideTypes<({ lead_id: string; quantity: number } & Record<string, { name: string } | null>)[], { merge: false }>();
+
+      if (error) throw error;
+      rows.push(...(data || []).map(row => ({
+        lead_id: row.lead_id,
+        quantity: row.quantity,
+        name: row[relation]?.name || 'Unknown',
+      })));
+      if (!data || data.length < ROW_PAGE_SIZE) break;
+    }
+  }
+
+  return rows;
+};
+
+const summarizeItems = (rows: LineItemRow[]) => {
+  const byLead = new Map<string, string[]>();
+  for (const row of rows) {
+    const items = byLead.get(row.lead_id) || [];
+    items.push(row.quantity > 1 ? `${row.name} x${row.quantity}` : row.name);
+    byLead.set(row.lead_id, items);
+  }
+  return byLead;
+};
+
+export const buildExportRows = async (
+  leads: Lead[],
+  columnKeys: string[],
+  includeItems: boolean,
+  context: ExportContext
+) => {
+  const columns = EXPORT_COLUMNS.filter(column => columnKeys.includes(column.key));
+  let products = new Map<string, string[]>();
+  let services = new Map<string, string[]>();
+
+  if (includeItems && leads.length > 0) {
+    const ids = leads.map(lead => lead.id);
+    const [productRows, serviceRows] = await Promise.all([
+      fetchLineItems('lead_products', ids),
+      fetchLineItems('lead_services', ids),
+    ]);
+    products = summarizeItems(productRows);
+    services = summarizeItems(serviceRows);
+  }
+
+  return leads.map(lead => {
+    const row: Record<string, ExportValue> = {};
+    for (const column of columns) {
+      row[column.label] = column.value(lead, context);
+    }
+    if (includeItems) {
+      row['Products'] = (products.get(lead.id) || []).join('; ');
+      row['Services'] = (services.get(lead.id) || []).join('; ');
+    }
+    return row;
+  });
+};
+
+const INR_FORMAT = '[$₹-4009] #,##0.00';
+
+export const serializeExport = async (rows: Record<string, ExportValue>[], format: ExportFormat) => {
+  const currencyLabels = new Set(EXPORT_COLUMNS.filter(column => column.currency).map(column => column.label));
+  const asText = () => rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([label, value]) => [label, currencyLabels.has(label) ? formatCurrency(Number(value)) : value])
+  ));
+
+  if (format === 'json') {
+    return { content: JSON.stringify(asText(), null, 2), type: 'application/json' };
+  }
+
+  if (format === 'csv') {
+    return { content: toCsv(asText()), type: 'text/csv;charset=utf-8' };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Leads');
+  sheet.columns = Object.keys(rows[0] || {}).map(header => ({
+    header,
+    key: header,
+    style: currencyLabels.has(header) ? { numFmt: INR_FORMAT } : {},
+  }));
+  sheet.addRows(rows);
+  return {
+    content: await workbook.xlsx.writeBuffer(),
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  };
+};
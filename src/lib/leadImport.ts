@@ -0,0 +1,313 @@
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import { supabase, Lead } from './supabase';
+import { toCsv } from './csv';
+import { toISODate } from './dates';
+import { LEAD_STATUSES, LEAD_TYPES, MODEL_TYPES } from './constants';
+import { EMAIL_PATTERN, normalizeEmail, normalizePhone } from './normalize';
+import { PincodeDirectory, PincodeLocation, checkPincode } from './pincodes';
+
+export type ImportField =
+  | 'full_name'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'lead_type'
+  | 'model_type'
+  | 'status'
+  | 'lead_score'
+  | 'potential_amount'
+  | 'address'
+  | 'pincode'
+  | 'location_url'
+  | 'follow_up_date'
+  | 'notes';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'full_name', label: 'Full Name', required: true, aliases: ['name', 'full name', 'contact', 'contact name', 'customer'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'email address', 'mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'mobile', 'phone number', 'contact number', 'mobile number'] },
+  { key: 'company', label: 'Company', aliases: ['company', 'organisation', 'organization', 'society', 'business'] },
+  { key: 'lead_type', label: 'Lead Type', aliases: ['lead type', 'type', 'category'] },
+  { key: 'model_type', label: 'Model Type', aliases: ['model type', 'model', 'purchase type'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'stage'] },
+  { key: 'lead_score', label: 'Lead Score', aliases: ['lead score', 'score'] },
+  { key: 'potential_amount', label: 'Potential Amount', aliases: ['potential amount', 'amount', 'value', 'deal value'] },
+  { key: 'address', label: 'Address', aliases: ['address', 'full address'] },
+  { key: 'pincode', label: 'PIN Code', aliases: ['pincode', 'pin code', 'pin', 'postal code', 'zip'] },
+  { key: 'location_url', label: 'Location URL', aliases: ['location url', 'location', 'map', 'maps link'] },
+  { key: 'follow_up_date', label: 'Follow-up Date', aliases: ['follow up date', 'follow-up date', 'followup date', 'follow up'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'remarks', 'comments'] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportDefaults {
+  lead_type: Lead['lead_type'];
+  model_type: Lead['model_type'];
+}
+
+export type ImportLead = Pick<Lead, 'full_name' | 'email' | 'lead_type' | 'model_type' | 'status' | 'lead_score' | 'lead_score_override' | 'potential_amount' | 'address'> &
+  Partial<Pick<Lead, 'phone' | 'company' | 'pincode' | 'city' | 'state' | 'location_url' | 'follow_up' | 'follow_up_date' | 'notes'>>;
+
+export interface ValidatedRow {
+  rowNumber: number;
+  source: Record<string, string>;
+  lead: ImportLead | null;
+  errors: string[];
+  duplicateOf: string | null;
+}
+
+export interface ParsedFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Excel stores dates as UTC midnight, so the calendar day is read in UTC
+const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('hyperlink' in value) return String(value.text);
+  if ('formula' in value || 'sharedFormula' in value) return cellText(value.result ?? null);
+  return ''; // error values
+};
+
+const parseCsv = async (file: File): Promise<ParsedFile> => {
+  const { data, meta } = Papa.parse<Record<string, string>>(await file.text(), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim(),
+  });
+  return { headers: meta.fields || [], rows: data };
+};
+
+const parseWorkbook = async (file: File): Promise<ParsedFile> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const columns: { header: string; index: number }[] = [];
+  sheet.getRow(1).eachCell((cell, index) => {
+    const header = cellText(cell.value).trim();
+    if (header) columns.push({ header, index });
+  });
+
+  const rows: Record<string, string>[] = [];
+  for (let number = 2; number <= sheet.rowCount; number++) {
+    const row = sheet.getRow(number);
+    const values = columns.map(({ header, index }) => [header, cellText(row.getCell(index).value)]);
+    if (values.some(([, value]) => value.trim())) rows.push(Object.fromEntries(values));
+  }
+
+  return { headers: columns.map(column => column.header), rows };
+};
+
+export const parseImportFile = (file: File) =>
+  /\.csv$/i.test(file.name) || file.type === 'text/csv' ? parseCsv(file) : parseWorkbook(file);
+
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.key, field.label, ...field.aliases].map(simplify);
+    const header = headers.find(h => candidates.includes(simplify(h)));
+    if (header && !Object.values(mapping).includes(header)) {
+      mapping[field.key] = header;
+    }
+  }
+  return mapping;
+};
+
+// Accepts either the stored value or its label, in any case ("housing society" -> 'Housing-Society')
+const matchOption = <T extends string>(value: string, options: { value: T; label: string }[]) => {
+  const key = simplify(value);
+  return options.find(o => simplify(o.value) === key || simplify(o.label) === key)?.value;
+};
+
+const parseNumber = (value: string) => Number(value.replace(/[₹,\s]/g, '').replace(/^rs\.?/i, ''));
+
+// Accepts 2025-10-19 and 19/10/2025; anything else is ambiguous (is 03/04 March or April?)
+const parseImportDate = (value: string) => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirst = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : dayFirst ? [dayFirst[3], dayFirst[2], dayFirst[1]] : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(Number);
+  const date = new Date(year, month - 1, day);
+  // Date rolls 31/02 over into March, so check the parts survived
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toISODate(date);
+};
+
+// Returns the email and normalized phone keys a lead would collide on
+export const duplicateKeys = (email: string | null, phone: string | null) => {
+  const keys: string[] = [];
+  const normalizedEmail = normalizeEmail(email);
+  const normalizedPhone = normalizePhone(phone);
+  if (normalizedEmail) keys.push(`email:${normalizedEmail}`);
+  if (normalizedPhone.length >= 10) keys.push(`phone:${normalizedPhone}`);
+  return keys;
+};
+
+// For leads the user can't access, only the email or phone that matched comes back, with the owner
+export interface ExistingContact {
+  email: string | null;
+  phone: string | null;
+  lead_name: string | null;
+  owner_name: string | null;
+  match_reason: 'email' | 'phone';
+}
+
+const LOOKUP_CHUNK_SIZE = 200;
+
+// Checks the file's emails and phones against every lead in the database, not just the ones loaded here
+export const findExistingContacts = async (rows: Record<string, string>[], mapping: ColumnMapping) => {
+  const value = (row: Record<string, string>, field: ImportField) => {
+    const column = mapping[field];
+    return column ? String(row[column] ?? '') : '';
+  };
+
+  const keys = [...new Set(rows.flatMap(row => duplicateKeys(value(row, 'email'), value(row, 'phone'))))];
+  const contacts: ExistingContact[] = [];
+
+  for (let start = 0; start < keys.length; start += LOOKUP_CHUNK_SIZE) {
+    const chunk = keys.slice(start, start + LOOKUP_CHUNK_SIZE);
+    const { data, error } = await supabase.rpc('find_import_duplicates', {
+      emails: chunk.filter(key => key.startsWith('email:')).map(key => key.slice('email:'.length)),
+      phones: chunk.filter(key => key.startsWith('phone:')).map(key => key.slice('phone:'.length)),
+    });
+
+    if (error) throw error;
+    contacts.push(...((data || []) as ExistingContact[]));
+  }
+
+  return contacts;
+};
+
+export const validateRows = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  defaults: ImportDefaults,
+  existing: ExistingContact[],
+  pincodes: PincodeDirectory
+): ValidatedRow[] => {
+  const known = new Map<string, string>();
+  for (const contact of existing) {
+    const description = contact.lead_name
+      ? `existing lead ${contact.lead_name}`
+      : `a lead owned by ${contact.owner_name || 'another user'}`;
+    for (const key of duplicateKeys(contact.email, contact.phone)) {
+      known.set(key, description);
+    }
+  }
+
+  return rows.map((source, index) => {
+    const rowNumber = index + 2; // account for the header row
+    const errors: string[] = [];
+    const get = (field: ImportField) => {
+      const column = mapping[field];
+      return column ? String(source[column] ?? '').trim() : '';
+    };
+
+    const fullName = get('full_name');
+    const email = get('email');
+    if (!fullName) errors.push('Full name is required');
+    if (!email) {
+      errors.push('Email is required');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`Invalid email "${email}"`);
+    }
+
+    const leadTypeValue = get('lead_type');
+    const leadType = leadTypeValue ? matchOption(leadTypeValue, LEAD_TYPES) : defaults.lead_type;
+    if (!leadType) errors.push(`Unknown lead type "${leadTypeValue}"`);
+
+    const modelTypeValue = get('model_type');
+    const modelType = modelTypeValue ? matchOption(modelTypeValue, MODEL_TYPES) : defaults.model_type;
+    if (!modelType) errors.push(`Unknown model type "${modelTypeValue}"`);
+
+    const statusValue = get('status');
+    const status = statusValue ? matchOption(statusValue, LEAD_STATUSES) : 'New';
+    if (!status) errors.push(`Unknown status "${statusValue}"`);
+
+    const scoreValue = get('lead_score');
+    const score = scoreValue ? parseNumber(scoreValue) : 0;
+    if (!Number.isInteger(score) || score < 0 || score > 100) {
+      errors.push(`Lead score must be a whole number from 0 to 100, got "${scoreValue}"`);
+    }
+
+    const amountValue = get('potential_amount');
+    const amount = amountValue ? parseNumber(amountValue) : 0;
+    if (!Number.isFinite(amount) || amount < 0) {
+      errors.push(`Invalid potential amount "${amountValue}"`);
+    }
+
+    const pincodeValue = get('pincode').replace(/\s/g, '');
+    let location: PincodeLocation | null = null;
+    if (pincodeValue) {
+      const check = checkPincode(pincodeValue, pincodes);
+      if (check.valid) location = check.location;
+      else errors.push(`${check.error}, got "${pincodeValue}"`);
+    }
+
+    const followUpValue = get('follow_up_date');
+    const followUpDate = followUpValue ? parseImportDate(followUpValue) : null;
+    if (followUpValue && !followUpDate) {
+      errors.push(`Invalid follow-up date "${followUpValue}", use YYYY-MM-DD or DD/MM/YYYY`);
+    }
+
+    const phone = get('phone');
+    let duplicateOf: string | null = null;
+    for (const key of duplicateKeys(email, phone)) {
+      const match = known.get(key);
+      if (match) {
+        duplicateOf = match;
+        break;
+      }
+    }
+    if (duplicateOf) {
+      errors.push(`Duplicate of ${duplicateOf}`);
+    } else {
+      for (const key of duplicateKeys(email, phone)) {
+        known.set(key, `row ${rowNumber}`);
+      }
+    }
+
+    const lead: ImportLead | null = errors.length > 0 || !leadType || !modelType || !status
+      ? null
+      : {
+          full_name: fullName,
+          email,
+          phone: phone || null,
+          company: get('company') || null,
+          lead_type: leadType,
+          model_type: modelType,
+          status,
+          lead_score: score,
+          // A score from the file is kept; without one the scoring rules decide
+          lead_score_override: !!scoreValue,
+          potential_amount: amount,
+          address: get('address'),
+          pincode: pincodeValue ? Number(pincodeValue) : null,
+          city: location?.city ?? null,
+          state: location?.state ?? null,
+          location_url: get('location_url') || null,
+          follow_up: followUpDate ? true : null,
+          follow_up_date: followUpDate,
+          notes: get('notes') || null,
+        };
+
+    return { rowNumber, source, lead, errors, duplicateOf };
+  });
+};
+
+export const buildRejectionReport = (rows: ValidatedRow[], headers: string[]) =>
+  toCsv({
+    fields: ['Row', 'Errors', ...headers],
+    data: rows.map(row => [row.rowNumber, row.errors.join('; '), ...headers.map(h => row.source[h] ?? '')]),
+  });
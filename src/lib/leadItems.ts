@@ -0,0 +1,47 @@
+import { supabase, LeadProduct, LeadService, Product, Service } from './supabase';
+import { QuoteLineItem } from './quote';
+
+type LeadProductRow = Pick<LeadProduct, 'product_id' | 'quantity' | 'discount_percent' | 'unit_price'> & {
+  products: Pick<Product, 'name' | 'price'> | null;
+};
+type LeadServiceRow = Pick<LeadService, 'service_id' | 'quantity' | 'discount_percent' | 'unit_price'> & {
+  services: Pick<Service, 'name' | 'price'> | null;
+};
+
+// Products and services on a lead, priced as stored on the lead with the catalog price as fallback
+export const fetchLeadLineItems = async (leadId: string): Promise<QuoteLineItem[]> => {
+  const [productsResult, servicesResult] = await Promise.all([
+    supabase
+      .from('lead_products')
+      .select('product_id, quantity, discount_percent, unit_price, products(name, price)')
+      .eq('lead_id', leadId)
+      .overrideTypes<LeadProductRow[], { merge: false }>(),
+    supabase
+      .from('lead_services')
+      .select('service_id, quantity, discount_percent, unit_price, services(name, price)')
+      .eq('lead_id', leadId)
+      .overrideTypes<LeadServiceRow[], { merge: false }>(),
+  ]);
+
+  if (productsResult.error) throw productsResult.error;
+  if (servicesResult.error) throw servicesResult.error;
+
+  return [
+    ...(productsResult.data || []).map((row): QuoteLineItem => ({
+      key: `product:${row.product_id}`,
+      name: row.products?.name || 'Unknown product',
+      kind: 'Product',
+      unitPrice: row.unit_price ?? row.products?.price ?? 0,
+      quantity: row.quantity,
+      discountPercent: row.discount_percent,
+    })),
+    ...(servicesResult.data || []).map((row): QuoteLineItem => ({
+      key: `service:${row.service_id}`,
+      name: row.services?.name || 'Unknown service',
+      kind: 'Service',
+      unitPrice: row.unit_price ?? row.services?.price ?? 0,
+      quantity: row.quantity,
+      discountPercent: row.discount_percent,
+    })),
+  ];
+};
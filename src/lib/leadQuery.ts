@@ -0,0 +1,196 @@
+import { supabase, Lead } from './supabase';
+import { NO_TERRITORY } from './territories';
+
+export interface LeadFilters {
+  search: string;
+  status: string;
+  leadType: string;
+  modelType: string;
+  // Resolved user id; 'me' is handled by the caller
+  ownerId: string;
+  // Territory id, or NO_TERRITORY for leads outside every territory
+  territoryId: string;
+}
+
+export type LeadSortColumn = 'lead_score' | 'potential_amount' | 'created_at' | 'follow_up_date';
+
+export interface LeadSort {
+  column: LeadSortColumn;
+  ascending: boolean;
+}
+
+// Per status, across every lead matching the filters rather than just the loaded page
+export type BoardTotals = Partial<Record<Lead['status'], { count: number; amount: number }>>;
+
+export interface LeadStats {
+  total: number;
+  new: number;
+  inProgress: number;
+  closed: number;
+}
+
+export const EMPTY_FILTERS: LeadFilters = { search: '', status: '', leadType: '', modelType: '', ownerId: '', territoryId: '' };
+
+export const DEFAULT_SORT: LeadSort = { column: 'lead_score', ascending: false };
+
+export const PAGE_SIZE = 50;
+
+// PostgREST caps a single response at 1000 rows
+const FETCH_ALL_CHUNK = 1000;
+
+// Keeps `id=in.(...)` filters well inside URL length limits
+export const ID_CHUNK = 100;
+
+// Characters with meaning inside a PostgREST `or` filter
+const sanitizeSearch = (term: string) => term.replace(/[%*,()\\]/g, ' ').trim();
+
+const filteredLeads = <Columns extends string = '*'>(
+  filters: LeadFilters,
+  options?: { count?: 'exact'; head?: boolean },
+  columns = '*' as Columns
+) => {
+  let query = supabase.from('leads').select(columns, options);
+
+  const term = sanitizeSearch(filters.search);
+  if (term) {
+    query = query.or(`full_name.ilike.%${term}%,email.ilike.%${term}%,company.ilike.%${term}%`);
+  }
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.leadType) query = query.eq('lead_type', filters.leadType);
+  if (filters.modelType) query = query.eq('model_type', filters.modelType);
+  if (filters.ownerId) query = query.eq('assigned_to', filters.ownerId);
+  if (filters.territoryId === NO_TERRITORY) query = query.is('territory_id', null);
+  else if (filters.territoryId) query = query.eq('territory_id', filters.territoryId);
+
+  return query;
+};
+
+// Ties are broken by id so rows don't shift between pages
+const sortedLeads = (filters: LeadFilters, sort: LeadSort, options?: { count?: 'exact' }) =>
+  filteredLeads(filters, options)
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id');
+
+export const fetchLeadPage = async (filters: LeadFilters, sort: LeadSort, page: number, pageSize = PAGE_SIZE) => {
+  const from = page * pageSize;
+  const { data, error, count } = await sortedLeads(filters, sort, { count: 'exact' })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { leads: (data || []) as Lead[], count: count ?? 0 };
+};
+
+export const fetchAllLeads = async (filters: LeadFilters, sort: LeadSort) => {
+  const leads: Lead[] = [];
+
+  for (let from = 0; ; from += FETCH_ALL_CHUNK) {
+    const { data, error } = await sortedLeads(filters, sort).range(from, from + FETCH_ALL_CHUNK - 1);
+    if (error) throw error;
+    leads.push(...(data || []));
+    if (!data || data.length < FETCH_ALL_CHUNK) break;
+  }
+
+  return leads;
+};
+
+// Ids only, for acting on every lead that matches the filters
+export const fetchAllLeadIds = async (filters: LeadFilters) => {
+  const ids: string[] = [];
+
+  for (let from = 0; ; from += FETCH_ALL_CHUNK) {
+    const { data, error } = await filteredLeads(filters, undefined, 'id')
+      .order('id')
+      .range(from, from + FETCH_ALL_CHUNK - 1);
+    if (error) throw error;
+    ids.push(...(data || []).map(lead => lead.id));
+    if (!data || data.length < FETCH_ALL_CHUNK) break;
+  }
+
+  return ids;
+};
+
+// Same order as the list: nulls last, ties broken by id
+const compareLeads = (sort: LeadSort) => (a: Lead, b: Lead) => {
+  const x = a[sort.column] as string | number | null;
+  const y = b[sort.column] as string | number | null;
+  if (x === y) return a.id.localeCompare(b.id);
+  if (x === null) return 1;
+  if (y === null) return -1;
+  return (x < y ? -1 : 1) * (sort.ascending ? 1 : -1);
+};
+
+// Mirrors filteredLeads for leads held in the offline cache
+export const filterLeadsLocally = (leads: Lead[], filters: LeadFilters, sort: LeadSort) => {
+  const term = sanitizeSearch(filters.search).toLowerCase();
+  return leads
+    .filter(lead =>
+      (!term || [lead.full_name, lead.email, lead.company].some(value => value?.toLowerCase().includes(term))) &&
+      (!filters.status || lead.status === filters.status) &&
+      (!filters.leadType || lead.lead_type === filters.leadType) &&
+      (!filters.modelType || lead.model_type === filters.modelType) &&
+      (!filters.ownerId || lead.assigned_to === filters.ownerId) &&
+      (!filters.territoryId || lead.territory_id === (filters.territoryId === NO_TERRITORY ? null : filters.territoryId))
+    )
+    .sort(compareLeads(sort));
+};
+
+// Fetched in chunks, so sorted here rather than by the database
+export const fetchLeadsByIds = async (ids: string[], sort: LeadSort) => {
+  const leads: Lead[] = [];
+
+  for (let from = 0; from < ids.length; from += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('*')
+      .in('id', ids.slice(from, from + ID_CHUNK));
+
+    if (error) throw error;
+    leads.push(...(data || []));
+  }
+
+  return leads.sort(compareLeads(sort));
+};
+
+export const boardTotalsFrom = (leads: Lead[]) => {
+  const totals: BoardTotals = {};
+  for (const lead of leads) {
+    const column = totals[lead.status] || { count: 0, amount: 0 };
+    totals[lead.status] = { count: column.count + 1, amount: column.amount + (lead.potential_amount || 0) };
+  }
+  return totals;
+};
+
+export const fetchBoardTotals = async (filters: LeadFilters): Promise<BoardTotals> => {
+  const { data, error } = await supabase.rpc('lead_board_totals', {
+    search_term: sanitizeSearch(filters.search),
+    filter_status: filters.status,
+    filter_lead_type: filters.leadType,
+    filter_model_type: filters.modelType,
+    owner_id: filters.ownerId || null,
+    territory: filters.territoryId,
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    ((data || []) as { status: Lead['status']; lead_count: number; pipeline_value: number }[])
+      .map(row => [row.status, { count: Number(row.lead_count), amount: Number(row.pipeline_value) }])
+  );
+};
+
+// Counts only; no rows are transferred
+export const fetchLeadStats = async (): Promise<LeadStats> => {
+  const countWhere = async (status?: Lead['status']) => {
+    const { count, error } = await filteredLeads({ ...EMPTY_FILTERS, status: status || '' }, { count: 'exact', head: true });
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const [total, newLeads, inProgress, closed] = await Promise.all([
+    countWhere(),
+    countWhere('New'),
+    countWhere('In-Progress'),
+    countWhere('Closed'),
+  ]);
+
+  return { total, new: newLeads, inProgress, closed };
+};
@@ -0,0 +1,82 @@
+// Minimal promise wrapper over IndexedDB for the offline cache and sync queue
+
+const DB_NAME = 'dert-leads';
+const DB_VERSION = 1;
+
+export type StoreName = 'leads' | 'catalog' | 'queue';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('leads')) db.createObjectStore('leads', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('catalog')) db.createObjectStore('catalog', { keyPath: 'key' });
+        if (!db.objectStoreNames.contains('queue')) db.createObjectStore('queue', { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const complete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const result = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName) => {
+  const db = await openDatabase();
+  return result(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+};
+
+export const getOne = async <T>(store: StoreName, key: IDBValidKey) => {
+  const db = await openDatabase();
+  return result(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+};
+
+// Returns the key, which callers need for auto-incremented stores
+export const putOne = async <T>(store: StoreName, value: T) => {
+  const db = await openDatabase();
+  return result(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+// With `replace`, the store is emptied first in the same transaction
+export const putMany = async <T>(store: StoreName, values: T[], replace = false) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  if (replace) objectStore.clear();
+  for (const value of values) objectStore.put(value);
+  await complete(transaction);
+};
+
+export const deleteOne = async (store: StoreName, key: IDBValidKey) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(key);
+  await complete(transaction);
+};
+
+export const clearAll = async () => {
+  const db = await openDatabase();
+  const stores: StoreName[] = ['leads', 'catalog', 'queue'];
+  const transaction = db.transaction(stores, 'readwrite');
+  for (const store of stores) transaction.objectStore(store).clear();
+  await complete(transaction);
+};
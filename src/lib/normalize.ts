@@ -0,0 +1,23 @@
+export const normalizeEmail = (email: string | null | undefined) => (email || '').trim().toLowerCase();
+
+// Reduces Indian phone numbers to their 10-digit subscriber form (+91 98765 43210 -> 9876543210)
+export const normalizePhone = (phone: string | null | undefined) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) return digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) return digits.slice(1);
+  return digits;
+};
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+
+// Splits "Expo 2025, vip" into tags, keeping the first spelling of any repeated tag
+export const parseTags = (value: string) => {
+  const tags = new Map<string, string>();
+  for (const part of value.split(',')) {
+    const tag = part.trim().replace(/\s+/g, ' ');
+    if (tag && !tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  return [...tags.values()];
+};
@@ -0,0 +1,419 @@
+import { supabase, Database, Lead, Product, Service, ScoringRule } from './supabase';
+import { clearAll, deleteOne, getAll, getOne, putMany, putOne } from './localStore';
+import { BoardTotals, DEFAULT_SORT, LeadFilters, LeadSort, LeadStats, boardTotalsFrom, filterLeadsLocally } from './leadQuery';
+import { addDays, todayISO } from './dates';
+import { DEFAULT_GST_RATE } from './quote';
+
+type LeadInsert = Database['public']['Tables']['leads']['Insert'];
+type LeadUpdate = Database['public']['Tables']['leads']['Update'];
+
+export interface QueuedItem {
+  item_id: string;
+  unit_price: number;
+  quantity: number;
+  discount_percent: number;
+}
+
+export interface SyncConflict {
+  reason: string;
+  // The lead as it now stands on the server; null when it was deleted or never saved
+  server: Lead | null;
+}
+
+interface QueuedBase {
+  // Assigned by IndexedDB
+  id?: number;
+  leadId: string;
+  queuedAt: string;
+  conflict?: SyncConflict;
+}
+
+export type QueuedChange =
+  | (QueuedBase & { kind: 'create'; values: LeadInsert; products: QueuedItem[]; services: QueuedItem[] })
+  // `baseUpdatedAt` is the server version the edit was made against
+  | (QueuedBase & { kind: 'update'; values: LeadUpdate; baseUpdatedAt: string });
+
+export type CatalogKey = 'products' | 'services' | 'scoring_rules';
+
+interface CatalogEntry {
+  key: CatalogKey;
+  items: Product[] | Service[] | ScoringRule[];
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: number;
+  lastSyncedAt: string | null;
+}
+
+let status: SyncStatus = {
+  online: navigator.onLine,
+  syncing: false,
+  pending: 0,
+  conflicts: 0,
+  lastSyncedAt: null,
+};
+
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+};
+
+export const subscribeToSync = (listener: (status: SyncStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// supabase-js reports an unreachable server as a "Failed to fetch" style error rather than throwing
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+// Falls back to the local cache when the server can't be reached
+export const withLocalFallback = async <T>(remote: () => Promise<T>, local: () => Promise<T>) => {
+  try {
+    return await remote();
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return local();
+  }
+};
+
+const refreshCounts = async () => {
+  const queue = await getAll<QueuedChange>('queue');
+  setStatus({ pending: queue.length, conflicts: queue.filter(change => change.conflict).length });
+};
+
+// Fills the columns the database would default, so queued leads display like saved ones
+const toLocalLead = (values: LeadInsert, queuedAt: string): Lead => ({
+  assigned_to: null,
+  phone: null,
+  company: null,
+  lead_score: 0,
+  lead_score_override: false,
+  score_breakdown: null,
+  status: 'New',
+  potential_amount: 0,
+  notes: null,
+  address: '',
+  location_url: null,
+  pincode: null,
+  follow_up: null,
+  follow_up_date: null,
+  follow_up_notes: null,
+  lead_sealed: null,
+  sealed_at: null,
+  closed_at: null,
+  expected_close_date: null,
+  territory_id: null,
+  city: null,
+  state: null,
+  tags: [],
+  discount_percent: 0,
+  gst_rate: DEFAULT_GST_RATE,
+  ...values,
+  id: values.id!,
+  user_id: values.user_id,
+  created_at: queuedAt,
+  updated_at: queuedAt,
+});
+
+// Queued changes laid over server rows, so offline edits survive a cache refresh
+const applyQueue = (leads: Lead[], queue: QueuedChange[]) => {
+  const byId = new Map(leads.map(lead => [lead.id, lead]));
+  for (const change of queue) {
+    const existing = byId.get(change.leadId);
+    if (change.kind === 'create') byId.set(change.leadId, toLocalLead(change.values, change.queuedAt));
+    else if (existing) byId.set(change.leadId, { ...existing, ...change.values });
+  }
+  return [...byId.values()];
+};
+
+export const readLocalLeads = () => getAll<Lead>('leads');
+
+export const readLocalLead = (id: string) => getOne<Lead>('leads', id);
+
+export const readCatalog = async <T extends Product | Service | ScoringRule>(key: CatalogKey) => {
+  const entry = await getOne<CatalogEntry>('catalog', key);
+  return (entry?.items || []) as T[];
+};
+
+export const queryLocalLeads = async (filters: LeadFilters, sort: LeadSort, page: number, pageSize: number) => {
+  const leads = filterLeadsLocally(await readLocalLeads(), filters, sort);
+  return { leads: leads.slice(page * pageSize, (page + 1) * pageSize), count: leads.length };
+};
+
+export const localLeadStats = async (): Promise<LeadStats> => {
+  const leads = await readLocalLeads();
+  const count = (leadStatus: Lead['status']) => leads.filter(lead => lead.status === leadStatus).length;
+  return { total: leads.length, new: count('New'), inProgress: count('In-Progress'), closed: count('Closed') };
+};
+
+export const localBoardTotals = async (filters: LeadFilters): Promise<BoardTotals> =>
+  boardTotalsFrom(filterLeadsLocally(await readLocalLeads(), filters, DEFAULT_SORT));
+
+const fetchActive = async (table: 'products' | 'services' | 'scoring_rules') => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Per query, which is also the most the server returns in one response
+const CACHE_LIMIT = 1000;
+const CACHE_FOLLOW_UP_DAYS = 14;
+
+// Only what's needed in the field is cached: the user's own leads and follow-ups due in the next two weeks
+const fetchFieldLeads = async (userId: string) => {
+  const [assigned, followUps] = await Promise.all([
+    supabase
+      .from('leads')
+      .select('*')
+      .eq('assigned_to', userId)
+      .order('updated_at', { ascending: false })
+      .limit(CACHE_LIMIT),
+    supabase
+      .from('leads')
+      .select('*')
+      .eq('follow_up', true)
+      .lte('follow_up_date', addDays(todayISO(), CACHE_FOLLOW_UP_DAYS))
+      .order('follow_up_date')
+      .limit(CACHE_LIMIT),
+  ]);
+
+  if (assigned.error) throw assigned.error;
+  if (followUps.error) throw followUps.error;
+  const byId = new Map([...(assigned.data || []), ...(followUps.data || [])].map(lead => [lead.id, lead as Lead]));
+  return [...byId.values()];
+};
+
+// Whose leads are cached; set while sync is running for a signed-in user
+let cacheUserId: string | null = null;
+
+export const refreshLocalCache = async () => {
+  if (!cacheUserId) return;
+
+  const [leads, products, services, scoringRules, queue] = await Promise.all([
+    fetchFieldLeads(cacheUserId),
+    fetchActive('products'),
+    fetchActive('services'),
+    fetchActive('scoring_rules'),
+    getAll<QueuedChange>('queue'),
+  ]);
+
+  await putMany('leads', applyQueue(leads, queue), true);
+  await putMany<CatalogEntry>('catalog', [
+    { key: 'products', items: products },
+    { key: 'services', items: services },
+    { key: 'scoring_rules', items: scoringRules },
+  ], true);
+};
+
+export const queueLeadCreate = async (
+  values: LeadInsert & { id: string },
+  products: QueuedItem[],
+  services: QueuedItem[]
+) => {
+  const queuedAt = new Date().toISOString();
+  await putOne<QueuedChange>('queue', { kind: 'create', leadId: values.id, values, products, services, queuedAt });
+  await putOne('leads', toLocalLead(values, queuedAt));
+  await refreshCounts();
+};
+
+// Edits to a lead that is still queued are folded into its pending change
+export const queueLeadUpdate = async (lead: Lead, values: LeadUpdate) => {
+  const queue = await getAll<QueuedChange>('queue');
+  const pending = queue.find(change => change.leadId === lead.id && !change.conflict);
+
+  if (pending?.kind === 'create') {
+    await putOne<QueuedChange>('queue', { ...pending, values: { ...pending.values, ...values } as LeadInsert });
+  } else if (pending) {
+    await putOne<QueuedChange>('queue', { ...pending, values: { ...pending.values, ...values } });
+  } else {
+    await putOne<QueuedChange>('queue', {
+      kind: 'update',
+      leadId: lead.id,
+      values,
+      baseUpdatedAt: lead.updated_at,
+      queuedAt: new Date().toISOString(),
+    });
+  }
+
+  const cached = await readLocalLead(lead.id);
+  await putOne('leads', { ...(cached || lead), ...values });
+  await refreshCounts();
+};
+
+// Saves straight away when the server is reachable, otherwise queues the change for the next sync
+export const updateLeadOrQueue = async (lead: Lead, values: LeadUpdate) => {
+  if (navigator.onLine) {
+    const { error } = await supabase.from('leads').update(values).eq('id', lead.id);
+    if (!error) return 'saved';
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await queueLeadUpdate(lead, values);
+  return 'queued';
+};
+
+const markConflict = async (change: QueuedChange, conflict: SyncConflict) => {
+  await putOne<QueuedChange>('queue', { ...change, conflict });
+  return 'conflict' as const;
+};
+
+// Every step skips rows that already exist, so a create that failed part-way can simply be pushed again
+const pushCreate = async (change: Extract<QueuedChange, { kind: 'create' }>) => {
+  const { error } = await supabase
+    .from('leads')
+    .upsert([change.values], { onConflict: 'id', ignoreDuplicates: true });
+  if (error) return error;
+
+  for (const [table, column, items] of [
+    ['lead_products', 'product_id', change.products],
+    ['lead_services', 'service_id', change.services],
+  ] as const) {
+    if (items.length === 0) continue;
+    const { error: itemsError } = await supabase
+      .from(table)
+      .upsert(items.map(item => ({
+        lead_id: change.leadId,
+        [column]: item.item_id,
+        unit_price: item.unit_price,
+        quantity: item.quantity,
+        discount_percent: item.discount_percent,
+      })), { onConflict: `lead_id,${column}`, ignoreDuplicates: true });
+
+    // The lead itself is saved, but the change stays queued until its items are too
+    if (itemsError) {
+      return isNetworkError(itemsError)
+        ? itemsError
+        : { ...itemsError, message: `The lead was saved but its ${table === 'lead_products' ? 'products' : 'services'} were not: ${itemsError.message}` };
+    }
+  }
+  return null;
+};
+
+// The update only applies if the lead is unchanged since it was edited offline
+const pushUpdate = async (change: Extract<QueuedChange, { kind: 'update' }>) => {
+  const { data, error } = await supabase
+    .from('leads')
+    .update({ ...change.values, updated_at: new Date().toISOString() })
+    .eq('id', change.leadId)
+    .eq('updated_at', change.baseUpdatedAt)
+    .select('id');
+
+  if (error) return error;
+  if (data && data.length > 0) return null;
+
+  const { data: server, error: fetchError } = await supabase
+    .from('leads')
+    .select('*')
+    .eq('id', change.leadId)
+    .maybeSingle();
+
+  if (fetchError) return fetchError;
+  return {
+    reason: server ? 'Someone else changed this lead while you were offline' : 'This lead was deleted while you were offline',
+    server: server as Lead | null,
+  };
+};
+
+const pushChange = async (change: QueuedChange) => {
+  const outcome = change.kind === 'create' ? await pushCreate(change) : await pushUpdate(change);
+
+  if (outcome && 'server' in outcome) return markConflict(change, outcome);
+  if (outcome) {
+    if (isNetworkError(outcome)) return 'offline';
+    return markConflict(change, { reason: outcome.message, server: null });
+  }
+
+  await deleteOne('queue', change.id!);
+  return 'done';
+};
+
+let running: Promise<void> | null = null;
+
+// Pushes queued changes in the order they were made, then refreshes the cache
+export const syncNow = () => {
+  if (!running) {
+    running = (async () => {
+      if (!navigator.onLine) return;
+      setStatus({ syncing: true });
+      try {
+        for (const change of await getAll<QueuedChange>('queue')) {
+          if (change.conflict) continue;
+          if (await pushChange(change) === 'offline') return;
+        }
+        await refreshLocalCache();
+        setStatus({ lastSyncedAt: new Date().toISOString() });
+      } catch (error) {
+        console.error('Error syncing offline changes:', error);
+      } finally {
+        setStatus({ syncing: false });
+        await refreshCounts();
+      }
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+export const readQueue = () => getAll<QueuedChange>('queue');
+
+// Re-applies the offline edit on top of the server's current version
+export const keepLocalChange = async (change: QueuedChange) => {
+  const { conflict, ...rest } = change;
+  const retry = rest.kind === 'update' && conflict?.server ? { ...rest, baseUpdatedAt: conflict.server.updated_at } : rest;
+  await putOne<QueuedChange>('queue', retry);
+  await refreshCounts();
+  return syncNow();
+};
+
+export const discardLocalChange = async (change: QueuedChange) => {
+  await deleteOne('queue', change.id!);
+  if (change.kind === 'create') await deleteOne('leads', change.leadId);
+  else if (change.conflict?.server) await putOne('leads', change.conflict.server);
+  await refreshCounts();
+};
+
+// Keeps the status in step with the connection and syncs whenever it comes back
+export const startOfflineSync = (userId: string) => {
+  cacheUserId = userId;
+
+  const handleOnline = () => {
+    setStatus({ online: true });
+    syncNow();
+  };
+  const handleOffline = () => setStatus({ online: false });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  refreshCounts().catch(error => console.error('Error reading offline queue:', error));
+  syncNow();
+
+  return () => {
+    cacheUserId = null;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
+
+// Cached leads must not outlive the session they were fetched for
+export const clearLocalData = async () => {
+  await clearAll();
+  await refreshCounts();
+};
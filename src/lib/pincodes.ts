@@ -0,0 +1,50 @@
+import { PINCODE_PATTERN } from './normalize';
+
+export interface PincodeLocation {
+  // District as recorded by India Post, used as the lead's city
+  city: string;
+  state: string;
+}
+
+export type PincodeDirectory = Map<number, PincodeLocation>;
+
+interface PincodeDataset {
+  states: string[];
+  districts: [string, number][];
+  // District index -> PIN codes in that district
+  pincodes: Record<string, number[]>;
+}
+
+let directory: Promise<PincodeDirectory> | null = null;
+
+// The dataset ships with the app as its own chunk and is only fetched the first time a PIN is checked
+export const loadPincodeDirectory = () => {
+  if (!directory) {
+    directory = import('../data/pincodes.json').then(module => {
+      const data = module.default as unknown as PincodeDataset;
+      const map: PincodeDirectory = new Map();
+      for (const [districtIndex, pins] of Object.entries(data.pincodes)) {
+        const [city, stateIndex] = data.districts[Number(districtIndex)];
+        const location = { city, state: data.states[stateIndex] };
+        for (const pin of pins) map.set(pin, location);
+      }
+      return map;
+    });
+    directory.catch(() => {
+      directory = null;
+    });
+  }
+  return directory;
+};
+
+export type PincodeCheck =
+  | { valid: true; location: PincodeLocation }
+  | { valid: false; error: string };
+
+export const checkPincode = (value: string | number, pincodes: PincodeDirectory): PincodeCheck => {
+  const pin = String(value).trim();
+  if (!PINCODE_PATTERN.test(pin)) return { valid: false, error: 'PIN code must be 6 digits' };
+
+  const location = pincodes.get(Number(pin));
+  return location ? { valid: true, location } : { valid: false, error: `${pin} is not a known Indian PIN code` };
+};
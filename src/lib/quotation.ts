@@ -0,0 +1,332 @@
+import { jsPDF } from 'jspdf';
+import { Lead, Quotation, QuotationContent, QuotationSettings } from './supabase';
+import { QuoteLineItem, calculateQuote, lineTotal, DEFAULT_GST_RATE } from './quote';
+import { formatCurrency, formatDate } from './format';
+import { downloadFile } from './download';
+
+export const buildQuotationContent = (
+  lead: Lead,
+  lines: QuoteLineItem[],
+  settings: QuotationSettings,
+  terms: string
+): QuotationContent => {
+  const discountPercent = lead.discount_percent ?? 0;
+  const gstRate = lead.gst_rate ?? DEFAULT_GST_RATE;
+
+  return {
+    letterhead: {
+      company_name: settings.company_name,
+      address: settings.address,
+      phone: settings.phone,
+      email: settings.email,
+      gstin: settings.gstin,
+    },
+    customer: {
+      full_name: lead.full_name,
+      company: lead.company,
+      email: lead.email,
+      phone: lead.phone,
+      address: lead.address,
+      pincode: lead.pincode,
+    },
+    lines,
+    discount_percent: discountPercent,
+    gst_rate: gstRate,
+    totals: calculateQuote(lines, discountPercent, gstRate),
+    terms,
+  };
+};
+
+export const quotationFileName = (quotation: Quotation, extension: 'pdf' | 'html') =>
+  `${quotation.quote_number}-v${quotation.version}.${extension}`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const multiline = (value: string) => escapeHtml(value).replace(/\r?\n/g, '<br>');
+
+const contactLine = (content: QuotationContent) =>
+  [
+    content.letterhead.phone,
+    content.letterhead.email,
+    content.letterhead.gstin && `GSTIN ${content.letterhead.gstin}`,
+  ].filter(Boolean).join(' · ');
+
+// Deductions are shown with a leading minus
+const totalRows = (content: QuotationContent, format: (amount: number) => string) => {
+  const { totals } = content;
+  const rows: [string, string][] = [['Subtotal', format(totals.subtotal)]];
+  if (totals.lineDiscount > 0) rows.push(['Line discounts', `-${format(totals.lineDiscount)}`]);
+  if (totals.overallDiscount > 0) {
+    rows.push([`Overall discount (${content.discount_percent}%)`, `-${format(totals.overallDiscount)}`]);
+  }
+  rows.push(['Taxable amount', format(totals.taxableAmount)]);
+  rows.push([`GST (${content.gst_rate}%)`, format(totals.gst)]);
+  return rows;
+};
+
+export const renderQuotationHtml = (quotation: Quotation) => {
+  const content = quotation.content;
+  const { customer } = content;
+
+  const lineRows = content.lines.map(line => `
+      <tr>
+        <td>${escapeHtml(line.name)}<div class="muted">${line.kind}</div></td>
+        <td class="num">${formatCurrency(line.unitPrice)}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${line.discountPercent}%</td>
+        <td class="num">${formatCurrency(lineTotal(line))}</td>
+      </tr>`).join('');
+
+  const summaryRows = totalRows(content, formatCurrency).map(([label, value]) => `
+      <tr><td>${escapeHtml(label)}</td><td class="num">${value}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Quotation ${escapeHtml(quotation.quote_number)} v${quotation.version}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 40px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0; }
+  .muted { color: #6b7280; font-size: 11px; }
+  .letterhead { border-bottom: 2px solid #2563eb; padding-bottom: 12px; margin-bottom: 24px; }
+  .meta { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  .meta table td { padding: 2px 0 2px 16px; }
+  table.items { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  table.items th { background: #f3f4f6; text-align: left; font-size: 11px; text-transform: uppercase; padding: 8px; }
+  table.items td { border-bottom: 1px solid #e5e7eb; padding: 8px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  table.totals { margin-left: auto; border-collapse: collapse; min-width: 280px; }
+  table.totals td { padding: 4px 8px; }
+  table.totals tr.total td { border-top: 2px solid #111827; font-weight: bold; font-size: 15px; }
+  .terms { margin-top: 32px; }
+  .terms h2 { font-size: 14px; margin-bottom: 6px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <div class="letterhead">
+    <h1>${escapeHtml(content.letterhead.company_name)}</h1>
+    <div>${multiline(content.letterhead.address)}</div>
+    <div class="muted">${escapeHtml(contactLine(content))}</div>
+  </div>
+
+  <div class="meta">
+    <div>
+      <div class="muted">Quotation for</div>
+      <strong>${escapeHtml(customer.full_name)}</strong>
+      ${customer.company ? `<div>${escapeHtml(customer.company)}</div>` : ''}
+      ${customer.address ? `<div>${multiline(customer.address)}${customer.pincode ? ` - ${customer.pincode}` : ''}</div>` : ''}
+      <div>${escapeHtml([customer.phone, customer.email].filter(Boolean).join(' · '))}</div>
+    </div>
+    <table>
+      <tr><td class="muted">Quotation</td><td><strong>${escapeHtml(quotation.quote_number)}</strong></td></tr>
+      <tr><td class="muted">Version</td><td>${quotation.version}</td></tr>
+      <tr><td class="muted">Date</td><td>${formatDate(quotation.issued_at)}</td></tr>
+      <tr><td class="muted">Valid until</td><td>${formatDate(quotation.valid_until)}</td></tr>
+    </table>
+  </div>
+
+  <table class="items">
+    <thead>
+      <tr><th>Item</th><th class="num">Unit Price</th><th class="num">Qty</th><th class="num">Discount</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${lineRows}
+    </tbody>
+  </table>
+
+  <table class="totals">${summaryRows}
+    <tr class="total"><td>Total</td><td class="num">${formatCurrency(content.totals.total)}</td></tr>
+  </table>
+
+  ${content.terms.trim() ? `<div class="terms"><h2>Terms &amp; Conditions</h2><div>${multiline(content.terms)}</div></div>` : ''}
+</body>
+</html>`;
+};
+
+// The PDF's built-in fonts have no rupee sign, so amounts there are written as "Rs."
+const pdfCurrency = (amount: number) => formatCurrency(amount).replace('₹', 'Rs. ');
+
+const PAGE_WIDTH = 210;
+const PAGE_BOTTOM = 277;
+const MARGIN = 15;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+export const buildQuotationPdf = (quotation: Quotation) => {
+  const content = quotation.content;
+  const { customer } = content;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = 20;
+
+  // Letterhead
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(content.letterhead.company_name, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  y += 6;
+  for (const line of doc.splitTextToSize(content.letterhead.address, 120) as string[]) {
+    doc.text(line, MARGIN, y);
+    y += 4;
+  }
+  doc.setTextColor(107, 114, 128);
+  doc.text(contactLine(content), MARGIN, y);
+  doc.setTextColor(0, 0, 0);
+  y += 4;
+  doc.setDrawColor(37, 99, 235);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, y, RIGHT, y);
+  y += 10;
+
+  // Customer and quotation details
+  const detailsTop = y;
+  doc.setFontSize(8);
+  doc.setTextColor(107, 114, 128);
+  doc.text('QUOTATION FOR', MARGIN, y);
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  y += 5;
+  doc.text(customer.full_name, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const customerLines = [
+    customer.company,
+    ...(customer.address ? doc.splitTextToSize(`${customer.address}${customer.pincode ? ` - ${customer.pincode}` : ''}`, 100) as string[] : []),
+    [customer.phone, customer.email].filter(Boolean).join(' · '),
+  ].filter((line): line is string => !!line);
+  for (const line of customerLines) {
+    y += 4.5;
+    doc.text(line, MARGIN, y);
+  }
+
+  const details: [string, string][] = [
+    ['Quotation', quotation.quote_number],
+    ['Version', String(quotation.version)],
+    ['Date', formatDate(quotation.issued_at)],
+    ['Valid until', formatDate(quotation.valid_until)],
+  ];
+  details.forEach(([label, value], index) => {
+    const rowY = detailsTop + index * 5;
+    doc.setTextColor(107, 114, 128);
+    doc.text(label, 140, rowY);
+    doc.setTextColor(0, 0, 0);
+    doc.text(value, RIGHT, rowY, { align: 'right' });
+  });
+  y = Math.max(y, detailsTop + details.length * 5) + 10;
+
+  // Line items
+  const columns = { unitPrice: 125, quantity: 145, discount: 163 };
+  const drawTableHeader = () => {
+    doc.setFillColor(243, 244, 246);
+    doc.rect(MARGIN, y - 5, RIGHT - MARGIN, 7, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.text('ITEM', MARGIN + 2, y);
+    doc.text('UNIT PRICE', columns.unitPrice, y, { align: 'right' });
+    doc.text('QTY', columns.quantity, y, { align: 'right' });
+    doc.text('DISC.', columns.discount, y, { align: 'right' });
+    doc.text('AMOUNT', RIGHT - 2, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    y += 7;
+  };
+
+  drawTableHeader();
+  doc.setDrawColor(229, 231, 235);
+  doc.setLineWidth(0.2);
+  for (const line of content.lines) {
+    const nameLines = doc.splitTextToSize(line.name, 80) as string[];
+    const rowHeight = nameLines.length * 4.5 + 4;
+    if (y + rowHeight > PAGE_BOTTOM) {
+      doc.addPage();
+      y = 20;
+      drawTableHeader();
+    }
+    doc.text(nameLines, MARGIN + 2, y);
+    doc.text(pdfCurrency(line.unitPrice), columns.unitPrice, y, { align: 'right' });
+    doc.text(String(line.quantity), columns.quantity, y, { align: 'right' });
+    doc.text(`${line.discountPercent}%`, columns.discount, y, { align: 'right' });
+    doc.text(pdfCurrency(lineTotal(line)), RIGHT - 2, y, { align: 'right' });
+    y += rowHeight - 2;
+    doc.line(MARGIN, y, RIGHT, y);
+    y += 5;
+  }
+
+  // Totals
+  const summary = totalRows(content, pdfCurrency);
+  if (y + summary.length * 5 + 12 > PAGE_BOTTOM) {
+    doc.addPage();
+    y = 20;
+  }
+  y += 2;
+  for (const [label, value] of summary) {
+    doc.text(label, 130, y);
+    doc.text(value, RIGHT - 2, y, { align: 'right' });
+    y += 5;
+  }
+  doc.setDrawColor(17, 24, 39);
+  doc.setLineWidth(0.5);
+  doc.line(130, y - 3, RIGHT, y - 3);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  y += 2;
+  doc.text('Total', 130, y);
+  doc.text(pdfCurrency(content.totals.total), RIGHT - 2, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  y += 12;
+
+  // Terms
+  if (content.terms.trim()) {
+    const termLines = doc.splitTextToSize(content.terms, RIGHT - MARGIN) as string[];
+    if (y + 10 > PAGE_BOTTOM) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.text('Terms & Conditions', MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    y += 5;
+    for (const line of termLines) {
+      if (y > PAGE_BOTTOM) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(line, MARGIN, y);
+      y += 4.5;
+    }
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(`${quotation.quote_number} v${quotation.version} · Page ${page} of ${pageCount}`, RIGHT, 290, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
+
+export const downloadQuotationPdf = (quotation: Quotation) => {
+  downloadFile(buildQuotationPdf(quotation), quotationFileName(quotation, 'pdf'), 'application/pdf');
+};
+
+// Opens the printable HTML in a new tab; the browser's print dialog can also save it as PDF
+export const printQuotation = (quotation: Quotation) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    downloadFile(renderQuotationHtml(quotation), quotationFileName(quotation, 'html'), 'text/html');
+    return;
+  }
+  printWindow.document.write(renderQuotationHtml(quotation));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
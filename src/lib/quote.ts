@@ -0,0 +1,56 @@
+export interface QuoteLine {
+  unitPrice: number;
+  quantity: number;
+  discountPercent: number;
+}
+
+// A quote line as shown on screen and on issued quotations
+export interface QuoteLineItem extends QuoteLine {
+  key: string;
+  name: string;
+  kind: 'Product' | 'Service';
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  lineDiscount: number;
+  overallDiscount: number;
+  taxableAmount: number;
+  gst: number;
+  total: number;
+}
+
+export const DEFAULT_GST_RATE = 18;
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const clampPercent = (percent: number) => Math.min(Math.max(percent || 0, 0), 100);
+
+export const lineTotal = (line: QuoteLine) => {
+  const gross = line.unitPrice * line.quantity;
+  return round(gross - (gross * clampPercent(line.discountPercent)) / 100);
+};
+
+// Line discounts are applied first, then the overall discount, then GST on what remains
+export const calculateQuote = (
+  lines: QuoteLine[],
+  overallDiscountPercent: number,
+  gstRate: number
+): QuoteTotals => {
+  const subtotal = round(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+  const afterLineDiscounts = round(lines.reduce((sum, line) => sum + lineTotal(line), 0));
+  const overallDiscount = round((afterLineDiscounts * clampPercent(overallDiscountPercent)) / 100);
+  const taxableAmount = round(afterLineDiscounts - overallDiscount);
+  const gst = round((taxableAmount * Math.max(gstRate || 0, 0)) / 100);
+
+  return {
+    subtotal,
+    lineDiscount: round(subtotal - afterLineDiscounts),
+    overallDiscount,
+    taxableAmount,
+    gst,
+    total: round(taxableAmount + gst),
+  };
+};
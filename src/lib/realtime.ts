@@ -0,0 +1,77 @@
+import { REALTIME_SUBSCRIBE_STATES, RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, Lead } from './supabase';
+
+export type LeadChange =
+  | { table: 'leads'; type: 'INSERT' | 'UPDATE'; lead: Lead }
+  | { table: 'leads'; type: 'DELETE'; leadId: string }
+  // Line item changes only tell us which lead they belong to; null for a delete trimmed down to its id
+  | { table: 'lead_products' | 'lead_services'; leadId: string | null };
+
+const MAX_RETRY_DELAY = 30000;
+
+let channelCount = 0;
+
+/*
+  Listens for changes to leads and their line items. The channel is rebuilt with backoff when it errors
+  or times out, and straight away when the browser comes back online; `onResync` fires after every
+  reconnect because changes made while disconnected are not replayed.
+*/
+export const subscribeToLeadChanges = (onChange: (change: LeadChange) => void, onResync: () => void) => {
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let connected = false;
+  let stopped = false;
+
+  const handleItemChange = (table: 'lead_products' | 'lead_services') =>
+    (payload: { new: { lead_id?: string | null }; old: { lead_id?: string | null } }) => {
+      // Row level security can trim a delete's old row to its id, leaving no lead to point at
+      onChange({ table, leadId: payload.new.lead_id || payload.old.lead_id || null });
+    };
+
+  const connect = () => {
+    channel = supabase
+      .channel(`lead-changes-${++channelCount}`)
+      .on<Lead>('postgres_changes', { event: '*', schema: 'public', table: 'leads' }, payload => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old.id) onChange({ table: 'leads', type: 'DELETE', leadId: payload.old.id });
+        } else {
+          onChange({ table: 'leads', type: payload.eventType, lead: payload.new });
+        }
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_products' }, handleItemChange('lead_products'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_services' }, handleItemChange('lead_services'))
+      .subscribe(status => {
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          if (connected) onResync();
+          connected = true;
+          attempts = 0;
+        } else if (status === REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR || status === REALTIME_SUBSCRIBE_STATES.TIMED_OUT) {
+          reconnect(Math.min(1000 * 2 ** attempts++, MAX_RETRY_DELAY));
+        }
+      });
+  };
+
+  const reconnect = (delay: number) => {
+    if (stopped) return;
+    clearTimeout(retryTimer);
+    if (channel) supabase.removeChannel(channel);
+    channel = null;
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const handleOnline = () => {
+    attempts = 0;
+    reconnect(0);
+  };
+
+  window.addEventListener('online', handleOnline);
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    window.removeEventListener('online', handleOnline);
+    if (channel) supabase.removeChannel(channel);
+  };
+};
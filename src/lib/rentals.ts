@@ -0,0 +1,105 @@
+import { supabase, Lead, Product, RentalAgreement, RentalAgreementItem, RentalBillingPeriod } from './supabase';
+import { addDays, parseISODate, toISODate, todayISO } from './dates';
+import { addMonths } from './forecast';
+
+// Active agreements ending within this many days are flagged for renewal
+export const RENEWAL_WINDOW_DAYS = 30;
+
+export const DEFAULT_TENURE_MONTHS = 12;
+
+export const RENTAL_STATUS_COLORS: Record<RentalAgreement['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  renewed: 'bg-blue-100 text-blue-800',
+  returned: 'bg-gray-100 text-gray-800',
+};
+
+export type RentalAgreementItemRow = RentalAgreementItem & {
+  products: Pick<Product, 'name'> | null;
+};
+
+export type LeadRentalAgreement = RentalAgreement & {
+  rental_agreement_items: RentalAgreementItemRow[];
+  rental_billing: RentalBillingPeriod[];
+};
+
+export type RentalAgreementWithLead = RentalAgreement & {
+  leads: Pick<Lead, 'id' | 'full_name' | 'company' | 'phone' | 'assigned_to'> | null;
+};
+
+// Mirrors the generated end_date column: the day before start + tenure, with month-end days clamped like Postgres
+export const rentalEndDate = (startDate: string, tenureMonths: number) => {
+  const start = parseISODate(startDate);
+  const lastDay = new Date(start.getFullYear(), start.getMonth() + tenureMonths + 1, 0).getDate();
+  const end = new Date(start.getFullYear(), start.getMonth() + tenureMonths, Math.min(start.getDate(), lastDay));
+  return addDays(toISODate(end), -1);
+};
+
+export const daysUntil = (date: string) =>
+  Math.round((parseISODate(date).getTime() - parseISODate(todayISO()).getTime()) / 86400000);
+
+// Renewed agreements ran their full tenure; returned ones stop on the return date
+export const isRunningOn = (agreement: RentalAgreement, date: string) =>
+  agreement.start_date <= date && date <= (agreement.returned_on ?? agreement.end_date);
+
+export const isRenewalDue = (agreement: RentalAgreement, windowDays = RENEWAL_WINDOW_DAYS) =>
+  agreement.status === 'active' && daysUntil(agreement.end_date) <= windowDays;
+
+export const monthlyRecurringRevenue = (agreements: RentalAgreement[], date = todayISO()) =>
+  agreements
+    .filter(agreement => isRunningOn(agreement, date))
+    .reduce((sum, agreement) => sum + Number(agreement.monthly_fee), 0);
+
+// MRR at the close of each month (YYYY-MM); the current month is measured today
+export const mrrAtMonthEnd = (agreements: RentalAgreement[], month: string) => {
+  const today = todayISO();
+  const monthEnd = addDays(`${addMonths(month, 1)}-01`, -1);
+  return monthlyRecurringRevenue(agreements, month === today.slice(0, 7) ? today : monthEnd);
+};
+
+export const isPaymentDue = (period: RentalBillingPeriod) => !period.paid_on && period.period_start <= todayISO();
+
+export const fetchLeadRentalAgreements = async (leadId: string) => {
+  const { data, error } = await supabase
+    .from('rental_agreements')
+    .select('*, rental_agreement_items(*, products(name)), rental_billing(*)')
+    .eq('lead_id', leadId)
+    .order('start_date', { ascending: false })
+    .order('period_start', { referencedTable: 'rental_billing', ascending: true })
+    .overrideTypes<LeadRentalAgreement[], { merge: false }>();
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchRentalAgreements = async () => {
+  const { data, error } = await supabase
+    .from('rental_agreements')
+    .select('*, leads(id, full_name, company, phone, assigned_to)')
+    .order('end_date', { ascending: true })
+    .overrideTypes<RentalAgreementWithLead[], { merge: false }>();
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Billed in advance, so a period is due from its first day
+export const fetchDueBilling = async () => {
+  const { data, error } = await supabase
+    .from('rental_billing')
+    .select('*')
+    .is('paid_on', null)
+    .lte('period_start', todayISO())
+    .order('period_start', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const setBillingPaid = async (periodId: string, paidOn: string | null) => {
+  const { error } = await supabase
+    .from('rental_billing')
+    .update({ paid_on: paidOn })
+    .eq('id', periodId);
+
+  if (error) throw error;
+};
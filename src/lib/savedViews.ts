@@ -0,0 +1,41 @@
+import { supabase, SavedView } from './supabase';
+
+// Dashboard query string keys a view restores; list/board mode and the page are left alone
+export const SAVED_VIEW_PARAMS = ['q', 'status', 'type', 'model', 'owner', 'territory', 'sort', 'dir'] as const;
+
+export type SavedViewParam = typeof SAVED_VIEW_PARAMS[number];
+
+export type SavedViewParams = Partial<Record<SavedViewParam, string>>;
+
+export const viewParamsFrom = (searchParams: URLSearchParams): SavedViewParams => {
+  const params: SavedViewParams = {};
+  for (const key of SAVED_VIEW_PARAMS) {
+    const value = searchParams.get(key);
+    if (value) params[key] = value;
+  }
+  return params;
+};
+
+export const hasViewParams = (params: SavedViewParams) => SAVED_VIEW_PARAMS.some(key => params[key]);
+
+export const sameViewParams = (a: SavedViewParams, b: SavedViewParams) =>
+  SAVED_VIEW_PARAMS.every(key => (a[key] || '') === (b[key] || ''));
+
+// Every key is present so applying a view also clears filters it doesn't set
+export const viewParamChanges = (params: SavedViewParams) =>
+  Object.fromEntries(SAVED_VIEW_PARAMS.map(key => [key, params[key] || ''])) as Record<SavedViewParam, string>;
+
+// The user's own views first, then views teammates have shared
+export const fetchSavedViews = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  const views = (data || []) as SavedView[];
+  return [
+    ...views.filter(view => view.user_id === userId),
+    ...views.filter(view => view.user_id !== userId),
+  ];
+};
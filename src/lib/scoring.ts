@@ -0,0 +1,94 @@
+import { Lead, ScoreBreakdownItem, ScoringOperator, ScoringRule } from './supabase';
+import { LEAD_STATUSES, LEAD_TYPES, MODEL_TYPES } from './constants';
+import { todayISO } from './dates';
+
+export interface ScoringField {
+  key: string;
+  label: string;
+  kind: 'choice' | 'number' | 'text' | 'flag';
+  options?: { value: string; label: string }[];
+}
+
+// `follow_up_overdue` is computed, not a lead column; the database derives it the same way
+export const SCORING_FIELDS: ScoringField[] = [
+  { key: 'lead_type', label: 'Lead Type', kind: 'choice', options: LEAD_TYPES },
+  { key: 'model_type', label: 'Model Type', kind: 'choice', options: MODEL_TYPES },
+  { key: 'status', label: 'Status', kind: 'choice', options: LEAD_STATUSES },
+  { key: 'potential_amount', label: 'Potential Amount', kind: 'number' },
+  { key: 'pincode', label: 'PIN Code', kind: 'text' },
+  { key: 'company', label: 'Company', kind: 'text' },
+  { key: 'phone', label: 'Phone', kind: 'text' },
+  { key: 'location_url', label: 'Location URL', kind: 'text' },
+  { key: 'follow_up', label: 'Follow-up Required', kind: 'flag' },
+  { key: 'lead_sealed', label: 'Sealed', kind: 'flag' },
+  { key: 'follow_up_overdue', label: 'Follow-up Overdue', kind: 'flag' },
+];
+
+export const SCORING_OPERATORS: { value: ScoringOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not_equals', label: 'is not', needsValue: true },
+  { value: 'greater_than', label: 'is greater than', needsValue: true },
+  { value: 'less_than', label: 'is less than', needsValue: true },
+  { value: 'is_set', label: 'is set', needsValue: false },
+  { value: 'is_not_set', label: 'is not set', needsValue: false },
+];
+
+export const operatorsForField = (field: ScoringField) => {
+  switch (field.kind) {
+    case 'number': return SCORING_OPERATORS.filter(op => op.value !== 'equals' && op.value !== 'not_equals');
+    case 'flag': return SCORING_OPERATORS.filter(op => !op.needsValue);
+    case 'choice': return SCORING_OPERATORS.filter(op => op.value === 'equals' || op.value === 'not_equals');
+    default: return SCORING_OPERATORS.filter(op => op.value !== 'greater_than' && op.value !== 'less_than');
+  }
+};
+
+export const describeRule = (rule: Pick<ScoringRule, 'field' | 'operator' | 'value'>) => {
+  const field = SCORING_FIELDS.find(f => f.key === rule.field);
+  const operator = SCORING_OPERATORS.find(op => op.value === rule.operator);
+  const value = field?.options?.find(option => option.value === rule.value)?.label ?? rule.value;
+  return [field?.label ?? rule.field, operator?.label ?? rule.operator, operator?.needsValue ? value : '']
+    .filter(Boolean)
+    .join(' ');
+};
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+const fieldValue = (lead: Partial<Lead>, field: string): string | null => {
+  if (field === 'follow_up_overdue') {
+    const date = lead.follow_up_date?.slice(0, 10);
+    return String(Boolean(lead.follow_up && date && date < todayISO()));
+  }
+  const value = (lead as Record<string, unknown>)[field];
+  return value === null || value === undefined ? null : String(value);
+};
+
+const matches = (rule: ScoringRule, value: string | null) => {
+  const expected = (rule.value ?? '').toLowerCase();
+  switch (rule.operator) {
+    case 'equals': return value !== null && value.toLowerCase() === expected;
+    case 'not_equals': return value === null || value.toLowerCase() !== expected;
+    case 'greater_than': return value !== null && NUMERIC.test(value) && Number(value) > Number(rule.value);
+    case 'less_than': return value !== null && NUMERIC.test(value) && Number(value) < Number(rule.value);
+    case 'is_set': return !['', 'false'].includes((value ?? '').trim());
+    case 'is_not_set': return ['', 'false'].includes((value ?? '').trim());
+    default: return false;
+  }
+};
+
+// Mirrors score_lead() in the database so the form can preview the score; the saved value comes from the server
+export const scoreLead = (lead: Partial<Lead>, rules: ScoringRule[]) => {
+  const breakdown: ScoreBreakdownItem[] = rules
+    .filter(rule => rule.is_active && matches(rule, fieldValue(lead, rule.field)))
+    .map(rule => ({ rule_id: rule.id, name: rule.name, points: rule.points }));
+
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0);
+  return { score: Math.min(Math.max(total, 0), 100), breakdown };
+};
+
+export const scoreTooltip = (lead: Pick<Lead, 'lead_score_override' | 'score_breakdown'>) => {
+  if (lead.lead_score_override) return 'Score set manually';
+  if (!lead.score_breakdown?.length) return 'No scoring rules matched';
+  return lead.score_breakdown
+    .map(item => `${item.name}: ${item.points > 0 ? '+' : ''}${item.points}`)
+    .join('\n');
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { QuoteLineItem, QuoteTotals } from './quote';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -10,15 +11,91 @@ if (!supabaseUrl || !supabaseKey) {
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
 // Types
+export type ManualActivityType = 'call' | 'visit' | 'email' | 'meeting' | 'note';
+
+export type ActivityType =
+  | 'created'
+  | 'updated'
+  | 'merged'
+  | 'quoted'
+  | 'product_added'
+  | 'product_updated'
+  | 'product_removed'
+  | 'service_added'
+  | 'service_updated'
+  | 'service_removed'
+  | ManualActivityType;
+
+// 'renewed' means a follow-on agreement continues the rental; 'returned' means the items came back
+export type RentalStatus = 'active' | 'renewed' | 'returned';
+
+export type TerritoryRuleType = 'prefix' | 'range' | 'list';
+
+export type ScoringOperator = 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'is_set' | 'is_not_set';
+
+export type ScoreBreakdownItem = {
+  rule_id: string;
+  name: string;
+  points: number;
+};
+
+export type QuotationLetterhead = {
+  company_name: string;
+  address: string;
+  phone: string;
+  email: string;
+  gstin: string;
+};
+
+// Snapshot stored with an issued quotation, so reprints match what was sent
+export type QuotationContent = {
+  letterhead: QuotationLetterhead;
+  customer: {
+    full_name: string;
+    company: string | null;
+    email: string;
+    phone: string | null;
+    address: string;
+    pincode: number | null;
+  };
+  lines: QuoteLineItem[];
+  discount_percent: number;
+  gst_rate: number;
+  totals: QuoteTotals;
+  terms: string;
+};
+
 export type Database = {
   public: {
     Tables: {
+      teams: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       profiles: {
         Row: {
           id: string;
           user_id: string;
           email: string;
           full_name: string | null;
+          role: 'admin' | 'manager' | 'sales_rep';
+          team_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -27,6 +104,8 @@ export type Database = {
           user_id: string;
           email: string;
           full_name?: string | null;
+          role?: 'admin' | 'manager' | 'sales_rep';
+          team_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -35,6 +114,8 @@ export type Database = {
           user_id?: string;
           email?: string;
           full_name?: string | null;
+          role?: 'admin' | 'manager' | 'sales_rep';
+          team_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -46,6 +127,7 @@ export type Database = {
           description: string | null;
           price: number;
           is_active: boolean;
+          sort_order: number;
           created_at: string;
           updated_at: string;
         };
@@ -55,6 +137,7 @@ export type Database = {
           description?: string | null;
           price?: number;
           is_active?: boolean;
+          sort_order?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -64,6 +147,7 @@ export type Database = {
           description?: string | null;
           price?: number;
           is_active?: boolean;
+          sort_order?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -75,6 +159,7 @@ export type Database = {
           description: string | null;
           price: number;
           is_active: boolean;
+          sort_order: number;
           created_at: string;
           updated_at: string;
         };
@@ -84,6 +169,7 @@ export type Database = {
           description?: string | null;
           price?: number;
           is_active?: boolean;
+          sort_order?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,6 +179,7 @@ export type Database = {
           description?: string | null;
           price?: number;
           is_active?: boolean;
+          sort_order?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -101,6 +188,7 @@ export type Database = {
         Row: {
           id: string;
           user_id: string;
+          assigned_to: string | null;
           full_name: string;
           email: string;
           phone: string | null;
@@ -108,6 +196,8 @@ export type Database = {
           lead_type: 'Individual' | 'Business' | 'Housing-Society' | 'Agent';
           model_type: 'Purchase' | 'Rent' | 'Individual Home-kit';
           lead_score: number;
+          lead_score_override: boolean;
+          score_breakdown: ScoreBreakdownItem[] | null;
           status: 'New' | 'Closed' | 'In-Progress';
           potential_amount: number;
           notes: string | null;
@@ -118,12 +208,22 @@ export type Database = {
           follow_up_date: string | null;
           follow_up_notes: string | null;
           lead_sealed: boolean | null;
+          sealed_at: string | null;
+          closed_at: string | null;
+          expected_close_date: string | null;
+          territory_id: string | null;
+          city: string | null;
+          state: string | null;
+          tags: string[];
+          discount_percent: number;
+          gst_rate: number;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
+          assigned_to?: string | null;
           full_name: string;
           email: string;
           phone?: string | null;
@@ -131,6 +231,8 @@ export type Database = {
           lead_type: 'Individual' | 'Business' | 'Housing-Society' | 'Agent';
           model_type: 'Purchase' | 'Rent' | 'Individual Home-kit';
           lead_score?: number;
+          lead_score_override?: boolean;
+          score_breakdown?: ScoreBreakdownItem[] | null;
           status?: 'New' | 'Closed' | 'In-Progress';
           potential_amount?: number;
           notes?: string | null;
@@ -141,12 +243,22 @@ export type Database = {
           follow_up_date?: string | null;
           follow_up_notes?: string | null;
           lead_sealed?: boolean | null;
+          sealed_at?: string | null;
+          closed_at?: string | null;
+          expected_close_date?: string | null;
+          territory_id?: string | null;
+          city?: string | null;
+          state?: string | null;
+          tags?: string[];
+          discount_percent?: number;
+          gst_rate?: number;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
+          assigned_to?: string | null;
           full_name?: string;
           email?: string;
           phone?: string | null;
@@ -154,6 +266,8 @@ export type Database = {
           lead_type?: 'Individual' | 'Business' | 'Housing-Society' | 'Agent';
           model_type?: 'Purchase' | 'Rent' | 'Individual Home-kit';
           lead_score?: number;
+          lead_score_override?: boolean;
+          score_breakdown?: ScoreBreakdownItem[] | null;
           status?: 'New' | 'Closed' | 'In-Progress';
           potential_amount?: number;
           notes?: string | null;
@@ -164,6 +278,472 @@ export type Database = {
           follow_up_date?: string | null;
           follow_up_notes?: string | null;
           lead_sealed?: boolean | null;
+          sealed_at?: string | null;
+          closed_at?: string | null;
+          expected_close_date?: string | null;
+          territory_id?: string | null;
+          city?: string | null;
+          state?: string | null;
+          tags?: string[];
+          discount_percent?: number;
+          gst_rate?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      territories: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      territory_rules: {
+        Row: {
+          id: string;
+          territory_id: string;
+          rule_type: TerritoryRuleType;
+          prefix: string | null;
+          range_start: number | null;
+          range_end: number | null;
+          pincodes: number[] | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          territory_id: string;
+          rule_type: TerritoryRuleType;
+          prefix?: string | null;
+          range_start?: number | null;
+          range_end?: number | null;
+          pincodes?: number[] | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          territory_id?: string;
+          rule_type?: TerritoryRuleType;
+          prefix?: string | null;
+          range_start?: number | null;
+          range_end?: number | null;
+          pincodes?: number[] | null;
+          created_at?: string;
+        };
+      };
+      stage_probabilities: {
+        Row: {
+          status: 'New' | 'Closed' | 'In-Progress';
+          probability: number;
+          updated_at: string;
+        };
+        Insert: {
+          status: 'New' | 'Closed' | 'In-Progress';
+          probability: number;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'New' | 'Closed' | 'In-Progress';
+          probability?: number;
+          updated_at?: string;
+        };
+      };
+      lead_products: {
+        Row: {
+          id: string;
+          lead_id: string;
+          product_id: string;
+          quantity: number;
+          discount_percent: number;
+          unit_price: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          product_id: string;
+          quantity?: number;
+          discount_percent?: number;
+          unit_price?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          product_id?: string;
+          quantity?: number;
+          discount_percent?: number;
+          unit_price?: number | null;
+          created_at?: string;
+        };
+      };
+      lead_services: {
+        Row: {
+          id: string;
+          lead_id: string;
+          service_id: string;
+          quantity: number;
+          discount_percent: number;
+          unit_price: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          service_id: string;
+          quantity?: number;
+          discount_percent?: number;
+          unit_price?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          service_id?: string;
+          quantity?: number;
+          discount_percent?: number;
+          unit_price?: number | null;
+          created_at?: string;
+        };
+      };
+      scoring_rules: {
+        Row: {
+          id: string;
+          name: string;
+          field: string;
+          operator: ScoringOperator;
+          value: string | null;
+          points: number;
+          is_active: boolean;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          field: string;
+          operator: ScoringOperator;
+          value?: string | null;
+          points: number;
+          is_active?: boolean;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          field?: string;
+          operator?: ScoringOperator;
+          value?: string | null;
+          points?: number;
+          is_active?: boolean;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      lead_activities: {
+        Row: {
+          id: string;
+          lead_id: string;
+          actor_id: string | null;
+          activity_type: ActivityType;
+          description: string | null;
+          changes: Record<string, { from: unknown; to: unknown }> | null;
+          occurred_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          actor_id?: string | null;
+          activity_type: ActivityType;
+          description?: string | null;
+          changes?: Record<string, { from: unknown; to: unknown }> | null;
+          occurred_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          actor_id?: string | null;
+          activity_type?: ActivityType;
+          description?: string | null;
+          changes?: Record<string, { from: unknown; to: unknown }> | null;
+          occurred_at?: string;
+          created_at?: string;
+        };
+      };
+      lead_notes: {
+        Row: {
+          id: string;
+          lead_id: string;
+          parent_id: string | null;
+          author_id: string | null;
+          body: string;
+          is_pinned: boolean;
+          edited_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          parent_id?: string | null;
+          author_id?: string | null;
+          body: string;
+          is_pinned?: boolean;
+          edited_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          parent_id?: string | null;
+          author_id?: string | null;
+          body?: string;
+          is_pinned?: boolean;
+          edited_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      lead_note_revisions: {
+        Row: {
+          id: string;
+          note_id: string;
+          body: string;
+          edited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          note_id: string;
+          body: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          note_id?: string;
+          body?: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+      };
+      quotation_settings: {
+        Row: {
+          id: boolean;
+          company_name: string;
+          address: string;
+          phone: string;
+          email: string;
+          gstin: string;
+          terms: string;
+          validity_days: number;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          company_name?: string;
+          address?: string;
+          phone?: string;
+          email?: string;
+          gstin?: string;
+          terms?: string;
+          validity_days?: number;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          company_name?: string;
+          address?: string;
+          phone?: string;
+          email?: string;
+          gstin?: string;
+          terms?: string;
+          validity_days?: number;
+          updated_at?: string;
+        };
+      };
+      quotations: {
+        Row: {
+          id: string;
+          lead_id: string;
+          quote_number: string;
+          version: number;
+          issued_by: string | null;
+          issued_at: string;
+          valid_until: string;
+          total: number;
+          content: QuotationContent;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          quote_number?: string;
+          version?: number;
+          issued_by?: string | null;
+          issued_at?: string;
+          valid_until: string;
+          total: number;
+          content: QuotationContent;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          quote_number?: string;
+          version?: number;
+          issued_by?: string | null;
+          issued_at?: string;
+          valid_until?: string;
+          total?: number;
+          content?: QuotationContent;
+        };
+      };
+      rental_agreements: {
+        Row: {
+          id: string;
+          lead_id: string;
+          monthly_fee: number;
+          deposit: number;
+          start_date: string;
+          tenure_months: number;
+          end_date: string;
+          status: RentalStatus;
+          returned_on: string | null;
+          renewed_from: string | null;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          monthly_fee: number;
+          deposit?: number;
+          start_date: string;
+          tenure_months: number;
+          status?: RentalStatus;
+          returned_on?: string | null;
+          renewed_from?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          monthly_fee?: number;
+          deposit?: number;
+          start_date?: string;
+          tenure_months?: number;
+          status?: RentalStatus;
+          returned_on?: string | null;
+          renewed_from?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      rental_agreement_items: {
+        Row: {
+          id: string;
+          agreement_id: string;
+          product_id: string;
+          quantity: number;
+        };
+        Insert: {
+          id?: string;
+          agreement_id: string;
+          product_id: string;
+          quantity?: number;
+        };
+        Update: {
+          id?: string;
+          agreement_id?: string;
+          product_id?: string;
+          quantity?: number;
+        };
+      };
+      rental_billing: {
+        Row: {
+          id: string;
+          agreement_id: string;
+          period_start: string;
+          period_end: string;
+          amount: number;
+          paid_on: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          agreement_id: string;
+          period_start: string;
+          period_end: string;
+          amount: number;
+          paid_on?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          agreement_id?: string;
+          period_start?: string;
+          period_end?: string;
+          amount?: number;
+          paid_on?: string | null;
+          created_at?: string;
+        };
+      };
+      saved_views: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          params: Record<string, string>;
+          is_default: boolean;
+          shared: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          name: string;
+          params?: Record<string, string>;
+          is_default?: boolean;
+          shared?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          params?: Record<string, string>;
+          is_default?: boolean;
+          shared?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -172,7 +752,23 @@ export type Database = {
   };
 };
 
+export type Team = Database['public']['Tables']['teams']['Row'];
 export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type Product = Database['public']['Tables']['products']['Row'];
 export type Service = Database['public']['Tables']['services']['Row'];
-export type Lead = Database['public']['Tables']['leads']['Row'];
\ No newline at end of file
+export type Lead = Database['public']['Tables']['leads']['Row'];
+export type LeadProduct = Database['public']['Tables']['lead_products']['Row'];
+export type LeadService = Database['public']['Tables']['lead_services']['Row'];
+export type LeadActivity = Database['public']['Tables']['lead_activities']['Row'];
+export type ScoringRule = Database['public']['Tables']['scoring_rules']['Row'];
+export type LeadNote = Database['public']['Tables']['lead_notes']['Row'];
+export type LeadNoteRevision = Database['public']['Tables']['lead_note_revisions']['Row'];
+export type StageProbability = Database['public']['Tables']['stage_probabilities']['Row'];
+export type QuotationSettings = Database['public']['Tables']['quotation_settings']['Row'];
+export type Quotation = Database['public']['Tables']['quotations']['Row'];
+export type RentalAgreement = Database['public']['Tables']['rental_agreements']['Row'];
+export type RentalAgreementItem = Database['public']['Tables']['rental_agreement_items']['Row'];
+export type RentalBillingPeriod = Database['public']['Tables']['rental_billing']['Row'];
+export type Territory = Database['public']['Tables']['territories']['Row'];
+export type TerritoryRule = Database['public']['Tables']['territory_rules']['Row'];
+export type SavedView = Database['public']['Tables']['saved_views']['Row'];
@@ -0,0 +1,69 @@
+import { supabase, Territory, TerritoryRule } from './supabase';
+import { AnalyticsFilters } from './analytics';
+import { addDays, parseISODate } from './dates';
+import { PINCODE_PATTERN } from './normalize';
+
+// Dashboard filter value for leads whose PIN falls outside every territory
+export const NO_TERRITORY = 'none';
+
+export const TERRITORY_RULE_TYPES: { value: TerritoryRule['rule_type']; label: string }[] = [
+  { value: 'prefix', label: 'PIN prefix' },
+  { value: 'range', label: 'PIN range' },
+  { value: 'list', label: 'PIN list' },
+];
+
+export type TerritoryWithRules = Territory & {
+  territory_rules: TerritoryRule[];
+};
+
+export interface TerritoryReportRow {
+  // Null for leads outside every territory
+  territory_id: string | null;
+  lead_count: number;
+  open_leads: number;
+  closed_leads: number;
+  sealed_leads: number;
+  pipeline_value: number;
+  closed_value: number;
+}
+
+export const describeRule = (rule: TerritoryRule) => {
+  switch (rule.rule_type) {
+    case 'prefix': return `PINs starting ${rule.prefix}`;
+    case 'range': return `${rule.range_start} – ${rule.range_end}`;
+    default: return (rule.pincodes || []).join(', ');
+  }
+};
+
+// Accepts PINs separated by commas, spaces or new lines; returns the entries that are not 6-digit PINs
+export const parsePincodeList = (text: string) => {
+  const entries = text.split(/[\s,;]+/).filter(Boolean);
+  return {
+    pincodes: [...new Set(entries.filter(entry => PINCODE_PATTERN.test(entry)).map(Number))],
+    invalid: entries.filter(entry => !PINCODE_PATTERN.test(entry)),
+  };
+};
+
+export const fetchTerritoriesWithRules = async () => {
+  const { data, error } = await supabase
+    .from('territories')
+    .select('*, territory_rules(*)')
+    .order('name')
+    .order('created_at', { referencedTable: 'territory_rules', ascending: true })
+    .overrideTypes<TerritoryWithRules[], { merge: false }>();
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Same range and owner semantics as the analytics document: leads created in the range
+export const fetchTerritoryReport = async (filters: AnalyticsFilters) => {
+  const { data, error } = await supabase.rpc('territory_report', {
+    range_start: parseISODate(filters.from).toISOString(),
+    range_end: parseISODate(addDays(filters.to, 1)).toISOString(),
+    owner_id: filters.ownerId || null,
+  });
+
+  if (error) throw error;
+  return (data || []) as TerritoryReportRow[];
+};
@@ -0,0 +1,104 @@
+// Shared by the app's .ics download and the follow-up-calendar feed, so it has no imports
+
+export interface CalendarLead {
+  id: string;
+  full_name: string;
+  company: string | null;
+  email: string;
+  phone: string | null;
+  address: string | null;
+  location_url: string | null;
+  follow_up: boolean | null;
+  follow_up_date: string | null;
+  follow_up_notes: string | null;
+}
+
+// Commas, semicolons and backslashes must be escaped in iCalendar text values (RFC 5545 §3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// URL values aren't escaped, so only single-line http(s) links are emitted; anything else could add properties
+const toICSUrl = (value: string | null) => {
+  const url = (value || '').trim();
+  return /^https?:\/\/[^\s\p{Cc}]+$/iu.test(url) ? url : null;
+};
+
+const encoder = new TextEncoder();
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space.
+// Lengths are UTF-8 bytes, and a line is only broken between characters (for...of keeps surrogate pairs whole).
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > 75) {
+      parts.push(current);
+      current = ' ';
+      size = 1;
+    }
+    current += char;
+    size += bytes;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const toICSDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+const nextDay = (isoDate: string) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+const toICSTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const buildFollowUpCalendar = (leads: CalendarLead[]) => {
+  const stamp = toICSTimestamp(new Date());
+  const events = leads
+    .filter(lead => lead.follow_up && lead.follow_up_date)
+    .flatMap(lead => {
+      const date = (lead.follow_up_date as string).slice(0, 10);
+      const url = toICSUrl(lead.location_url);
+      const details = [
+        lead.company,
+        lead.phone && `Phone: ${lead.phone}`,
+        `Email: ${lead.email}`,
+        lead.address,
+        lead.follow_up_notes,
+      ].filter(Boolean).join('\n');
+
+      return [
+        'BEGIN:VEVENT',
+        `UID:follow-up-${lead.id}@leads`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${toICSDate(date)}`,
+        `DTEND;VALUE=DATE:${toICSDate(nextDay(date))}`,
+        `SUMMARY:${escapeText(`Follow up: ${lead.full_name}`)}`,
+        `DESCRIPTION:${escapeText(details)}`,
+        ...(url ? [`URL:${url}`] : []),
+        'END:VEVENT',
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Leads//Follow-ups//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Lead Follow-ups',
+    // Hint for subscribed calendars; most poll hourly or less often regardless
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n');
+};
@@ -0,0 +1,59 @@
+/*
+  Serves a user's follow-ups as an iCalendar feed that phone and desktop calendars can subscribe to:
+    GET /functions/v1/follow-up-calendar?token=<calendar_feeds.token>
+
+  Calendar apps can't send a Supabase session, so deploy with `supabase functions deploy
+  follow-up-calendar --no-verify-jwt`; the feed token is checked here instead.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { CalendarLead, buildFollowUpCalendar } from '../_shared/ics.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Old follow-ups drop off the feed; anything still open from the last 90 days stays visible
+const HISTORY_DAYS = 90;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async req => {
+  const token = new URL(req.url).searchParams.get('token') || '';
+  if (!UUID_PATTERN.test(token)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) {
+    console.error('Error reading calendar feed:', feedError);
+    return new Response('Calendar unavailable', { status: 500 });
+  }
+  if (!feed) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const { data: leads, error } = await supabase
+    .from('leads')
+    .select('id, full_name, company, email, phone, address, location_url, follow_up, follow_up_date, follow_up_notes')
+    .eq('assigned_to', feed.user_id)
+    .eq('follow_up', true)
+    .gte('follow_up_date', since)
+    .order('follow_up_date');
+
+  if (error) {
+    console.error('Error fetching follow-ups for calendar feed:', error);
+    return new Response('Calendar unavailable', { status: 500 });
+  }
+
+  return new Response(buildFollowUpCalendar((leads || []) as CalendarLead[]), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="follow-ups.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
@@ -0,0 +1,57 @@
+/*
+  # Quote line items with quantities, discounts and GST
+
+  1. Updates
+    - `lead_products` / `lead_services`
+      - `quantity` is now NOT NULL and must be at least 1
+      - Add `discount_percent` (numeric) - per-line discount
+    - `leads`
+      - Add `discount_percent` (numeric) - overall discount applied after line discounts
+      - Add `gst_rate` (numeric) - GST percentage applied to the discounted subtotal
+
+  2. Notes
+    - `potential_amount` stays a stored column; the app derives it from the quote totals
+*/
+
+UPDATE lead_products SET quantity = 1 WHERE quantity IS NULL OR quantity < 1;
+UPDATE lead_services SET quantity = 1 WHERE quantity IS NULL OR quantity < 1;
+
+ALTER TABLE lead_products ALTER COLUMN quantity SET NOT NULL;
+ALTER TABLE lead_services ALTER COLUMN quantity SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lead_products' AND column_name = 'discount_percent'
+  ) THEN
+    ALTER TABLE lead_products ADD COLUMN discount_percent numeric(5,2) NOT NULL DEFAULT 0;
+    ALTER TABLE lead_products ADD CONSTRAINT lead_products_quantity_check CHECK (quantity >= 1);
+    ALTER TABLE lead_products ADD CONSTRAINT lead_products_discount_check CHECK (discount_percent >= 0 AND discount_percent <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lead_services' AND column_name = 'discount_percent'
+  ) THEN
+    ALTER TABLE lead_services ADD COLUMN discount_percent numeric(5,2) NOT NULL DEFAULT 0;
+    ALTER TABLE lead_services ADD CONSTRAINT lead_services_quantity_check CHECK (quantity >= 1);
+    ALTER TABLE lead_services ADD CONSTRAINT lead_services_discount_check CHECK (discount_percent >= 0 AND discount_percent <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'discount_percent'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN discount_percent numeric(5,2) NOT NULL DEFAULT 0
+      CHECK (discount_percent >= 0 AND discount_percent <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'gst_rate'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN gst_rate numeric(5,2) NOT NULL DEFAULT 18
+      CHECK (gst_rate >= 0 AND gst_rate <= 100);
+  END IF;
+END $$;
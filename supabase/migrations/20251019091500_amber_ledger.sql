@@ -0,0 +1,187 @@
+/*
+  # Catalog administration
+
+  1. New Types
+    - `user_role` enum ('admin', 'sales_rep')
+
+  2. Updates
+    - `profiles`
+      - Add `role` (user_role) - defaults to 'sales_rep'
+    - `products` / `services`
+      - Add `sort_order` (integer) - display order in the catalog and lead form
+    - `lead_products` / `lead_services`
+      - Add `unit_price` (numeric) - catalog price captured when the item was added to the lead,
+        so later price changes don't alter existing lead totals
+
+  3. Security
+    - `is_admin()` helper for policies
+    - Products and services are readable by all authenticated users, including inactive ones,
+      so existing leads can still show discontinued items
+    - Only admins can insert and update products and services (deactivate instead of delete)
+    - Users cannot change their own role
+*/
+
+DO $$ BEGIN
+    CREATE TYPE user_role AS ENUM ('admin', 'sales_rep');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'role'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN role user_role NOT NULL DEFAULT 'sales_rep';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'sort_order'
+  ) THEN
+    ALTER TABLE products ADD COLUMN sort_order integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'services' AND column_name = 'sort_order'
+  ) THEN
+    ALTER TABLE services ADD COLUMN sort_order integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lead_products' AND column_name = 'unit_price'
+  ) THEN
+    ALTER TABLE lead_products ADD COLUMN unit_price decimal(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lead_services' AND column_name = 'unit_price'
+  ) THEN
+    ALTER TABLE lead_services ADD COLUMN unit_price decimal(10,2);
+  END IF;
+END $$;
+
+-- Initial ordering follows the previous alphabetical order
+UPDATE products p SET sort_order = ordered.position
+FROM (SELECT id, row_number() OVER (ORDER BY name) AS position FROM products) ordered
+WHERE p.id = ordered.id AND p.sort_order = 0;
+
+UPDATE services s SET sort_order = ordered.position
+FROM (SELECT id, row_number() OVER (ORDER BY name) AS position FROM services) ordered
+WHERE s.id = ordered.id AND s.sort_order = 0;
+
+-- Backfill price snapshots from the current catalog
+UPDATE lead_products lp SET unit_price = p.price
+FROM products p
+WHERE lp.product_id = p.id AND lp.unit_price IS NULL;
+
+UPDATE lead_services ls SET unit_price = s.price
+FROM services s
+WHERE ls.service_id = s.id AND ls.unit_price IS NULL;
+
+-- Capture the catalog price when a line is added without one
+CREATE OR REPLACE FUNCTION set_lead_product_unit_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.unit_price IS NULL THEN
+    SELECT price INTO NEW.unit_price FROM products WHERE id = NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION set_lead_service_unit_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.unit_price IS NULL THEN
+    SELECT price INTO NEW.unit_price FROM services WHERE id = NEW.service_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_lead_products_unit_price ON lead_products;
+CREATE TRIGGER set_lead_products_unit_price BEFORE INSERT ON lead_products
+FOR EACH ROW EXECUTE FUNCTION set_lead_product_unit_price();
+
+DROP TRIGGER IF EXISTS set_lead_services_unit_price ON lead_services;
+CREATE TRIGGER set_lead_services_unit_price BEFORE INSERT ON lead_services
+FOR EACH ROW EXECUTE FUNCTION set_lead_service_unit_price();
+
+-- Role helper, SECURITY DEFINER so policies on profiles don't recurse
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- Only admins may change roles; server-side sessions (no auth.uid()) are trusted
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role <> 'sales_rep' AND NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can assign user roles';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_profiles_role ON profiles;
+CREATE TRIGGER protect_profiles_role BEFORE INSERT OR UPDATE ON profiles
+FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+-- Catalog policies
+DROP POLICY IF EXISTS "Authenticated users can read products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can read services" ON services;
+
+CREATE POLICY "Authenticated users can read products"
+  ON products FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Authenticated users can read services"
+  ON services FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert services"
+  ON services FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update services"
+  ON services FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_products_sort_order ON products(sort_order);
+CREATE INDEX IF NOT EXISTS idx_services_sort_order ON services(sort_order);
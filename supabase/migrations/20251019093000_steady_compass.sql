@@ -0,0 +1,273 @@
+/*
+  # Roles, teams and lead ownership
+
+  1. New Tables
+    - `teams` - Sales teams that group profiles under a manager
+
+  2. Updates
+    - `user_role` enum gains 'manager'
+    - `profiles`
+      - Add `team_id` (uuid) - team the user belongs to
+    - `leads`
+      - Add `assigned_to` (uuid) - user currently working the lead, separate from its creator (`user_id`)
+
+  3. Security
+    - Lead visibility is scoped by role:
+      - admins see every lead
+      - managers see leads created by or assigned to anyone in their team
+      - sales reps see leads they created or that are assigned to them
+    - Lead products/services follow the visibility of their lead
+    - Team members can read each other's profiles; admins can read and update all profiles
+    - Only admins can move users between teams
+    - Sales reps can only create leads assigned to themselves
+    - Only admins can change a lead's creator
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'manager';
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'team_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN team_id uuid REFERENCES teams(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'assigned_to'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+UPDATE leads SET assigned_to = user_id WHERE assigned_to IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_to ON leads(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_profiles_team_id ON profiles(team_id);
+
+-- New leads are assigned to their creator unless told otherwise
+CREATE OR REPLACE FUNCTION set_lead_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assigned_to IS NULL THEN
+    NEW.assigned_to = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_leads_assignee ON leads;
+CREATE TRIGGER set_leads_assignee BEFORE INSERT ON leads
+FOR EACH ROW EXECUTE FUNCTION set_lead_assignee();
+
+CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON teams
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Role helpers, SECURITY DEFINER so policies on profiles don't recurse.
+-- Roles are compared as text because the new enum value can't be used in this transaction.
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role::text FROM profiles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION current_user_team()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team_id FROM profiles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_team_member(member_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = member_id
+    AND team_id IS NOT NULL
+    AND team_id = current_user_team()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_lead(creator_id uuid, assignee_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    auth.uid() = creator_id
+    OR auth.uid() = assignee_id
+    OR current_user_role() = 'admin'
+    OR (
+      current_user_role() = 'manager'
+      AND (is_team_member(creator_id) OR is_team_member(assignee_id))
+    );
+$$;
+
+-- Teams policies
+CREATE POLICY "Authenticated users can read teams"
+  ON teams FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage teams"
+  ON teams FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Profiles policies
+CREATE POLICY "Users can read team profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_admin() OR (team_id IS NOT NULL AND team_id = current_user_team()));
+
+CREATE POLICY "Admins can update profiles"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+-- Users may still edit their own profile, but only admins change roles or teams
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role <> 'sales_rep' AND NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can assign user roles';
+    END IF;
+    IF NEW.team_id IS NOT NULL AND NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can assign teams';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  ELSIF NEW.team_id IS DISTINCT FROM OLD.team_id AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change teams';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Leads policies
+DROP POLICY IF EXISTS "Users can read own leads" ON leads;
+DROP POLICY IF EXISTS "Users can insert own leads" ON leads;
+DROP POLICY IF EXISTS "Users can update own leads" ON leads;
+DROP POLICY IF EXISTS "Users can delete own leads" ON leads;
+
+CREATE POLICY "Users can read accessible leads"
+  ON leads FOR SELECT
+  TO authenticated
+  USING (can_access_lead(user_id, assigned_to));
+
+CREATE POLICY "Users can insert own leads"
+  ON leads FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update accessible leads"
+  ON leads FOR UPDATE
+  TO authenticated
+  USING (can_access_lead(user_id, assigned_to));
+
+CREATE POLICY "Users can delete accessible leads"
+  ON leads FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR current_user_role() = 'admin'
+    OR (current_user_role() = 'manager' AND can_access_lead(user_id, assigned_to))
+  );
+
+-- Only managers and admins hand leads to someone else; reps may only take or keep a lead.
+-- A new lead without an assignee goes to its creator (set_leads_assignee runs after this trigger).
+CREATE OR REPLACE FUNCTION protect_lead_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.assigned_to IS NULL THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user_role() NOT IN ('admin', 'manager') AND NEW.assigned_to IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only managers and admins can reassign leads';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_leads_assignee ON leads;
+CREATE TRIGGER protect_leads_assignee BEFORE INSERT OR UPDATE ON leads
+FOR EACH ROW EXECUTE FUNCTION protect_lead_assignee();
+
+-- The creator is part of who can see a lead, so only admins may change it
+CREATE OR REPLACE FUNCTION protect_lead_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.user_id IS DISTINCT FROM OLD.user_id AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change who created a lead';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_leads_creator ON leads;
+CREATE TRIGGER protect_leads_creator BEFORE UPDATE OF user_id ON leads
+FOR EACH ROW EXECUTE FUNCTION protect_lead_creator();
+
+-- Lead products/services follow lead visibility (the subquery is filtered by the leads policies)
+DROP POLICY IF EXISTS "Users can manage own lead products" ON lead_products;
+DROP POLICY IF EXISTS "Users can manage own lead services" ON lead_services;
+
+CREATE POLICY "Users can manage accessible lead products"
+  ON lead_products FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_products.lead_id
+    )
+  );
+
+CREATE POLICY "Users can manage accessible lead services"
+  ON lead_services FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_services.lead_id
+    )
+  );
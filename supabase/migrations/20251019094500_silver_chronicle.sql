@@ -0,0 +1,160 @@
+/*
+  # Lead activity timeline and audit log
+
+  1. New Tables
+    - `lead_activities` - Chronological history per lead
+      - System entries written by triggers: lead created/updated, products and services added/changed/removed
+      - Manual entries written by users: calls, visits, emails, meetings and notes
+      - `changes` holds field-level before/after values as { field: { "from": ..., "to": ... } }
+      - `actor_id` is the user who made the change
+
+  2. Triggers
+    - `leads` AFTER INSERT/UPDATE
+    - `lead_products` / `lead_services` AFTER INSERT/UPDATE/DELETE
+
+  3. Security
+    - Activities are readable by anyone who can access the lead
+    - Users can only insert manual activity types as themselves
+    - Activities cannot be edited or deleted from the client
+*/
+
+CREATE TABLE IF NOT EXISTS lead_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  activity_type text NOT NULL CHECK (activity_type IN (
+    'created', 'updated',
+    'product_added', 'product_updated', 'product_removed',
+    'service_added', 'service_updated', 'service_removed',
+    'call', 'visit', 'email', 'meeting', 'note'
+  )),
+  description text,
+  changes jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead_id ON lead_activities(lead_id, occurred_at DESC);
+
+CREATE POLICY "Users can read activities of accessible leads"
+  ON lead_activities FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_activities.lead_id
+    )
+  );
+
+CREATE POLICY "Users can log activities on accessible leads"
+  ON lead_activities FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    actor_id = auth.uid()
+    AND activity_type IN ('call', 'visit', 'email', 'meeting', 'note')
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_activities.lead_id
+    )
+  );
+
+-- Field-level diff of a lead row; bookkeeping columns are ignored
+CREATE OR REPLACE FUNCTION log_lead_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  diff jsonb := '{}'::jsonb;
+  field text;
+  old_row jsonb;
+  new_row jsonb := to_jsonb(NEW);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO lead_activities (lead_id, actor_id, activity_type, description)
+    VALUES (NEW.id, auth.uid(), 'created', 'Lead created');
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  FOR field IN SELECT jsonb_object_keys(new_row) LOOP
+    IF field NOT IN ('updated_at', 'created_at') AND old_row -> field IS DISTINCT FROM new_row -> field THEN
+      diff := diff || jsonb_build_object(field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field));
+    END IF;
+  END LOOP;
+
+  IF diff <> '{}'::jsonb THEN
+    INSERT INTO lead_activities (lead_id, actor_id, activity_type, changes)
+    VALUES (NEW.id, auth.uid(), 'updated', diff);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_leads_activity ON leads;
+CREATE TRIGGER log_leads_activity AFTER INSERT OR UPDATE ON leads
+FOR EACH ROW EXECUTE FUNCTION log_lead_activity();
+
+-- Shared by lead_products and lead_services; TG_ARGV[0] is 'product' or 'service'
+CREATE OR REPLACE FUNCTION log_lead_item_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kind text := TG_ARGV[0];
+  row_data jsonb := to_jsonb(COALESCE(NEW, OLD));
+  target_lead uuid := (row_data ->> 'lead_id')::uuid;
+  item_name text;
+  diff jsonb := '{}'::jsonb;
+BEGIN
+  -- Rows removed by a cascading lead delete have no lead left to log against
+  IF NOT EXISTS (SELECT 1 FROM leads WHERE id = target_lead) THEN
+    RETURN NULL;
+  END IF;
+
+  IF kind = 'product' THEN
+    SELECT name INTO item_name FROM products WHERE id = (row_data ->> 'product_id')::uuid;
+  ELSE
+    SELECT name INTO item_name FROM services WHERE id = (row_data ->> 'service_id')::uuid;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO lead_activities (lead_id, actor_id, activity_type, description, changes)
+    VALUES (
+      target_lead, auth.uid(), kind || '_added', item_name,
+      jsonb_build_object('quantity', jsonb_build_object('from', null, 'to', NEW.quantity))
+    );
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.quantity IS DISTINCT FROM NEW.quantity THEN
+      diff := diff || jsonb_build_object('quantity', jsonb_build_object('from', OLD.quantity, 'to', NEW.quantity));
+    END IF;
+    IF OLD.discount_percent IS DISTINCT FROM NEW.discount_percent THEN
+      diff := diff || jsonb_build_object('discount_percent', jsonb_build_object('from', OLD.discount_percent, 'to', NEW.discount_percent));
+    END IF;
+    IF diff <> '{}'::jsonb THEN
+      INSERT INTO lead_activities (lead_id, actor_id, activity_type, description, changes)
+      VALUES (target_lead, auth.uid(), kind || '_updated', item_name, diff);
+    END IF;
+  ELSE
+    INSERT INTO lead_activities (lead_id, actor_id, activity_type, description, changes)
+    VALUES (
+      target_lead, auth.uid(), kind || '_removed', item_name,
+      jsonb_build_object('quantity', jsonb_build_object('from', OLD.quantity, 'to', null))
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_lead_products_activity ON lead_products;
+CREATE TRIGGER log_lead_products_activity AFTER INSERT OR UPDATE OR DELETE ON lead_products
+FOR EACH ROW EXECUTE FUNCTION log_lead_item_activity('product');
+
+DROP TRIGGER IF EXISTS log_lead_services_activity ON lead_services;
+CREATE TRIGGER log_lead_services_activity AFTER INSERT OR UPDATE OR DELETE ON lead_services
+FOR EACH ROW EXECUTE FUNCTION log_lead_item_activity('service');
@@ -0,0 +1,249 @@
+/*
+  # Rule-based lead scoring
+
+  1. New Tables
+    - `scoring_rules` - Admin-configured rules; each matching rule adds `points` (may be negative)
+      - `field` is a lead column, or the computed `follow_up_overdue`
+      - `operator` is one of equals, not_equals, greater_than, less_than, is_set, is_not_set
+
+  2. Updates
+    - `leads`
+      - Add `lead_score_override` (boolean) - score was entered manually and is not recomputed
+      - Add `score_breakdown` (jsonb) - rules that contributed to the score: [{ rule_id, name, points }]
+
+  3. Behaviour
+    - Scores are recomputed on every lead insert/update unless overridden, clamped to 0-100
+    - Any change to `scoring_rules` recomputes all non-overridden leads
+    - `recalculate_lead_scores()` (admins only) refreshes time-dependent rules (follow-up overdue); pg_cron
+      runs it every night just after midnight UTC, when `current_date` moves on
+    - A recalculation is not an edit: it leaves `updated_at` alone and isn't written to the activity log
+    - The activity log ignores `score_breakdown`; score changes from edits still show up via `lead_score`
+
+  4. Security
+    - Rules are readable by all authenticated users; only admins can change them
+*/
+
+CREATE TABLE IF NOT EXISTS scoring_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  field text NOT NULL,
+  operator text NOT NULL CHECK (operator IN ('equals', 'not_equals', 'greater_than', 'less_than', 'is_set', 'is_not_set')),
+  value text,
+  points integer NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (operator NOT IN ('greater_than', 'less_than') OR value ~ '^-?[0-9]+(\.[0-9]+)?$')
+);
+
+ALTER TABLE scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read scoring rules"
+  ON scoring_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage scoring rules"
+  ON scoring_rules FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_scoring_rules_updated_at BEFORE UPDATE ON scoring_rules
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'lead_score_override'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN lead_score_override boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'score_breakdown'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN score_breakdown jsonb;
+  END IF;
+END $$;
+
+-- Existing scores were typed by hand, keep them until someone opts in to rules. Nobody edited these leads,
+-- so the backfill neither moves `updated_at` nor lands in the activity log
+ALTER TABLE leads DISABLE TRIGGER update_leads_updated_at, DISABLE TRIGGER log_leads_activity;
+UPDATE leads SET lead_score_override = true WHERE lead_score <> 0;
+ALTER TABLE leads ENABLE TRIGGER update_leads_updated_at, ENABLE TRIGGER log_leads_activity;
+
+-- Evaluates the active rules against a lead; returns { score, breakdown }
+CREATE OR REPLACE FUNCTION score_lead(lead leads)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule scoring_rules%ROWTYPE;
+  row_data jsonb;
+  field_value text;
+  matched boolean;
+  total integer := 0;
+  breakdown jsonb := '[]'::jsonb;
+BEGIN
+  row_data := to_jsonb(lead) || jsonb_build_object(
+    'follow_up_overdue',
+    COALESCE(lead.follow_up, false) AND lead.follow_up_date IS NOT NULL AND lead.follow_up_date < current_date
+  );
+
+  FOR rule IN SELECT * FROM scoring_rules WHERE is_active ORDER BY sort_order, created_at LOOP
+    field_value := row_data ->> rule.field;
+    matched := CASE rule.operator
+      WHEN 'equals' THEN lower(field_value) = lower(rule.value)
+      WHEN 'not_equals' THEN field_value IS NULL OR lower(field_value) <> lower(rule.value)
+      WHEN 'greater_than' THEN
+        CASE WHEN field_value ~ '^-?[0-9]+(\.[0-9]+)?$' THEN field_value::numeric > rule.value::numeric ELSE false END
+      WHEN 'less_than' THEN
+        CASE WHEN field_value ~ '^-?[0-9]+(\.[0-9]+)?$' THEN field_value::numeric < rule.value::numeric ELSE false END
+      WHEN 'is_set' THEN COALESCE(btrim(field_value), '') NOT IN ('', 'false')
+      WHEN 'is_not_set' THEN COALESCE(btrim(field_value), '') IN ('', 'false')
+      ELSE false
+    END;
+
+    IF COALESCE(matched, false) THEN
+      total := total + rule.points;
+      breakdown := breakdown || jsonb_build_object('rule_id', rule.id, 'name', rule.name, 'points', rule.points);
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('score', LEAST(GREATEST(total, 0), 100), 'breakdown', breakdown);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_lead_score()
+RETURNS TRIGGER AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  IF NEW.lead_score_override THEN
+    NEW.score_breakdown := NULL;
+    RETURN NEW;
+  END IF;
+
+  result := score_lead(NEW);
+  NEW.lead_score := (result ->> 'score')::integer;
+  NEW.score_breakdown := result -> 'breakdown';
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS apply_leads_score ON leads;
+CREATE TRIGGER apply_leads_score BEFORE INSERT OR UPDATE ON leads
+FOR EACH ROW EXECUTE FUNCTION apply_lead_score();
+
+-- Only touches leads whose score or breakdown actually changes
+CREATE OR REPLACE FUNCTION recalculate_lead_scores()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate lead scores';
+  END IF;
+
+  -- Read by the updated_at and activity log triggers; local to this transaction and cleared below
+  PERFORM set_config('app.rescoring', 'on', true);
+
+  WITH scored AS (
+    SELECT id, score_lead(leads) AS result FROM leads WHERE NOT lead_score_override
+  )
+  UPDATE leads SET
+    lead_score = (scored.result ->> 'score')::integer,
+    score_breakdown = scored.result -> 'breakdown'
+  FROM scored
+  WHERE leads.id = scored.id
+  AND (
+    leads.lead_score IS DISTINCT FROM (scored.result ->> 'score')::integer
+    OR leads.score_breakdown IS DISTINCT FROM scored.result -> 'breakdown'
+  );
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  PERFORM set_config('app.rescoring', 'off', true);
+  RETURN updated;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_leads_updated_at ON leads;
+CREATE TRIGGER update_leads_updated_at BEFORE UPDATE ON leads
+FOR EACH ROW WHEN (current_setting('app.rescoring', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION recalculate_scores_on_rule_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM recalculate_lead_scores();
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS recalculate_scores_on_rules_change ON scoring_rules;
+CREATE TRIGGER recalculate_scores_on_rules_change AFTER INSERT OR UPDATE OR DELETE ON scoring_rules
+FOR EACH STATEMENT EXECUTE FUNCTION recalculate_scores_on_rule_change();
+
+CREATE OR REPLACE FUNCTION log_lead_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  diff jsonb := '{}'::jsonb;
+  field text;
+  old_row jsonb;
+  new_row jsonb := to_jsonb(NEW);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO lead_activities (lead_id, actor_id, activity_type, description)
+    VALUES (NEW.id, auth.uid(), 'created', 'Lead created');
+    RETURN NEW;
+  END IF;
+
+  -- Score recalculations aren't edits by anyone
+  IF current_setting('app.rescoring', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  FOR field IN SELECT jsonb_object_keys(new_row) LOOP
+    IF field NOT IN ('updated_at', 'created_at', 'score_breakdown') AND old_row -> field IS DISTINCT FROM new_row -> field THEN
+      diff := diff || jsonb_build_object(field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field));
+    END IF;
+  END LOOP;
+
+  IF diff <> '{}'::jsonb THEN
+    INSERT INTO lead_activities (lead_id, actor_id, activity_type, changes)
+    VALUES (NEW.id, auth.uid(), 'updated', diff);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- "Follow-up overdue" depends on the date, so scores are refreshed once a day
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('recalculate-lead-scores', '5 0 * * *', 'SELECT public.recalculate_lead_scores()');
+
+-- Starter rules
+INSERT INTO scoring_rules (name, field, operator, value, points, sort_order) VALUES
+('Housing society', 'lead_type', 'equals', 'Housing-Society', 30, 1),
+('Business', 'lead_type', 'equals', 'Business', 20, 2),
+('High value (over ₹50,000)', 'potential_amount', 'greater_than', '50000', 20, 3),
+('Has phone number', 'phone', 'is_set', NULL, 5, 4),
+('Has location', 'location_url', 'is_set', NULL, 5, 5),
+('In progress', 'status', 'equals', 'In-Progress', 15, 6),
+('Follow-up overdue', 'follow_up_overdue', 'is_set', NULL, -10, 7);
@@ -0,0 +1,213 @@
+/*
+  # Duplicate lead detection and merging
+
+  1. Functions
+    - `normalize_phone(text)` - Reduces Indian phone numbers to 10 digits, same rules as the client
+    - `find_duplicate_leads(...)` - Leads matching by normalized email, normalized phone, or a similar
+      name at the same PIN code. Searches all leads, not just the caller's, so reps can see when a
+      colleague already owns the customer; for leads the caller can't access only the id, owner and
+      match reason are returned
+    - `merge_leads(survivor_id, duplicate_id, field_values)` - Applies the chosen field values to the
+      survivor, moves products, services and history across, then deletes the duplicate
+
+  2. New Tables
+    - `lead_merge_fields` - lead columns a merge carries over; `combine` marks arrays merged as a union
+    - `lead_merge_tables` - child tables whose rows move to the survivor; `item_column` keeps the
+      survivor's own row when both leads have the same item
+
+  3. Indexes
+    - Expression indexes on normalized email and phone, trigram index on lower(full_name)
+
+  4. Updates
+    - `lead_activities.activity_type` accepts 'merged'
+
+  5. Security
+    - Only managers and admins can merge, and only leads they can access
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION normalize_phone(phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN digits ~ '^91[0-9]{10}$' THEN substr(digits, 3)
+    WHEN digits ~ '^0[0-9]{10}$' THEN substr(digits, 2)
+    ELSE digits
+  END
+  FROM (SELECT regexp_replace(COALESCE(phone, ''), '[^0-9]', '', 'g') AS digits) AS cleaned;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_email_normalized ON leads (lower(btrim(email)));
+CREATE INDEX IF NOT EXISTS idx_leads_phone_normalized ON leads (normalize_phone(phone));
+CREATE INDEX IF NOT EXISTS idx_leads_full_name_trgm ON leads USING gin (lower(full_name) extensions.gin_trgm_ops);
+
+DROP FUNCTION IF EXISTS find_duplicate_leads(text, text, text, numeric, uuid);
+
+CREATE OR REPLACE FUNCTION find_duplicate_leads(
+  lead_email text,
+  lead_phone text,
+  lead_name text,
+  lead_pincode numeric,
+  exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  company text,
+  email text,
+  phone text,
+  pincode numeric,
+  status text,
+  assigned_to uuid,
+  owner_name text,
+  match_reason text,
+  accessible boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    l.id,
+    CASE WHEN access.visible THEN l.full_name END,
+    CASE WHEN access.visible THEN l.company END,
+    CASE WHEN access.visible THEN l.email END,
+    CASE WHEN access.visible THEN l.phone END,
+    CASE WHEN access.visible THEN l.pincode END,
+    CASE WHEN access.visible THEN l.status::text END,
+    CASE WHEN access.visible THEN l.assigned_to END,
+    (SELECT COALESCE(p.full_name, p.email) FROM profiles p WHERE p.user_id = l.assigned_to),
+    CASE
+      WHEN NULLIF(lower(btrim(lead_email)), '') = lower(btrim(l.email)) THEN 'email'
+      WHEN length(normalize_phone(lead_phone)) >= 10 AND normalize_phone(lead_phone) = normalize_phone(l.phone) THEN 'phone'
+      ELSE 'name'
+    END,
+    access.visible
+  FROM leads l
+  CROSS JOIN LATERAL (SELECT can_access_lead(l.user_id, l.assigned_to) AS visible) access
+  WHERE auth.uid() IS NOT NULL
+  AND (exclude_id IS NULL OR l.id <> exclude_id)
+  AND (
+    NULLIF(lower(btrim(lead_email)), '') = lower(btrim(l.email))
+    OR (length(normalize_phone(lead_phone)) >= 10 AND normalize_phone(lead_phone) = normalize_phone(l.phone))
+    OR (
+      lead_pincode IS NOT NULL
+      AND l.pincode = lead_pincode
+      AND length(btrim(COALESCE(lead_name, ''))) >= 3
+      AND similarity(lower(l.full_name), lower(btrim(lead_name))) >= 0.5
+    )
+  )
+  ORDER BY l.updated_at DESC
+  LIMIT 10;
+$$;
+
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check CHECK (activity_type IN (
+  'created', 'updated', 'merged',
+  'product_added', 'product_updated', 'product_removed',
+  'service_added', 'service_updated', 'service_removed',
+  'call', 'visit', 'email', 'meeting', 'note'
+));
+
+-- What a merge carries over. Later migrations register their own lead columns and child tables here
+-- instead of redefining merge_leads()
+CREATE TABLE IF NOT EXISTS lead_merge_fields (
+  field_name text PRIMARY KEY,
+  -- Array columns that take the sorted union of both leads rather than one side's value
+  combine boolean NOT NULL DEFAULT false
+);
+
+CREATE TABLE IF NOT EXISTS lead_merge_tables (
+  table_name text PRIMARY KEY,
+  -- Set for item tables: rows for an item the survivor already has are dropped with the duplicate
+  item_column text
+);
+
+-- Only read by merge_leads(), which runs as the definer
+ALTER TABLE lead_merge_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_merge_tables ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO lead_merge_fields (field_name) VALUES
+  ('full_name'), ('email'), ('phone'), ('company'), ('lead_type'), ('model_type'), ('status'),
+  ('potential_amount'), ('notes'), ('address'), ('location_url'), ('pincode'),
+  ('follow_up'), ('follow_up_date'), ('follow_up_notes'), ('lead_sealed'), ('assigned_to')
+ON CONFLICT (field_name) DO NOTHING;
+
+INSERT INTO lead_merge_tables (table_name, item_column) VALUES
+  ('lead_products', 'product_id'),
+  ('lead_services', 'service_id'),
+  ('lead_activities', NULL)
+ON CONFLICT (table_name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION merge_leads(survivor_id uuid, duplicate_id uuid, field_values jsonb DEFAULT '{}'::jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  survivor leads%ROWTYPE;
+  duplicate leads%ROWTYPE;
+  field_list text;
+  value_list text;
+  child lead_merge_tables%ROWTYPE;
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only managers and admins can merge leads';
+  END IF;
+
+  IF survivor_id = duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor FROM leads WHERE id = survivor_id FOR UPDATE;
+  SELECT * INTO duplicate FROM leads WHERE id = duplicate_id FOR UPDATE;
+
+  IF survivor.id IS NULL OR duplicate.id IS NULL
+    OR NOT can_access_lead(survivor.user_id, survivor.assigned_to)
+    OR NOT can_access_lead(duplicate.user_id, duplicate.assigned_to) THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  -- Fields take the chosen value, or the survivor's own when none was given
+  SELECT
+    string_agg(format('%I', field_name), ', ' ORDER BY field_name),
+    string_agg(
+      CASE WHEN combine
+        THEN format('ARRAY(SELECT DISTINCT unnest(leads.%1$I || duplicate.%1$I) ORDER BY 1)', field_name)
+        ELSE format('merged.%I', field_name)
+      END,
+      ', ' ORDER BY field_name
+    )
+  INTO field_list, value_list
+  FROM lead_merge_fields;
+
+  EXECUTE format(
+    'UPDATE leads SET (%s) = (
+      SELECT %s FROM jsonb_populate_record($1, $2) merged, leads duplicate WHERE duplicate.id = $4
+    ) WHERE id = $3',
+    field_list, value_list
+  ) USING survivor, field_values, survivor_id, duplicate_id;
+
+  FOR child IN SELECT * FROM lead_merge_tables ORDER BY table_name LOOP
+    IF child.item_column IS NULL THEN
+      EXECUTE format('UPDATE %I SET lead_id = $1 WHERE lead_id = $2', child.table_name)
+      USING survivor_id, duplicate_id;
+    ELSE
+      EXECUTE format(
+        'UPDATE %1$I SET lead_id = $1 WHERE lead_id = $2 AND %2$I NOT IN (SELECT %2$I FROM %1$I WHERE lead_id = $1)',
+        child.table_name, child.item_column
+      ) USING survivor_id, duplicate_id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO lead_activities (lead_id, actor_id, activity_type, description)
+  VALUES (survivor_id, auth.uid(), 'merged', duplicate.full_name);
+
+  DELETE FROM leads WHERE id = duplicate_id;
+END;
+$$;
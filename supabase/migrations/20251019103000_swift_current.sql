@@ -0,0 +1,16 @@
+/*
+  # Indexes for server-side lead listing
+
+  1. Sorting
+    - `potential_amount` and `follow_up_date`, the sortable columns that were not indexed yet
+
+  2. Search
+    - Trigram indexes so `ilike '%term%'` on name, email and company can use an index
+*/
+
+CREATE INDEX IF NOT EXISTS idx_leads_potential_amount ON leads(potential_amount DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_follow_up_date ON leads(follow_up_date);
+
+CREATE INDEX IF NOT EXISTS idx_leads_full_name_search ON leads USING gin (full_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_email_search ON leads USING gin (email extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_company_search ON leads USING gin (company extensions.gin_trgm_ops);
@@ -0,0 +1,156 @@
+/*
+  # Threaded lead notes
+
+  1. New Tables
+    - `lead_notes` - Notes on a lead, each with an author and timestamp
+      - `parent_id` makes a note a reply; replies are one level deep
+      - `is_pinned` keeps a note at the top of the thread
+      - `edited_at` is set whenever the body changes
+    - `lead_note_revisions` - Previous bodies of edited notes, newest first
+
+  2. Data
+    - Existing `leads.notes` text becomes the first note of each lead, authored by the lead's creator
+    - New leads created with `notes` (form or import) get the same first note
+    - `merge_leads()` moves notes to the surviving lead
+
+  3. Security
+    - Notes follow lead visibility
+    - Only the author can change a note's body; anyone with access can pin or unpin
+    - Authors, managers and admins can delete notes
+*/
+
+CREATE TABLE IF NOT EXISTS lead_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES lead_notes(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body text NOT NULL CHECK (btrim(body) <> ''),
+  is_pinned boolean NOT NULL DEFAULT false,
+  edited_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS lead_note_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id uuid NOT NULL REFERENCES lead_notes(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE lead_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_note_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_lead_notes_lead_id ON lead_notes(lead_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_lead_note_revisions_note_id ON lead_note_revisions(note_id, created_at DESC);
+
+CREATE TRIGGER update_lead_notes_updated_at BEFORE UPDATE ON lead_notes
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Users can read notes of accessible leads"
+  ON lead_notes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_notes.lead_id
+    )
+  );
+
+CREATE POLICY "Users can add notes to accessible leads"
+  ON lead_notes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_notes.lead_id
+    )
+  );
+
+CREATE POLICY "Users can update notes of accessible leads"
+  ON lead_notes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = lead_notes.lead_id
+    )
+  );
+
+CREATE POLICY "Authors, managers and admins can delete notes"
+  ON lead_notes FOR DELETE
+  TO authenticated
+  USING (
+    author_id = auth.uid()
+    OR current_user_role() IN ('admin', 'manager')
+  );
+
+CREATE POLICY "Users can read revisions of visible notes"
+  ON lead_note_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lead_notes
+      WHERE lead_notes.id = lead_note_revisions.note_id
+    )
+  );
+
+-- Keeps the previous body when a note is edited; only the author may edit
+CREATE OR REPLACE FUNCTION record_lead_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.author_id IS DISTINCT FROM OLD.author_id THEN
+    RAISE EXCEPTION 'The author of a note cannot be changed';
+  END IF;
+
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    IF auth.uid() IS NOT NULL AND OLD.author_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can edit a note';
+    END IF;
+
+    INSERT INTO lead_note_revisions (note_id, body, edited_by)
+    VALUES (OLD.id, OLD.body, auth.uid());
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_lead_notes_revision ON lead_notes;
+CREATE TRIGGER record_lead_notes_revision BEFORE UPDATE ON lead_notes
+FOR EACH ROW EXECUTE FUNCTION record_lead_note_revision();
+
+-- Notes entered while creating a lead (form or import) start the thread
+CREATE OR REPLACE FUNCTION create_initial_lead_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF btrim(COALESCE(NEW.notes, '')) <> '' THEN
+    INSERT INTO lead_notes (lead_id, author_id, body)
+    VALUES (NEW.id, NEW.user_id, NEW.notes);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_leads_initial_note ON leads;
+CREATE TRIGGER create_leads_initial_note AFTER INSERT ON leads
+FOR EACH ROW EXECUTE FUNCTION create_initial_lead_note();
+
+INSERT INTO lead_notes (lead_id, author_id, body, created_at, updated_at)
+SELECT id, user_id, notes, created_at, created_at
+FROM leads
+WHERE btrim(COALESCE(notes, '')) <> ''
+AND NOT EXISTS (SELECT 1 FROM lead_notes WHERE lead_notes.lead_id = leads.id);
+
+-- Merging leads also carries the duplicate's notes over to the survivor
+INSERT INTO lead_merge_tables (table_name) VALUES ('lead_notes') ON CONFLICT (table_name) DO NOTHING;
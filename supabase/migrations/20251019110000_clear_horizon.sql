@@ -0,0 +1,184 @@
+/*
+  # Lead analytics
+
+  1. New Functions
+    - `lead_analytics(range_start, range_end, owner_id, period)` returns one JSON document with
+      - `funnel`: leads created in the range by current status
+      - `segments`: lead count, open pipeline value and closed value by `lead_type` and `model_type`
+      - `trends`: leads created (by `created_at`) and closed (by `closed_at`) per week or month
+      - `top_items`: the ten products and ten services attached to the most leads, with quantity and value
+    - Item value uses the price stored on the lead, falling back to the catalog price, less the line discount
+
+  2. Changes to `leads`
+    - Add `closed_at` (timestamptz) - set when the status becomes 'Closed' and cleared when it is reopened,
+      so later edits don't move a lead to another period. Existing closed leads use `updated_at`.
+
+  3. Security
+    - Runs with the caller's permissions, so each user only sees figures for leads they can read
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'closed_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN closed_at timestamptz;
+    UPDATE leads SET closed_at = updated_at WHERE status = 'Closed';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at);
+CREATE INDEX IF NOT EXISTS idx_leads_closed_at ON leads(closed_at) WHERE status = 'Closed';
+
+CREATE OR REPLACE FUNCTION set_lead_closed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'Closed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'Closed') THEN
+    NEW.closed_at = COALESCE(NEW.closed_at, now());
+  ELSIF NEW.status IS DISTINCT FROM 'Closed' THEN
+    NEW.closed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_leads_closed_at ON leads;
+CREATE TRIGGER set_leads_closed_at BEFORE INSERT OR UPDATE ON leads
+FOR EACH ROW EXECUTE FUNCTION set_lead_closed_at();
+
+CREATE OR REPLACE FUNCTION lead_analytics(
+  range_start timestamptz,
+  range_end timestamptz,
+  owner_id uuid DEFAULT NULL,
+  period text DEFAULT 'week'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  IF period NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Period must be week or month';
+  END IF;
+
+  WITH owned AS (
+    SELECT * FROM leads
+    WHERE owner_id IS NULL OR assigned_to = owner_id
+  ),
+  created AS (
+    SELECT * FROM owned
+    WHERE created_at >= range_start AND created_at < range_end
+  ),
+  item_lines AS (
+    SELECT
+      'Product' AS kind,
+      p.name,
+      lp.lead_id,
+      lp.quantity,
+      COALESCE(lp.unit_price, p.price) * lp.quantity * (1 - lp.discount_percent / 100) AS value
+    FROM lead_products lp
+    JOIN products p ON p.id = lp.product_id
+    JOIN created c ON c.id = lp.lead_id
+    UNION ALL
+    SELECT
+      'Service',
+      s.name,
+      ls.lead_id,
+      ls.quantity,
+      COALESCE(ls.unit_price, s.price) * ls.quantity * (1 - ls.discount_percent / 100)
+    FROM lead_services ls
+    JOIN services s ON s.id = ls.service_id
+    JOIN created c ON c.id = ls.lead_id
+  ),
+  periods AS (
+    SELECT generate_series(
+      date_trunc(period, range_start),
+      range_end - interval '1 microsecond',
+      ('1 ' || period)::interval
+    ) AS period_start
+  )
+  SELECT jsonb_build_object(
+    'funnel', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'new', count(*) FILTER (WHERE status = 'New'),
+        'in_progress', count(*) FILTER (WHERE status = 'In-Progress'),
+        'closed', count(*) FILTER (WHERE status = 'Closed')
+      )
+      FROM created
+    ),
+    'segments', (
+      SELECT COALESCE(jsonb_agg(segment ORDER BY segment->>'dimension', segment->>'value'), '[]'::jsonb)
+      FROM (
+        SELECT jsonb_build_object(
+          'dimension', 'lead_type',
+          'value', lead_type,
+          'lead_count', count(*),
+          'pipeline_value', COALESCE(sum(potential_amount) FILTER (WHERE status <> 'Closed'), 0),
+          'closed_value', COALESCE(sum(potential_amount) FILTER (WHERE status = 'Closed'), 0)
+        ) AS segment
+        FROM created
+        GROUP BY lead_type
+        UNION ALL
+        SELECT jsonb_build_object(
+          'dimension', 'model_type',
+          'value', model_type,
+          'lead_count', count(*),
+          'pipeline_value', COALESCE(sum(potential_amount) FILTER (WHERE status <> 'Closed'), 0),
+          'closed_value', COALESCE(sum(potential_amount) FILTER (WHERE status = 'Closed'), 0)
+        )
+        FROM created
+        GROUP BY model_type
+      ) segments
+    ),
+    'trends', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period_start', to_char(periods.period_start, 'YYYY-MM-DD'),
+        'created', (
+          SELECT count(*) FROM owned
+          WHERE created_at >= GREATEST(periods.period_start, range_start)
+          AND created_at < LEAST(periods.period_start + ('1 ' || period)::interval, range_end)
+        ),
+        'closed', (
+          SELECT count(*) FROM owned
+          WHERE status = 'Closed'
+          AND closed_at >= GREATEST(periods.period_start, range_start)
+          AND closed_at < LEAST(periods.period_start + ('1 ' || period)::interval, range_end)
+        )
+      ) ORDER BY periods.period_start), '[]'::jsonb)
+      FROM periods
+    ),
+    'top_items', (
+      SELECT COALESCE(jsonb_agg(item ORDER BY (item->>'lead_count')::integer DESC, (item->>'value')::numeric DESC), '[]'::jsonb)
+      FROM (
+        SELECT jsonb_build_object(
+          'kind', kind,
+          'name', name,
+          'lead_count', lead_count,
+          'quantity', quantity,
+          'value', value
+        ) AS item
+        FROM (
+          SELECT
+            kind,
+            name,
+            count(DISTINCT lead_id) AS lead_count,
+            sum(quantity) AS quantity,
+            round(sum(value), 2) AS value,
+            row_number() OVER (PARTITION BY kind ORDER BY count(DISTINCT lead_id) DESC, sum(value) DESC) AS rank
+          FROM item_lines
+          GROUP BY kind, name
+        ) ranked
+        WHERE rank <= 10
+      ) items
+    )
+  )
+  INTO result;
+
+  RETURN result;
+END;
+$$;
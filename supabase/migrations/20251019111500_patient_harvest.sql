@@ -0,0 +1,163 @@
+/*
+  # Weighted revenue forecast
+
+  1. Changes to `leads`
+    - Add `expected_close_date` (date) - when the lead is expected to close; the forecast falls back to
+      `follow_up_date` when it is empty
+    - Add `sealed_at` (timestamptz) - set when `lead_sealed` becomes true and cleared when it is unset,
+      so sealed revenue can be counted by month. Existing sealed leads use `updated_at`.
+
+  2. New Tables
+    - `stage_probabilities` - chance an open lead in each status turns into revenue, in percent
+
+  3. New Functions
+    - `lead_forecast(range_start, range_end, owner_id, weight_by_score)` returns one row per close month
+      and model type with open pipeline, weighted forecast and actual sealed revenue
+      - Open leads are those neither closed nor sealed
+      - Open leads whose expected month has already passed count towards the current month
+      - Open leads with no expected or follow-up date are returned with a null month
+      - With `weight_by_score`, each amount is further multiplied by the lead score, read as a percentage (0-100)
+
+  4. Updates
+    - `merge_leads()` applies the chosen `expected_close_date`
+
+  5. Security
+    - Stage probabilities are readable by all authenticated users; only admins can change them
+    - `lead_forecast` runs with the caller's permissions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'expected_close_date'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN expected_close_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'sealed_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN sealed_at timestamptz;
+    UPDATE leads SET sealed_at = updated_at WHERE lead_sealed = true;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_sealed_at ON leads(sealed_at) WHERE lead_sealed = true;
+
+CREATE OR REPLACE FUNCTION set_lead_sealed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.lead_sealed, false) AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.lead_sealed, false)) THEN
+    NEW.sealed_at = COALESCE(NEW.sealed_at, now());
+  ELSIF NOT COALESCE(NEW.lead_sealed, false) THEN
+    NEW.sealed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_leads_sealed_at ON leads;
+CREATE TRIGGER set_leads_sealed_at BEFORE INSERT OR UPDATE ON leads
+FOR EACH ROW EXECUTE FUNCTION set_lead_sealed_at();
+
+CREATE TABLE IF NOT EXISTS stage_probabilities (
+  status lead_status PRIMARY KEY,
+  probability numeric(5,2) NOT NULL CHECK (probability >= 0 AND probability <= 100),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stage_probabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read stage probabilities"
+  ON stage_probabilities FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update stage probabilities"
+  ON stage_probabilities FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_stage_probabilities_updated_at BEFORE UPDATE ON stage_probabilities
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO stage_probabilities (status, probability) VALUES
+('New', 10),
+('In-Progress', 40)
+ON CONFLICT (status) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION lead_forecast(
+  range_start date,
+  range_end date,
+  owner_id uuid DEFAULT NULL,
+  weight_by_score boolean DEFAULT false
+)
+RETURNS TABLE (
+  close_month date,
+  model_type model_type,
+  open_leads integer,
+  pipeline_value numeric,
+  weighted_value numeric,
+  sealed_leads integer,
+  sealed_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH owned AS (
+    SELECT * FROM leads
+    WHERE lead_forecast.owner_id IS NULL OR assigned_to = lead_forecast.owner_id
+  ),
+  open_leads AS (
+    SELECT
+      CASE
+        WHEN COALESCE(l.expected_close_date, l.follow_up_date::date) IS NULL THEN NULL
+        ELSE GREATEST(
+          date_trunc('month', COALESCE(l.expected_close_date, l.follow_up_date::date)),
+          date_trunc('month', now())
+        )::date
+      END AS close_month,
+      l.model_type,
+      l.potential_amount AS amount,
+      l.potential_amount
+        * COALESCE(sp.probability, 0) / 100
+        * CASE WHEN weight_by_score THEN LEAST(GREATEST(l.lead_score, 0), 100)::numeric / 100 ELSE 1 END
+        AS weighted
+    FROM owned l
+    LEFT JOIN stage_probabilities sp ON sp.status = l.status
+    WHERE l.status <> 'Closed' AND NOT COALESCE(l.lead_sealed, false)
+  ),
+  sealed AS (
+    SELECT
+      date_trunc('month', sealed_at)::date AS close_month,
+      model_type,
+      potential_amount AS amount
+    FROM owned
+    WHERE lead_sealed AND sealed_at IS NOT NULL
+  ),
+  combined AS (
+    SELECT close_month, model_type, 1 AS open_count, amount AS pipeline, weighted, 0 AS sealed_count, 0::numeric AS sealed_amount
+    FROM open_leads
+    UNION ALL
+    SELECT close_month, model_type, 0, 0, 0, 1, amount
+    FROM sealed
+  )
+  SELECT
+    close_month,
+    model_type,
+    sum(open_count)::integer,
+    COALESCE(sum(pipeline), 0),
+    round(COALESCE(sum(weighted), 0), 2),
+    sum(sealed_count)::integer,
+    COALESCE(sum(sealed_amount), 0)
+  FROM combined
+  WHERE close_month IS NULL OR (close_month >= date_trunc('month', range_start) AND close_month <= range_end)
+  GROUP BY close_month, model_type
+  ORDER BY close_month NULLS LAST, model_type;
+$$;
+
+INSERT INTO lead_merge_fields (field_name) VALUES ('expected_close_date') ON CONFLICT (field_name) DO NOTHING;
@@ -0,0 +1,211 @@
+/*
+  # Quotations
+
+  1. New Tables
+    - `quotation_settings` - single row with the letterhead, default terms and validity period
+    - `quotations` - every quotation issued for a lead, kept exactly as sent
+      - `quote_number` is assigned on the first quote for a lead (Q-YYYY-00001) and reused when it is reissued
+      - `version` counts reissues of the same quote number, starting at 1
+      - `content` is a snapshot of the letterhead, customer, line items and totals at the time of issue
+
+  2. Data
+    - `lead_activities.activity_type` accepts 'quoted'; issuing a quotation is logged on the lead
+    - `merge_leads()` moves quotations to the surviving lead
+
+  3. Security
+    - Everyone can read quotation settings; only admins can change them
+    - Quotations follow lead visibility; issued quotations cannot be changed or deleted
+    - `total` is computed from the lead's products and services when the quotation is issued, and a snapshot
+      whose totals disagree with it is rejected
+*/
+
+CREATE TABLE IF NOT EXISTS quotation_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  company_name text NOT NULL DEFAULT '',
+  address text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  gstin text NOT NULL DEFAULT '',
+  terms text NOT NULL DEFAULT '',
+  validity_days integer NOT NULL DEFAULT 30 CHECK (validity_days > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE quotation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read quotation settings"
+  ON quotation_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update quotation settings"
+  ON quotation_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_quotation_settings_updated_at BEFORE UPDATE ON quotation_settings
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO quotation_settings (id, terms) VALUES (
+  true,
+  E'Prices are in INR and include GST as shown.\n50% advance with the order, balance before dispatch.\nDelivery within 3-4 weeks of the advance payment.\nInstallation and one training visit are included.'
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE SEQUENCE IF NOT EXISTS quotation_number_seq;
+
+CREATE TABLE IF NOT EXISTS quotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  quote_number text NOT NULL,
+  version integer NOT NULL,
+  issued_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  valid_until date NOT NULL,
+  total numeric(12,2) NOT NULL,
+  content jsonb NOT NULL,
+  UNIQUE (quote_number, version)
+);
+
+ALTER TABLE quotations ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_quotations_lead_id ON quotations(lead_id, issued_at DESC);
+
+CREATE POLICY "Users can read quotations of accessible leads"
+  ON quotations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = quotations.lead_id
+    )
+  );
+
+CREATE POLICY "Users can issue quotations for accessible leads"
+  ON quotations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    issued_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = quotations.lead_id
+    )
+  );
+
+-- Numbers are assigned here so two people issuing at once can't take the same one
+CREATE OR REPLACE FUNCTION assign_quotation_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest quotations%ROWTYPE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.lead_id::text));
+
+  SELECT * INTO latest FROM quotations
+  WHERE lead_id = NEW.lead_id
+  ORDER BY issued_at DESC
+  LIMIT 1;
+
+  IF latest.id IS NULL THEN
+    NEW.quote_number := 'Q-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('quotation_number_seq')::text, 5, '0');
+    NEW.version := 1;
+  ELSE
+    NEW.quote_number := latest.quote_number;
+    NEW.version := (SELECT max(version) + 1 FROM quotations WHERE quote_number = latest.quote_number);
+  END IF;
+
+  NEW.issued_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_quotations_number ON quotations;
+CREATE TRIGGER assign_quotations_number BEFORE INSERT ON quotations
+FOR EACH ROW EXECUTE FUNCTION assign_quotation_number();
+
+-- Mirrors calculateQuote() in the app: line discounts first, then the lead's overall discount, then GST
+CREATE OR REPLACE FUNCTION lead_quote_total(quote_lead_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lines AS (
+    SELECT COALESCE(lp.unit_price, p.price, 0) * lp.quantity AS gross, lp.discount_percent
+    FROM lead_products lp
+    LEFT JOIN products p ON p.id = lp.product_id
+    WHERE lp.lead_id = quote_lead_id
+    UNION ALL
+    SELECT COALESCE(ls.unit_price, s.price, 0) * ls.quantity, ls.discount_percent
+    FROM lead_services ls
+    LEFT JOIN services s ON s.id = ls.service_id
+    WHERE ls.lead_id = quote_lead_id
+  ),
+  discounted AS (
+    SELECT COALESCE(sum(round(gross - gross * LEAST(GREATEST(discount_percent, 0), 100) / 100, 2)), 0) AS amount
+    FROM lines
+  ),
+  taxable AS (
+    SELECT
+      round(discounted.amount - round(discounted.amount * LEAST(GREATEST(leads.discount_percent, 0), 100) / 100, 2), 2) AS amount,
+      GREATEST(leads.gst_rate, 0) AS gst_rate
+    FROM discounted, leads
+    WHERE leads.id = quote_lead_id
+  )
+  SELECT round(amount + round(amount * gst_rate / 100, 2), 2) FROM taxable;
+$$;
+
+-- The stored total always comes from the lead's items; the snapshot the customer sees has to agree with it,
+-- give or take a paisa of floating point rounding in the browser
+CREATE OR REPLACE FUNCTION check_quotation_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.total := lead_quote_total(NEW.lead_id);
+
+  IF NEW.total IS NULL
+    OR jsonb_typeof(NEW.content #> '{totals,total}') IS DISTINCT FROM 'number'
+    OR abs(NEW.total - (NEW.content #>> '{totals,total}')::numeric) > 0.01
+  THEN
+    RAISE EXCEPTION 'The quotation total does not match the lead''s products and services';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_quotations_total ON quotations;
+CREATE TRIGGER check_quotations_total BEFORE INSERT ON quotations
+FOR EACH ROW EXECUTE FUNCTION check_quotation_total();
+
+CREATE OR REPLACE FUNCTION log_quotation_issued()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO lead_activities (lead_id, actor_id, activity_type, description)
+  VALUES (NEW.lead_id, NEW.issued_by, 'quoted', NEW.quote_number || ' v' || NEW.version);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_quotations_issued ON quotations;
+CREATE TRIGGER log_quotations_issued AFTER INSERT ON quotations
+FOR EACH ROW EXECUTE FUNCTION log_quotation_issued();
+
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check CHECK (activity_type IN (
+  'created', 'updated', 'merged', 'quoted',
+  'product_added', 'product_updated', 'product_removed',
+  'service_added', 'service_updated', 'service_removed',
+  'call', 'visit', 'email', 'meeting', 'note'
+));
+
+INSERT INTO lead_merge_tables (table_name) VALUES ('quotations') ON CONFLICT (table_name) DO NOTHING;
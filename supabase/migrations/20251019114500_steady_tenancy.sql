@@ -0,0 +1,270 @@
+/*
+  # Rental agreements
+
+  1. New Tables
+    - `rental_agreements` - the agreement signed when a Rent lead is sealed
+      - `monthly_fee`, `deposit`, `start_date` and `tenure_months` as agreed
+      - `end_date` is derived: the day before `start_date` + `tenure_months`; it is the renewal or return date
+      - `status` is 'active', 'renewed' (a follow-on agreement exists) or 'returned' (items taken back on `returned_on`)
+      - `renewed_from` links a renewal to the agreement it continues
+    - `rental_agreement_items` - products rented under the agreement, with quantity
+    - `rental_billing` - monthly billing schedule, one row per period, billed in advance on `period_start`
+      - `paid_on` records when the period was paid
+
+  2. Billing schedule
+    - Kept in step with the agreement by a trigger: periods are added for the full tenure, and unpaid
+      periods are removed when the dates or return date change. A fee change re-prices only periods that
+      haven't started yet; started periods were billed at the old fee. Paid periods are never touched.
+
+  3. New Functions
+    - `renew_rental_agreement(agreement_id, tenure_months, monthly_fee)` starts a follow-on agreement the day after
+      the current one ends, copies its items and marks the old one renewed
+
+  4. Changes
+    - `merge_leads()` moves rental agreements to the surviving lead
+
+  5. Security
+    - Agreements, items and billing follow lead visibility
+    - Only admins can delete an agreement, apart from its creator undoing one that has no items or payments yet
+    - Billing periods are written only by the schedule trigger; users can only change `paid_on`
+*/
+
+CREATE TABLE IF NOT EXISTS rental_agreements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  monthly_fee numeric(10,2) NOT NULL CHECK (monthly_fee > 0),
+  deposit numeric(10,2) NOT NULL DEFAULT 0 CHECK (deposit >= 0),
+  start_date date NOT NULL,
+  tenure_months integer NOT NULL CHECK (tenure_months > 0),
+  end_date date GENERATED ALWAYS AS ((start_date + make_interval(months => tenure_months))::date - 1) STORED,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'renewed', 'returned')),
+  returned_on date,
+  renewed_from uuid REFERENCES rental_agreements(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((status = 'returned') = (returned_on IS NOT NULL)),
+  CHECK (returned_on IS NULL OR returned_on >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS rental_agreement_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agreement_id uuid NOT NULL REFERENCES rental_agreements(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  UNIQUE (agreement_id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS rental_billing (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agreement_id uuid NOT NULL REFERENCES rental_agreements(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  amount numeric(10,2) NOT NULL,
+  paid_on date,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (agreement_id, period_start)
+);
+
+ALTER TABLE rental_agreements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rental_agreement_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rental_billing ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_rental_agreements_lead_id ON rental_agreements(lead_id);
+CREATE INDEX IF NOT EXISTS idx_rental_agreements_end_date ON rental_agreements(end_date) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_rental_billing_unpaid ON rental_billing(period_start) WHERE paid_on IS NULL;
+
+CREATE TRIGGER update_rental_agreements_updated_at BEFORE UPDATE ON rental_agreements
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Users can read rental agreements of accessible leads"
+  ON rental_agreements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = rental_agreements.lead_id
+    )
+  );
+
+CREATE POLICY "Users can create rental agreements for accessible leads"
+  ON rental_agreements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = rental_agreements.lead_id
+    )
+  );
+
+CREATE POLICY "Users can update rental agreements of accessible leads"
+  ON rental_agreements FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = rental_agreements.lead_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = rental_agreements.lead_id
+    )
+  );
+
+-- Deleting cascades to items and billing, so agreements end by being returned or renewed instead. The
+-- creator may still undo an agreement that never got its items, which is how the form rolls back a failed save.
+CREATE POLICY "Admins can delete rental agreements"
+  ON rental_agreements FOR DELETE
+  TO authenticated
+  USING (
+    is_admin()
+    OR (
+      created_by = auth.uid()
+      AND NOT EXISTS (SELECT 1 FROM rental_agreement_items WHERE rental_agreement_items.agreement_id = rental_agreements.id)
+      AND NOT EXISTS (SELECT 1 FROM rental_billing WHERE rental_billing.agreement_id = rental_agreements.id AND paid_on IS NOT NULL)
+    )
+  );
+
+CREATE POLICY "Users can manage items of accessible rental agreements"
+  ON rental_agreement_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rental_agreements
+      WHERE rental_agreements.id = rental_agreement_items.agreement_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM rental_agreements
+      WHERE rental_agreements.id = rental_agreement_items.agreement_id
+    )
+  );
+
+-- Periods are generated by the trigger below; users only record payments
+CREATE POLICY "Users can read billing of accessible rental agreements"
+  ON rental_billing FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rental_agreements
+      WHERE rental_agreements.id = rental_billing.agreement_id
+    )
+  );
+
+CREATE POLICY "Users can record payments on accessible rental agreements"
+  ON rental_billing FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rental_agreements
+      WHERE rental_agreements.id = rental_billing.agreement_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM rental_agreements
+      WHERE rental_agreements.id = rental_billing.agreement_id
+    )
+  );
+
+-- The policy picks the rows; the column grant keeps amounts and periods out of reach
+REVOKE INSERT, UPDATE, DELETE ON rental_billing FROM authenticated, anon;
+GRANT UPDATE (paid_on) ON rental_billing TO authenticated;
+
+-- Returned agreements are billed up to and including the period the items came back in
+CREATE OR REPLACE FUNCTION rental_billing_periods(start_date date, tenure_months integer, returned_on date)
+RETURNS TABLE (period_start date, period_end date)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (start_date + make_interval(months => n))::date,
+    (start_date + make_interval(months => n + 1))::date - 1
+  FROM generate_series(0, tenure_months - 1) AS n
+  WHERE returned_on IS NULL OR (start_date + make_interval(months => n))::date <= returned_on;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_rental_billing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM rental_billing
+  WHERE agreement_id = NEW.id
+  AND paid_on IS NULL
+  AND period_start NOT IN (
+    SELECT p.period_start FROM rental_billing_periods(NEW.start_date, NEW.tenure_months, NEW.returned_on) p
+  );
+
+  -- Billed in advance, so a period's amount is fixed once it has started
+  UPDATE rental_billing SET amount = NEW.monthly_fee
+  WHERE agreement_id = NEW.id
+  AND paid_on IS NULL
+  AND period_start > current_date
+  AND amount <> NEW.monthly_fee;
+
+  INSERT INTO rental_billing (agreement_id, period_start, period_end, amount)
+  SELECT NEW.id, p.period_start, p.period_end, NEW.monthly_fee
+  FROM rental_billing_periods(NEW.start_date, NEW.tenure_months, NEW.returned_on) p
+  ON CONFLICT (agreement_id, period_start) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_rental_agreements_billing ON rental_agreements;
+CREATE TRIGGER sync_rental_agreements_billing
+AFTER INSERT OR UPDATE OF monthly_fee, start_date, tenure_months, returned_on ON rental_agreements
+FOR EACH ROW EXECUTE FUNCTION sync_rental_billing();
+
+CREATE OR REPLACE FUNCTION renew_rental_agreement(agreement_id uuid, tenure_months integer, monthly_fee numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  agreement rental_agreements%ROWTYPE;
+  renewal_id uuid;
+BEGIN
+  SELECT * INTO agreement FROM rental_agreements
+  WHERE id = renew_rental_agreement.agreement_id
+  FOR UPDATE;
+
+  IF agreement.id IS NULL THEN
+    RAISE EXCEPTION 'Rental agreement not found';
+  END IF;
+
+  IF agreement.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active agreements can be renewed';
+  END IF;
+
+  INSERT INTO rental_agreements (lead_id, monthly_fee, deposit, start_date, tenure_months, renewed_from, notes)
+  VALUES (
+    agreement.lead_id,
+    renew_rental_agreement.monthly_fee,
+    agreement.deposit,
+    agreement.end_date + 1,
+    renew_rental_agreement.tenure_months,
+    agreement.id,
+    agreement.notes
+  )
+  RETURNING id INTO renewal_id;
+
+  INSERT INTO rental_agreement_items (agreement_id, product_id, quantity)
+  SELECT renewal_id, product_id, quantity
+  FROM rental_agreement_items
+  WHERE rental_agreement_items.agreement_id = agreement.id;
+
+  UPDATE rental_agreements SET status = 'renewed' WHERE id = agreement.id;
+
+  RETURN renewal_id;
+END;
+$$;
+
+INSERT INTO lead_merge_tables (table_name) VALUES ('rental_agreements') ON CONFLICT (table_name) DO NOTHING;
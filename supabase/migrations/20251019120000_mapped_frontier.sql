@@ -0,0 +1,226 @@
+/*
+  # PIN code territories
+
+  1. New Tables
+    - `territories` - admin-defined sales territories
+    - `territory_rules` - the PIN codes a territory covers, each rule one of
+      - 'prefix': every PIN starting with `prefix` (1 to 6 digits)
+      - 'range': every PIN from `range_start` to `range_end`
+      - 'list': the PINs in `pincodes`
+
+  2. Changes
+    - `leads.territory_id` is set on save from the lead's PIN code; when rules overlap the narrowest one wins
+      (a listed PIN, then the smallest range or longest prefix)
+    - `leads.city` and `leads.state`, filled in from the bundled PIN dataset in the app
+    - PIN codes must be 6 digits; existing rows are not checked
+    - Leads are re-tagged whenever territory rules change; like a score recalculation this is not an edit, so it
+      leaves `updated_at` alone and isn't written to the activity log
+    - `merge_leads()` also applies `city` and `state`
+
+  3. New Functions
+    - `territory_for_pincode(pin)` - the territory a PIN falls in
+    - `retag_lead_territories()` - re-applies the rules to every lead, returns the number of leads changed
+    - `territory_report(range_start, range_end, owner_id)` - per territory: leads created in the range, open pipeline,
+      closed and sealed counts and values; leads outside every territory are reported with a null territory
+
+  4. Security
+    - Everyone can read territories and rules; only admins can change them
+    - The report runs with the caller's permissions
+*/
+
+CREATE TABLE IF NOT EXISTS territories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS territory_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  territory_id uuid NOT NULL REFERENCES territories(id) ON DELETE CASCADE,
+  rule_type text NOT NULL CHECK (rule_type IN ('prefix', 'range', 'list')),
+  prefix text CHECK (prefix ~ '^[1-9][0-9]{0,5}$'),
+  range_start integer CHECK (range_start BETWEEN 100000 AND 999999),
+  range_end integer CHECK (range_end BETWEEN 100000 AND 999999),
+  pincodes integer[],
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    CASE rule_type
+      WHEN 'prefix' THEN prefix IS NOT NULL
+      WHEN 'range' THEN range_start IS NOT NULL AND range_end IS NOT NULL AND range_start <= range_end
+      ELSE cardinality(pincodes) > 0
+    END
+  )
+);
+
+ALTER TABLE territories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE territory_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_territory_rules_territory_id ON territory_rules(territory_id);
+
+CREATE TRIGGER update_territories_updated_at BEFORE UPDATE ON territories
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Authenticated users can read territories"
+  ON territories FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage territories"
+  ON territories FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Authenticated users can read territory rules"
+  ON territory_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage territory rules"
+  ON territory_rules FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'territory_id'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN territory_id uuid REFERENCES territories(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'city'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN city text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'state'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN state text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'leads_pincode_format'
+  ) THEN
+    ALTER TABLE leads ADD CONSTRAINT leads_pincode_format
+      CHECK (pincode IS NULL OR (pincode BETWEEN 100000 AND 999999 AND pincode = trunc(pincode))) NOT VALID;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_territory_id ON leads(territory_id);
+
+CREATE OR REPLACE FUNCTION territory_for_pincode(pin numeric)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.territory_id
+  FROM territory_rules r
+  WHERE pin IS NOT NULL
+  AND CASE r.rule_type
+    WHEN 'prefix' THEN pin::integer::text LIKE r.prefix || '%'
+    WHEN 'range' THEN pin BETWEEN r.range_start AND r.range_end
+    ELSE pin::integer = ANY(r.pincodes)
+  END
+  -- Number of PINs the rule covers, so the most specific rule wins
+  ORDER BY CASE r.rule_type
+    WHEN 'list' THEN 0
+    WHEN 'range' THEN r.range_end - r.range_start + 1
+    ELSE power(10, 6 - length(r.prefix))
+  END, r.created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION tag_lead_territory()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.territory_id := territory_for_pincode(NEW.pincode);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS tag_leads_territory ON leads;
+CREATE TRIGGER tag_leads_territory BEFORE INSERT OR UPDATE OF pincode, territory_id ON leads
+FOR EACH ROW EXECUTE FUNCTION tag_lead_territory();
+
+-- Only touches leads whose territory actually changes
+CREATE OR REPLACE FUNCTION retag_lead_territories()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can re-tag territories';
+  END IF;
+
+  -- Re-tagging is bookkeeping like rescoring, so it reuses that flag to skip the updated_at and activity triggers
+  PERFORM set_config('app.rescoring', 'on', true);
+
+  UPDATE leads SET territory_id = territory_for_pincode(pincode)
+  WHERE territory_id IS DISTINCT FROM territory_for_pincode(pincode);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  PERFORM set_config('app.rescoring', 'off', true);
+  RETURN updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retag_territories_on_rule_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM retag_lead_territories();
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS retag_territories_on_rules ON territory_rules;
+CREATE TRIGGER retag_territories_on_rules AFTER INSERT OR UPDATE OR DELETE ON territory_rules
+FOR EACH STATEMENT EXECUTE FUNCTION retag_territories_on_rule_change();
+
+CREATE OR REPLACE FUNCTION territory_report(
+  range_start timestamptz,
+  range_end timestamptz,
+  owner_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  territory_id uuid,
+  lead_count bigint,
+  open_leads bigint,
+  closed_leads bigint,
+  sealed_leads bigint,
+  pipeline_value numeric,
+  closed_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.territory_id,
+    count(*),
+    count(*) FILTER (WHERE l.status <> 'Closed'),
+    count(*) FILTER (WHERE l.status = 'Closed'),
+    count(*) FILTER (WHERE COALESCE(l.lead_sealed, false)),
+    COALESCE(sum(l.potential_amount) FILTER (WHERE l.status <> 'Closed'), 0),
+    COALESCE(sum(l.potential_amount) FILTER (WHERE l.status = 'Closed'), 0)
+  FROM leads l
+  WHERE l.created_at >= range_start
+  AND l.created_at < range_end
+  AND (owner_id IS NULL OR l.assigned_to = owner_id)
+  GROUP BY l.territory_id;
+$$;
+
+INSERT INTO lead_merge_fields (field_name) VALUES ('city'), ('state') ON CONFLICT (field_name) DO NOTHING;
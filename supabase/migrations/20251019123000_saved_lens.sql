@@ -0,0 +1,69 @@
+/*
+  # Saved lead views
+
+  1. New Tables
+    - `saved_views` - named lead list filters and sort order
+      - `params` holds the dashboard query string values (q, status, type, model, owner, territory, sort, dir);
+        an owner of 'me' always means whoever opens the view
+      - `is_default` - the view the dashboard opens with; at most one per user
+      - `shared` - whether the rest of the team can see and open the view
+
+  2. Security
+    - Users manage their own views
+    - Shared views can be read by the owner's team, and by admins; the leads a view lists are still limited by lead access
+*/
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_default boolean NOT NULL DEFAULT false,
+  shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_views_default ON saved_views(user_id) WHERE is_default;
+
+CREATE TRIGGER update_saved_views_updated_at BEFORE UPDATE ON saved_views
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Marking a view as the default clears the flag on the user's other views
+CREATE OR REPLACE FUNCTION clear_other_default_views()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE saved_views SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER clear_saved_views_default BEFORE INSERT OR UPDATE OF is_default ON saved_views
+FOR EACH ROW EXECUTE FUNCTION clear_other_default_views();
+
+CREATE POLICY "Users can read own and shared views"
+  ON saved_views FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR (shared AND (is_admin() OR is_team_member(user_id))));
+
+CREATE POLICY "Users can insert own views"
+  ON saved_views FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own views"
+  ON saved_views FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own views"
+  ON saved_views FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,40 @@
+/*
+  # Lead tags and bulk tagging
+
+  1. Changes
+    - `leads.tags` - free-form labels such as the event a lead came from
+    - `merge_leads()` keeps the tags of both leads
+
+  2. New Functions
+    - `add_lead_tags(lead_ids, new_tags)` - adds tags to many leads at once and returns the ids it changed;
+      leads the caller cannot update are left out
+
+  3. Security
+    - `add_lead_tags` runs with the caller's permissions, so lead policies still apply
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_tags ON leads USING gin(tags);
+
+CREATE OR REPLACE FUNCTION add_lead_tags(lead_ids uuid[], new_tags text[])
+RETURNS SETOF uuid
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE leads
+  SET tags = ARRAY(SELECT DISTINCT unnest(tags || new_tags) ORDER BY 1)
+  WHERE id = ANY(lead_ids)
+  RETURNING id;
+$$;
+
+-- Merged leads keep the tags of both
+INSERT INTO lead_merge_fields (field_name, combine) VALUES ('tags', true) ON CONFLICT (field_name) DO NOTHING;
@@ -0,0 +1,35 @@
+/*
+  # Realtime lead changes
+
+  1. Changes
+    - Adds `leads`, `lead_products` and `lead_services` to the `supabase_realtime` publication so the
+      dashboard can patch itself when teammates, imports or bulk actions change the pipeline
+
+  2. Security
+    - Realtime applies the existing row level security policies to inserts and updates, so users only
+      receive changes to leads they can already see
+    - Deletes carry only the primary key
+    - `lead_products` and `lead_services` use full replica identity so a removed line item still names its
+      lead where realtime passes the old row through; when it is trimmed to the id the dashboard refetches
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH table_name IN ARRAY ARRAY['leads', 'lead_products', 'lead_services'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE lead_products REPLICA IDENTITY FULL;
+ALTER TABLE lead_services REPLICA IDENTITY FULL;
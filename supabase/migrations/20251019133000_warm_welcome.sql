@@ -0,0 +1,75 @@
+/*
+  # Server-side profile provisioning
+
+  1. Changes
+    - `profiles.user_id` becomes unique; duplicate rows left by earlier client-side inserts are removed,
+      keeping the profile with the highest role, then one with a team, then the oldest
+    - Every new `auth.users` row gets a profile with the email and the `full_name` given at sign-up
+    - A user's confirmed email change is copied to their profile
+    - Users without a profile are backfilled
+
+  2. Security
+    - The triggers run as SECURITY DEFINER because sign-up happens before the user has a session
+    - New profiles always start as 'sales_rep'
+*/
+
+-- `user_role` values were added out of rank order, so the ranking is spelled out
+WITH ranked AS (
+  SELECT id, row_number() OVER (
+    PARTITION BY user_id
+    ORDER BY
+      CASE role WHEN 'admin' THEN 0 WHEN 'manager' THEN 1 ELSE 2 END,
+      team_id IS NULL,
+      created_at,
+      id
+  ) AS position
+  FROM profiles
+)
+DELETE FROM profiles
+USING ranked
+WHERE profiles.id = ranked.id
+AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_user_id ON profiles(user_id);
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (user_id, email, full_name)
+  VALUES (NEW.id, COALESCE(NEW.email, ''), NULLIF(trim(NEW.raw_user_meta_data ->> 'full_name'), ''))
+  ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- auth.users.email only changes once the new address is confirmed
+CREATE OR REPLACE FUNCTION handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE profiles SET email = NEW.email WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_changed ON auth.users;
+CREATE TRIGGER on_auth_user_email_changed AFTER UPDATE OF email ON auth.users
+FOR EACH ROW WHEN (NEW.email IS DISTINCT FROM OLD.email)
+EXECUTE FUNCTION handle_user_email_change();
+
+INSERT INTO profiles (user_id, email, full_name)
+SELECT users.id, COALESCE(users.email, ''), NULLIF(trim(users.raw_user_meta_data ->> 'full_name'), '')
+FROM auth.users users
+WHERE NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = users.id)
+ON CONFLICT (user_id) DO NOTHING;
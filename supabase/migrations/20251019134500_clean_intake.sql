@@ -0,0 +1,46 @@
+/*
+  # Import duplicate lookup
+
+  1. Functions
+    - `find_import_duplicates(emails, phones)` - Leads whose normalized email or phone is in the given
+      lists, so an import is checked against every lead rather than the ones loaded in the browser
+
+  2. Security
+    - Searches all leads, like `find_duplicate_leads`; for leads the caller can't access only the
+      email or phone the caller sent, the match reason and the owner come back, never the lead's name
+      or its other contact details
+*/
+
+DROP FUNCTION IF EXISTS find_import_duplicates(text[], text[]);
+
+CREATE OR REPLACE FUNCTION find_import_duplicates(emails text[], phones text[])
+RETURNS TABLE (
+  email text,
+  phone text,
+  lead_name text,
+  owner_name text,
+  match_reason text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN access.visible OR keys.email_match THEN keys.email END,
+    CASE WHEN access.visible OR keys.phone_match THEN keys.phone END,
+    CASE WHEN access.visible THEN l.full_name END,
+    (SELECT COALESCE(p.full_name, p.email) FROM profiles p WHERE p.user_id = l.assigned_to),
+    CASE WHEN keys.email_match THEN 'email' ELSE 'phone' END
+  FROM leads l
+  CROSS JOIN LATERAL (
+    SELECT
+      lower(btrim(l.email)) AS email,
+      normalize_phone(l.phone) AS phone,
+      lower(btrim(l.email)) = ANY (emails) AS email_match,
+      normalize_phone(l.phone) = ANY (phones) AS phone_match
+  ) keys
+  CROSS JOIN LATERAL (SELECT can_access_lead(l.user_id, l.assigned_to) AS visible) access
+  WHERE auth.uid() IS NOT NULL
+  AND (keys.email_match OR keys.phone_match);
+$$;
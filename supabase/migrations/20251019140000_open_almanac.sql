@@ -0,0 +1,39 @@
+/*
+  # Follow-up calendar feeds
+
+  1. New Tables
+    - `calendar_feeds` - one secret token per user for subscribing to their follow-ups from a phone or
+      desktop calendar; the `follow-up-calendar` edge function serves the feed for a token
+
+  2. Security
+    - Users read, create and reset their own token
+    - Calendar apps can't sign in, so the token is the only credential; resetting it cuts off old subscriptions
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_calendar_feeds_updated_at BEFORE UPDATE ON calendar_feeds
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Users can read own calendar feed"
+  ON calendar_feeds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own calendar feed"
+  ON calendar_feeds FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can reset own calendar feed"
+  ON calendar_feeds FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
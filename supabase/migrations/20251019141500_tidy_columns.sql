@@ -0,0 +1,50 @@
+/*
+  # Pipeline board totals
+
+  1. New Functions
+    - `lead_board_totals(search_term, filter_status, filter_lead_type, filter_model_type, owner_id, territory)` -
+      lead count and potential amount per status for every lead matching the dashboard filters, so board
+      columns add up even when only the first page of cards is loaded
+      - `search_term` matches name, email or company like the dashboard search
+      - `territory` is a territory id, or 'none' for leads outside every territory
+
+  2. Security
+    - Runs with the caller's permissions, so only leads they can see are counted
+*/
+
+CREATE OR REPLACE FUNCTION lead_board_totals(
+  search_term text DEFAULT '',
+  filter_status text DEFAULT '',
+  filter_lead_type text DEFAULT '',
+  filter_model_type text DEFAULT '',
+  owner_id uuid DEFAULT NULL,
+  territory text DEFAULT ''
+)
+RETURNS TABLE (
+  status lead_status,
+  lead_count bigint,
+  pipeline_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.status, count(*), COALESCE(sum(l.potential_amount), 0)
+  FROM leads l
+  WHERE (
+    COALESCE(search_term, '') = ''
+    OR l.full_name ILIKE '%' || search_term || '%'
+    OR l.email ILIKE '%' || search_term || '%'
+    OR l.company ILIKE '%' || search_term || '%'
+  )
+  AND (COALESCE(filter_status, '') = '' OR l.status::text = filter_status)
+  AND (COALESCE(filter_lead_type, '') = '' OR l.lead_type::text = filter_lead_type)
+  AND (COALESCE(filter_model_type, '') = '' OR l.model_type::text = filter_model_type)
+  AND (owner_id IS NULL OR l.assigned_to = owner_id)
+  AND (
+    COALESCE(territory, '') = ''
+    OR (territory = 'none' AND l.territory_id IS NULL)
+    OR l.territory_id::text = territory
+  )
+  GROUP BY l.status;
+$$;
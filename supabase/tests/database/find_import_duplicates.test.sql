@@ -0,0 +1,65 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- Two reps on no team; profiles are created by the sign-up trigger
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com'),
+  ('00000000-0000-0000-0000-0000000000b2', 'other@example.com');
+
+INSERT INTO leads (user_id, assigned_to, full_name, email, phone, lead_type, model_type)
+VALUES (
+  '00000000-0000-0000-0000-0000000000a1',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Hidden Customer',
+  'Hidden@Example.com',
+  '98765 43210',
+  'Individual',
+  'Purchase'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT email FROM find_import_duplicates('{}', ARRAY['9876543210'])),
+  NULL,
+  'a phone match on a lead the rep cannot access does not reveal its email'
+);
+
+SELECT is(
+  (SELECT phone FROM find_import_duplicates('{}', ARRAY['9876543210'])),
+  '9876543210',
+  'the phone the rep sent is returned'
+);
+
+SELECT is(
+  (SELECT phone FROM find_import_duplicates(ARRAY['hidden@example.com'], '{}')),
+  NULL,
+  'an email match on a lead the rep cannot access does not reveal its phone'
+);
+
+SELECT is(
+  (SELECT lead_name FROM find_import_duplicates(ARRAY['hidden@example.com'], '{}')),
+  NULL,
+  'the name of a lead the rep cannot access is not returned'
+);
+
+SELECT is(
+  (SELECT match_reason FROM find_import_duplicates(ARRAY['hidden@example.com'], '{}')),
+  'email',
+  'the match reason is returned'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT email FROM find_import_duplicates('{}', ARRAY['9876543210'])),
+  'hidden@example.com',
+  'the owner still sees the stored email'
+);
+
+SELECT * FROM finish();
+ROLLBACK;